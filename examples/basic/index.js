@@ -50,17 +50,17 @@ async function main() {
         // Call tools using property access (recommended)
         const utcTime = await client.servers.time.tools.get_current_time({ timezone: 'UTC' });
         console.log('UTC:');
-        console.log(utcTime);
+        console.log(utcTime.text());
 
         const tokyoTime = await client.servers.time.tools.get_current_time({ timezone: 'Asia/Tokyo' });
         console.log('Tokyo:');
-        console.log(tokyoTime);
+        console.log(tokyoTime.text());
 
         // Alternative: Use callTool() for dynamic tool names
         const toolName = 'get_current_time';
         const nyTime = await client.servers.time.callTool(toolName, { timezone: 'America/New_York' });
         console.log('New York:');
-        console.log(nyTime);
+        console.log(nyTime.text());
       }
     }
 
@@ -10,7 +10,7 @@
  */
 
 import { ChatOpenAI } from '@langchain/openai';
-import { McpdClient, McpdError } from '@mozilla-ai/mcpd';
+import { ConnectionError, DEFAULT_API_ENDPOINT, McpdClient, McpdError } from '@mozilla-ai/mcpd';
 
 
 /**
@@ -18,8 +18,6 @@ import { McpdClient, McpdError } from '@mozilla-ai/mcpd';
  */
 async function main() {
   // Configuration
-  const mcpdEndpoint = process.env.MCPD_ADDR || 'http://localhost:8090';
-  const mcpdApiKey = process.env.MCPD_API_KEY; // NOTE: Not used at present
   const openaiApiKey = process.env.OPENAI_API_KEY;
 
   if (!openaiApiKey) {
@@ -29,12 +27,9 @@ async function main() {
   }
 
   try {
-    // Initialize mcpd client
+    // Initialize mcpd client from MCPD_ADDR and MCPD_API_KEY
     console.log('🔗 Connecting to mcpd daemon...');
-    const mcpdClient = new McpdClient({
-      apiEndpoint: mcpdEndpoint,
-      apiKey: mcpdApiKey,
-    });
+    const mcpdClient = McpdClient.fromEnv();
 
     // Get agent tools from mcpd in LangChain format (array format is default)
     console.log('🛠️  Fetching tools from MCP servers...');
@@ -104,14 +99,15 @@ async function main() {
     console.log('✅ Example completed successfully!');
 
   } catch (error) {
-    if (error instanceof McpdError) {
+    // ConnectionError is an McpdError, so it is checked first.
+    if (error instanceof ConnectionError) {
       console.error('------------------------------');
-      console.error(`[mcpd ERROR] ${error.message}`);
+      console.error(`[CONNECTION ERROR] Could not connect to mcpd daemon at ${process.env.MCPD_ADDR || DEFAULT_API_ENDPOINT}`);
+      console.error('Please ensure the mcpd application is running with the "daemon" command.');
       console.error('------------------------------');
-    } else if (error.code === 'ECONNREFUSED') {
+    } else if (error instanceof McpdError) {
       console.error('------------------------------');
-      console.error(`[CONNECTION ERROR] Could not connect to mcpd daemon at ${mcpdEndpoint}`);
-      console.error('Please ensure the mcpd application is running with the "daemon" command.');
+      console.error(`[mcpd ERROR] ${error.message}`);
       console.error('------------------------------');
     } else {
       console.error('[UNEXPECTED ERROR]', error);
@@ -10,15 +10,13 @@
 
 import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
-import { McpdClient, McpdError } from '@mozilla-ai/mcpd';
+import { ConnectionError, DEFAULT_API_ENDPOINT, McpdClient, McpdError } from '@mozilla-ai/mcpd';
 
 /**
  * Main function demonstrating the integration.
  */
 async function main() {
   // Configuration
-  const mcpdEndpoint = process.env.MCPD_ADDR || 'http://localhost:8090';
-  const mcpdApiKey = process.env.MCPD_API_KEY; // NOTE: Not used at present
   const openaiApiKey = process.env.OPENAI_API_KEY;
   
   if (!openaiApiKey) {
@@ -28,12 +26,9 @@ async function main() {
   }
 
   try {
-    // Initialize mcpd client
+    // Initialize mcpd client from MCPD_ADDR and MCPD_API_KEY
     console.log('🔗 Connecting to mcpd daemon...');
-    const mcpdClient = new McpdClient({
-      apiEndpoint: mcpdEndpoint,
-      apiKey: mcpdApiKey,
-    });
+    const mcpdClient = McpdClient.fromEnv();
 
     // Get agent tools from mcpd in Vercel AI SDK format (object format)
     console.log('🛠️  Fetching tools from MCP servers...');
@@ -95,14 +90,15 @@ async function main() {
     console.log('✅ Example completed successfully!');
 
   } catch (error) {
-    if (error instanceof McpdError) {
+    // ConnectionError is an McpdError, so it is checked first.
+    if (error instanceof ConnectionError) {
       console.error('------------------------------');
-      console.error(`[mcpd ERROR] ${error.message}`);
+      console.error(`[CONNECTION ERROR] Could not connect to mcpd daemon at ${process.env.MCPD_ADDR || DEFAULT_API_ENDPOINT}`);
+      console.error('Please ensure the mcpd application is running with the "daemon" command.');
       console.error('------------------------------');
-    } else if (error.code === 'ECONNREFUSED') {
+    } else if (error instanceof McpdError) {
       console.error('------------------------------');
-      console.error(`[CONNECTION ERROR] Could not connect to mcpd daemon at ${mcpdEndpoint}`);
-      console.error('Please ensure the mcpd application is running with the "daemon" command.');
+      console.error(`[mcpd ERROR] ${error.message}`);
       console.error('------------------------------');
     } else {
       console.error('[UNEXPECTED ERROR]', error);
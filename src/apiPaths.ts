@@ -2,7 +2,12 @@
  * Centralized API path constants for mcpd daemon endpoints.
  */
 
-const API_BASE = "/api/v1";
+/**
+ * Version of the daemon API used by the SDK.
+ */
+export const API_VERSION = "v1";
+
+const API_BASE = `/api/${API_VERSION}`;
 
 const SERVERS_BASE = `${API_BASE}/servers`;
 const HEALTH_SERVERS_BASE = `${API_BASE}/health/servers`;
@@ -37,6 +42,10 @@ export const API_PATHS = {
   RESOURCE_CONTENT: (serverName: string, uri: string) =>
     `${SERVERS_BASE}/${encodeURIComponent(serverName)}/resources/content?uri=${encodeURIComponent(uri)}`,
 
+  // Daemon (not part of the mcpd API the SDK was written against; daemons
+  // without it respond 404, which getDaemonInfo() and ping() tolerate)
+  DAEMON_INFO: `${API_BASE}/info`,
+
   // Health
   HEALTH_ALL: HEALTH_SERVERS_BASE,
   HEALTH_SERVER: (serverName: string) =>
@@ -0,0 +1,290 @@
+/**
+ * Binary content helpers for the mcpd SDK.
+ *
+ * This module decodes the base64 image and audio content of tool results and
+ * the blobs of resources, checks their size against a limit before decoding,
+ * and identifies their media type from their leading bytes.
+ */
+
+import { ContentTooLargeError, McpdError } from "./errors";
+import type {
+  AudioContent,
+  EmbeddedResource,
+  ImageContent,
+  ResourceContent,
+} from "./types";
+
+/**
+ * Default maximum size of decoded content, in bytes (50 MiB).
+ */
+export const DEFAULT_MAX_CONTENT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Media type of content whose type is neither declared nor recognized.
+ */
+const UNKNOWN_MIME_TYPE = "application/octet-stream";
+
+/**
+ * Content that carries base64-encoded bytes: image and audio blocks of tool
+ * results, embedded resources, and resource contents from `readResource()`.
+ */
+export type BinaryContentSource =
+  | ImageContent
+  | AudioContent
+  | EmbeddedResource
+  | ResourceContent;
+
+/**
+ * Options for decoding binary content.
+ */
+export interface DecodeContentOptions {
+  /**
+   * Maximum decoded size in bytes. Larger content is rejected before it is
+   * decoded.
+   *
+   * @defaultValue 52428800 (50 MiB)
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Leading bytes identifying a media type. Each part must match at its offset.
+ */
+interface Signature {
+  mimeType: string;
+  parts: Array<{ offset: number; bytes: number[] }>;
+}
+
+const ascii = (text: string): number[] =>
+  Array.from(text, (char) => char.charCodeAt(0));
+
+const SIGNATURES: readonly Signature[] = [
+  {
+    mimeType: "image/png",
+    parts: [{ offset: 0, bytes: [0x89, ...ascii("PNG\r\n\x1a\n")] }],
+  },
+  { mimeType: "image/jpeg", parts: [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }] },
+  { mimeType: "image/gif", parts: [{ offset: 0, bytes: ascii("GIF8") }] },
+  {
+    mimeType: "image/webp",
+    parts: [
+      { offset: 0, bytes: ascii("RIFF") },
+      { offset: 8, bytes: ascii("WEBP") },
+    ],
+  },
+  {
+    mimeType: "audio/wav",
+    parts: [
+      { offset: 0, bytes: ascii("RIFF") },
+      { offset: 8, bytes: ascii("WAVE") },
+    ],
+  },
+  { mimeType: "audio/mpeg", parts: [{ offset: 0, bytes: ascii("ID3") }] },
+  { mimeType: "audio/ogg", parts: [{ offset: 0, bytes: ascii("OggS") }] },
+  { mimeType: "audio/flac", parts: [{ offset: 0, bytes: ascii("fLaC") }] },
+  {
+    mimeType: "application/pdf",
+    parts: [{ offset: 0, bytes: ascii("%PDF-") }],
+  },
+  {
+    mimeType: "application/zip",
+    parts: [{ offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }],
+  },
+  { mimeType: "application/gzip", parts: [{ offset: 0, bytes: [0x1f, 0x8b] }] },
+];
+
+/**
+ * Decoded binary content.
+ *
+ * @example
+ * ```typescript
+ * const result = await client.servers.charts.tools.render({ data });
+ *
+ * for (const image of result.binaryContent()) {
+ *   console.log(`${image.mimeType}, ${image.size} bytes`);
+ *   await image.save(`chart.${image.mimeType.split("/")[1]}`);
+ * }
+ * ```
+ */
+export class BinaryContent {
+  /**
+   * The decoded bytes.
+   */
+  readonly bytes: Uint8Array;
+
+  /**
+   * The declared media type, or the sniffed one if none was declared.
+   * `application/octet-stream` if neither is known.
+   */
+  readonly mimeType: string;
+
+  /**
+   * The media type recognized from the leading bytes, if any. It may differ
+   * from a declared `mimeType` that is wrong.
+   */
+  readonly sniffedMimeType: string | undefined;
+
+  /**
+   * URI of the resource the content came from, if it is a resource.
+   */
+  readonly uri: string | undefined;
+
+  /**
+   * @param bytes - The decoded bytes
+   * @param declaredMimeType - The media type declared by the server, if any
+   * @param uri - URI of the resource the content came from, if any
+   */
+  constructor(bytes: Uint8Array, declaredMimeType?: string, uri?: string) {
+    this.bytes = bytes;
+    this.sniffedMimeType = sniffMimeType(bytes);
+    this.mimeType =
+      declaredMimeType || this.sniffedMimeType || UNKNOWN_MIME_TYPE;
+    this.uri = uri;
+  }
+
+  /**
+   * Size of the content in bytes.
+   */
+  get size(): number {
+    return this.bytes.byteLength;
+  }
+
+  /**
+   * Get the content as a Blob of its media type, e.g. to upload it or to
+   * display it with `URL.createObjectURL()`.
+   */
+  toBlob(): Blob {
+    return new Blob([this.bytes as Uint8Array<ArrayBuffer>], {
+      type: this.mimeType,
+    });
+  }
+
+  /**
+   * Write the content to a file. Only available in Node.js and compatible
+   * runtimes.
+   *
+   * @param path - Path of the file, which is replaced if it exists
+   * @throws {McpdError} If the file can't be written
+   */
+  async save(path: string): Promise<void> {
+    try {
+      // Imported lazily so the SDK still loads in runtimes without node:fs.
+      const { writeFile } = await import("node:fs/promises");
+      await writeFile(path, this.bytes);
+    } catch (error) {
+      throw new McpdError(
+        `Failed to save content to '${path}': ${(error as Error).message}`,
+        error as Error,
+      );
+    }
+  }
+}
+
+/**
+ * Decode the base64 bytes of an image, audio or resource.
+ *
+ * @param source - An image or audio block, an embedded resource, or resource
+ * contents returned by `readResource()`
+ * @param options - Decoding options
+ * @returns The decoded content
+ * @throws {TypeError} If a resource has text rather than blob content
+ * @throws {RangeError} If maxBytes is negative
+ * @throws {ContentTooLargeError} If the content is larger than maxBytes
+ * @throws {McpdError} If the content is not valid base64
+ *
+ * @example
+ * ```typescript
+ * const [contents] = await client.servers.files.readResource("file:///logo.png");
+ * const logo = decodeContent(contents, { maxBytes: 1024 * 1024 });
+ * ```
+ */
+export function decodeContent(
+  source: BinaryContentSource,
+  options: DecodeContentOptions = {},
+): BinaryContent {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_CONTENT_BYTES;
+  if (maxBytes < 0) {
+    throw new RangeError("maxBytes must be >= 0");
+  }
+
+  const resource =
+    "type" in source && source.type === "resource"
+      ? source.resource
+      : "uri" in source
+        ? source
+        : undefined;
+  const data = resource ? resource.blob : (source as ImageContent).data;
+  if (data === undefined) {
+    throw new TypeError(`Resource '${resource?.uri}' has no blob content`);
+  }
+
+  const size = decodedSize(data);
+  if (size > maxBytes) {
+    throw new ContentTooLargeError(
+      `Content${resource ? ` of resource '${resource.uri}'` : ""} is ${size} bytes, more than the limit of ${maxBytes}`,
+      size,
+      maxBytes,
+    );
+  }
+
+  return new BinaryContent(
+    decodeBase64(data),
+    resource ? resource.mimeType : (source as ImageContent).mimeType,
+    resource?.uri,
+  );
+}
+
+/**
+ * Identify the media type of content from its leading bytes.
+ *
+ * Recognizes common image (PNG, JPEG, GIF, WebP), audio (WAV, MP3, Ogg, FLAC)
+ * and document or archive (PDF, ZIP, gzip) formats.
+ *
+ * @param bytes - The content
+ * @returns The media type, or undefined if it isn't recognized
+ */
+export function sniffMimeType(bytes: Uint8Array): string | undefined {
+  return SIGNATURES.find(({ parts }) =>
+    parts.every(({ offset, bytes: expected }) =>
+      expected.every((byte, i) => bytes[offset + i] === byte),
+    ),
+  )?.mimeType;
+}
+
+/**
+ * Compute the decoded size of base64 data without decoding it.
+ *
+ * @param base64 - The base64 data
+ * @returns The size in bytes
+ * @internal
+ */
+export function decodedSize(base64: string): number {
+  // Count characters in place rather than copying a possibly huge string.
+  let length = 0;
+  for (let i = 0; i < base64.length; i++) {
+    const code = base64.charCodeAt(i);
+    // Skip whitespace and "=" padding.
+    if (code > 0x20 && code !== 0x3d) {
+      length++;
+    }
+  }
+  return Math.floor((length * 3) / 4);
+}
+
+/**
+ * Decode base64 data using the web-standard atob, available in all runtimes.
+ */
+function decodeBase64(base64: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(base64);
+  } catch (error) {
+    throw new McpdError("Content is not valid base64", error as Error);
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
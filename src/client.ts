@@ -13,11 +13,19 @@
 import { LRUCache } from "lru-cache";
 import {
   McpdError,
+  AbortedError,
   ConnectionError,
   AuthenticationError,
+  CapabilityNotSupportedError,
   ServerNotFoundError,
   ServerUnhealthyError,
   ToolExecutionError,
+  ToolNotFoundError,
+  PromptNotFoundError,
+  ResourceNotFoundError,
+  ValidationError,
+  OutputValidationError,
+  RateLimitError,
   TimeoutError,
   PipelineError,
   PIPELINE_FLOW_REQUEST,
@@ -27,6 +35,9 @@ import {
 import {
   HealthStatusHelpers,
   McpdClientOptions,
+  DaemonInfo,
+  ServerCapabilities,
+  ServerCapability,
   ServerHealth,
   Tool,
   ToolsResponse,
@@ -45,12 +56,87 @@ import {
   ResourceTemplate,
   ResourceTemplates,
   ResourceContent,
+  RequestOptions,
+  Middleware,
+  MiddlewareContext,
+  OutputValidationIssue,
+  OutputValidationMode,
+  ResultPolicy,
+  ToolCallRequest,
+  CallToolsOptions,
+  ToolCallOutcome,
+  ClientToolResult,
 } from "./types";
 import { createCache } from "./utils/cache";
 import { ServersNamespace } from "./dynamicCaller";
 import { FunctionBuilder, type AgentFunction } from "./functionBuilder";
-import { API_PATHS } from "./apiPaths";
+import { API_PATHS, API_VERSION } from "./apiPaths";
 import { createLogger, type Logger } from "./logger";
+import { resolveResultPolicy } from "./resultPolicy";
+import {
+  CallToolResult,
+  toCallToolResult,
+  toLegacyToolResult,
+} from "./toolResult";
+import {
+  DEFAULT_API_ENDPOINT,
+  readEnvConfig,
+  type Environment,
+} from "./config";
+import {
+  TypedEventEmitter,
+  type McpdClientEventListener,
+  type McpdClientEventName,
+  type McpdClientEvents,
+  type RequestStartEvent,
+} from "./events";
+import {
+  ClientMetrics,
+  type MetricsExporter,
+  type MetricsSnapshot,
+} from "./metrics";
+import {
+  computeBackoffDelay,
+  createIdempotencyKey,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  sleep,
+  type RetryPolicy,
+} from "./utils/retry";
+import { CircuitBreaker } from "./utils/circuitBreaker";
+import { SingleFlight } from "./utils/singleFlight";
+import { CallLimiter } from "./utils/limiter";
+import { CredentialsManager } from "./utils/credentials";
+import {
+  EndpointPool,
+  createDaemonEndpoint,
+  type DaemonEndpoint,
+} from "./utils/endpointPool";
+import { SPAN_ATTRIBUTES, Tracer, type TraceSpan } from "./utils/tracing";
+import { TypeConverter } from "./utils/typeConverter";
+
+/**
+ * Server, tool, prompt and resource a request relates to, exposed to middleware.
+ */
+type RequestTarget = Pick<
+  MiddlewareContext,
+  "serverName" | "toolName" | "promptName" | "resourceUri"
+>;
+
+/**
+ * Accepted values of the outputValidation option.
+ */
+const OUTPUT_VALIDATION_MODES: readonly OutputValidationMode[] = [
+  "off",
+  "strict",
+  "lenient",
+];
+
+/**
+ * Default maximum number of calls in flight in a callTools() batch.
+ */
+const CALL_TOOLS_CONCURRENCY = 4;
 
 /**
  * Default timeout for API requests to mcpd, in seconds.
@@ -71,6 +157,16 @@ const SERVER_HEALTH_CACHE_TTL_SECONDS = 10;
  */
 const SERVER_HEALTH_CACHE_MAXSIZE = 100;
 
+/**
+ * Default TTL for tool list cache entries, in seconds.
+ */
+const TOOLS_CACHE_TTL_SECONDS = 60;
+
+/**
+ * Maximum number of server tool lists to cache.
+ */
+const TOOLS_CACHE_MAXSIZE = 100;
+
 /**
  * Separator used between server name and tool name in qualified tool names.
  * Format: `{serverName}{TOOL_SEPARATOR}{toolName}`
@@ -83,6 +179,21 @@ const TOOL_SEPARATOR = "__";
  */
 const MCPD_ERROR_TYPE_HEADER = "Mcpd-Error-Type";
 
+/**
+ * Header name used by the daemon to indicate when a request may be retried.
+ */
+const RETRY_AFTER_HEADER = "Retry-After";
+
+/**
+ * Header name for the key identifying a tool call across retries.
+ */
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Matches server API paths, capturing the capability a path belongs to.
+ */
+const SERVER_CAPABILITY_PATH = /\/servers\/[^/]+\/(tools|prompts|resources)\b/;
+
 /**
  * Maps mcpd error type header values to pipeline flows.
  */
@@ -95,19 +206,19 @@ const PIPELINE_ERROR_FLOWS: Record<string, PipelineFlow> = {
  * Type alias for agent functions in array format.
  * @internal
  */
-type AgentFunctionsArray = AgentFunction[];
+type AgentFunctionsArray<TResult> = AgentFunction<TResult>[];
 
 /**
  * Type alias for agent functions in object format (keyed by function name).
  * @internal
  */
-type AgentFunctionsRecord = Record<string, AgentFunction>;
+type AgentFunctionsRecord<TResult> = Record<string, AgentFunction<TResult>>;
 
 /**
  * Type alias for agent functions in Map format (keyed by function name).
  * @internal
  */
-type AgentFunctionsMap = Map<string, AgentFunction>;
+type AgentFunctionsMap<TResult> = Map<string, AgentFunction<TResult>>;
 
 /**
  * Client for interacting with MCP (Model Context Protocol) servers through an mcpd daemon.
@@ -128,6 +239,7 @@ type AgentFunctionsMap = Map<string, AgentFunction>;
  *   apiEndpoint: 'http://localhost:8090',
  *   apiKey: 'optional-key',
  *   healthCacheTtl: 10,
+ *   toolsCacheTtl: 60,
  * });
  *
  * // List available servers
@@ -138,13 +250,34 @@ type AgentFunctionsMap = Map<string, AgentFunction>;
  * const result = await client.servers.time.get_current_time({ timezone: 'UTC' });
  * console.log(result); // { time: '2024-01-15T10:30:00Z' }
  * ```
+ *
+ * @typeParam Legacy - Whether the client was created with
+ * `legacyToolResults: true`, which types its tool call results as `unknown`
  */
-export class McpdClient {
-  readonly #endpoint: string;
+export class McpdClient<Legacy extends boolean = false> {
+  readonly #endpoints: EndpointPool;
   readonly #apiKey: string | undefined;
+  readonly #credentials: CredentialsManager | undefined;
   readonly #timeout: number;
+  readonly #retryPolicy: RetryPolicy;
+  readonly #middleware: Middleware[];
+  readonly #circuitBreaker: CircuitBreaker | undefined;
+  readonly #inFlightReads = new SingleFlight();
+  readonly #limiter: CallLimiter | undefined;
+  readonly #tracer: Tracer;
+  readonly #metrics: ClientMetrics;
+  readonly #events: TypedEventEmitter<McpdClientEvents>;
+  readonly #lastHealthStatus = new Map<string, string>();
+  readonly #serverCapabilities = new Map<string, Partial<ServerCapabilities>>();
+  #daemonInfo: DaemonInfo | undefined;
   readonly #serverHealthCache: LRUCache<string, ServerHealth | Error>;
-  readonly #functionBuilder: FunctionBuilder;
+  readonly #toolsCache: LRUCache<string, Tool[]> | undefined;
+  readonly #functionBuilder: FunctionBuilder<ClientToolResult<Legacy>>;
+  readonly #legacyToolResults: boolean;
+  readonly #outputValidation: OutputValidationMode;
+  // Tools already warned about for output schemas that can't be checked.
+  readonly #uncheckableOutputSchemas = new Set<string>();
+  readonly #resultPolicy: ResultPolicy | undefined;
   readonly #logger: Logger;
   readonly #cacheableExceptions = new Set([
     ServerNotFoundError,
@@ -155,21 +288,54 @@ export class McpdClient {
   /**
    * Namespace for accessing MCP servers and their tools.
    */
-  public readonly servers: ServersNamespace;
+  public readonly servers: ServersNamespace<Legacy>;
 
   /**
    * Initialize a new McpdClient instance.
    *
    * @param options - Configuration options for the client
    */
-  constructor(options: McpdClientOptions) {
+  constructor(options: McpdClientOptions<Legacy>) {
     // Helper for time conversion.
     const toMs = (s: number) => s * 1000; // seconds to milliseconds
 
-    // Remove trailing slash from endpoint.
-    this.#endpoint = options.apiEndpoint.replace(/\/$/, "");
+    if (options.apiKey && options.credentials) {
+      throw new TypeError("apiKey and credentials cannot be used together");
+    }
     this.#apiKey = options.apiKey;
+    // Cached authentication failures are stale once new credentials arrive.
+    this.#credentials = options.credentials
+      ? new CredentialsManager(options.credentials, () =>
+          this.#clearCachedAuthenticationErrors(),
+        )
+      : undefined;
     this.#timeout = options.timeout ?? toMs(REQUEST_TIMEOUT_SECONDS);
+    this.#retryPolicy = resolveRetryPolicy(options.retry);
+
+    const apiEndpoints = Array.isArray(options.apiEndpoint)
+      ? options.apiEndpoint
+      : [options.apiEndpoint];
+    this.#endpoints = new EndpointPool(
+      apiEndpoints.map((url) => createDaemonEndpoint(url, options.fetch)),
+      options.loadBalancing,
+    );
+    this.#middleware = [...(options.middleware ?? [])];
+    this.#circuitBreaker = options.circuitBreaker
+      ? new CircuitBreaker(options.circuitBreaker)
+      : undefined;
+    this.#limiter = options.limits
+      ? new CallLimiter(options.limits)
+      : undefined;
+    this.#tracer = new Tracer(options.tracing ?? false);
+    this.#metrics = new ClientMetrics(options.metrics ?? true);
+    this.#legacyToolResults = options.legacyToolResults ?? false;
+    this.#outputValidation = options.outputValidation ?? "off";
+    if (!OUTPUT_VALIDATION_MODES.includes(this.#outputValidation)) {
+      throw new RangeError(
+        `outputValidation must be one of ${OUTPUT_VALIDATION_MODES.join(", ")}`,
+      );
+    }
+    this.#resultPolicy = resolveResultPolicy(options.resultPolicy);
 
     // Setup health cache.
     const healthCacheTtlMs = toMs(
@@ -180,33 +346,91 @@ export class McpdClient {
       ttl: healthCacheTtlMs,
     });
 
+    // Setup tool list cache (a TTL of 0 disables it).
+    const toolsCacheTtlMs = toMs(
+      options.toolsCacheTtl ?? TOOLS_CACHE_TTL_SECONDS,
+    );
+    this.#toolsCache =
+      toolsCacheTtlMs > 0
+        ? createCache({ max: TOOLS_CACHE_MAXSIZE, ttl: toolsCacheTtlMs })
+        : undefined;
+
     // Setup logger (the default logger uses MCPD_LOG_LEVEL).
-    this.#logger = createLogger(options.logger);
+    this.#logger = createLogger(options.logger, options.logLevel);
+    this.#events = new TypedEventEmitter(this.#logger);
 
     // Initialize servers namespace and function builder with injected functions.
-    this.servers = new ServersNamespace({
+    this.servers = new ServersNamespace<Legacy>({
       performCall: this.#performCall.bind(this),
       getTools: this.#getToolsByServer.bind(this),
       generatePrompt: this.#generatePromptInternal.bind(this),
-      getPrompts: this.#getPromptsByServer.bind(this),
-      getResources: this.#getResourcesByServer.bind(this),
-      getResourceTemplates: this.#getResourceTemplatesByServer.bind(this),
+      getPrompts: (serverName, options) =>
+        this.#getPromptsByServer(serverName, undefined, options),
+      getResources: (serverName, options) =>
+        this.#getResourcesByServer(serverName, undefined, options),
+      getResourceTemplates: (serverName, options) =>
+        this.#getResourceTemplatesByServer(serverName, undefined, options),
       readResource: this.#readResourceByServer.bind(this),
     });
     this.#functionBuilder = new FunctionBuilder(this.#performCall.bind(this));
   }
 
+  /**
+   * Create a client configured by environment variables.
+   *
+   * Reads `MCPD_ADDR` (default `http://localhost:8090`), `MCPD_API_KEY`,
+   * `MCPD_TIMEOUT` (milliseconds) and `MCPD_HEALTH_CACHE_TTL` (seconds).
+   * Options passed in take precedence over the environment. Use
+   * {@link loadConfig} to also read configuration files.
+   *
+   * @param options - Options overriding the environment
+   * @param env - Environment variables to read (default: `process.env`)
+   *
+   * @returns A new client
+   *
+   * @throws {ConfigurationError} If an environment variable has an invalid value
+   *
+   * @example
+   * ```typescript
+   * const client = McpdClient.fromEnv({ retry: { maxAttempts: 3 } });
+   * ```
+   */
+  static fromEnv<Legacy extends boolean = false>(
+    options: Partial<McpdClientOptions<Legacy>> = {},
+    env?: Environment,
+  ): McpdClient<Legacy> {
+    const { apiKey, ...envOptions } = readEnvConfig(env);
+
+    return new McpdClient<Legacy>({
+      apiEndpoint: DEFAULT_API_ENDPOINT,
+      ...envOptions,
+      // Explicit credentials replace an API key from the environment.
+      ...(apiKey !== undefined && !options.credentials ? { apiKey } : {}),
+      ...options,
+    });
+  }
+
   /**
    * Make an HTTP request to the mcpd daemon.
    *
+   * Concurrent identical GET requests with the same timeout share a single
+   * in-flight request to the daemon; a caller with a different timeoutMs
+   * makes its own request, so its timeout is honoured. Each caller's signal
+   * only cancels its own wait; the shared request is cancelled once all
+   * waiting callers have aborted.
+   *
    * @param path - The API path (e.g., '/servers', '/servers/{server_name}/tools')
    * @param options - Request options
+   * @param requestOptions - Per-call cancellation and timeout options
+   * @param target - Server, tool, prompt and resource the request relates to
+   * @param idempotent - False if repeating the request could repeat its effects
    *
    * @returns The JSON response from the daemon
    *
    * @throws {AuthenticationError} If API key was present and authentication fails
    * @throws {ConnectionError} If unable to connect to the mcpd daemon
    * @throws {TimeoutError} If the request times out
+   * @throws {AbortedError} If the request is cancelled via the signal
    * @throws {McpdError} If the request fails
    *
    * @internal
@@ -214,143 +438,879 @@ export class McpdClient {
   async #request<T = unknown>(
     path: string,
     options: RequestInit = {},
+    requestOptions: RequestOptions = {},
+    target: RequestTarget = {},
+    idempotent = true,
   ): Promise<T> {
-    const url = `${this.#endpoint}${path}`;
+    if ((options.method ?? "GET") !== "GET") {
+      return this.#send<T>(path, options, requestOptions, target, idempotent);
+    }
 
-    // Setup request headers
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      ...((options.headers as Record<string, string>) || {}),
+    const { signal, ...sharedOptions } = requestOptions;
+    return this.#inFlightReads.run(
+      `${path} ${sharedOptions.timeoutMs ?? ""}`,
+      (sharedSignal) =>
+        this.#send<T>(
+          path,
+          options,
+          { ...sharedOptions, signal: sharedSignal },
+          target,
+        ),
+      signal,
+      () => this.#abortedError(path, signal!),
+    );
+  }
+
+  /**
+   * Send an HTTP request to the mcpd daemon in a new trace span.
+   *
+   * @param path - The API path
+   * @param options - Request options
+   * @param requestOptions - Per-call cancellation and timeout options
+   * @param target - Server, tool, prompt and resource the request relates to
+   * @param idempotent - False if repeating the request could repeat its effects
+   *
+   * @returns The JSON response from the daemon
+   */
+  async #send<T>(
+    path: string,
+    options: RequestInit,
+    requestOptions: RequestOptions,
+    target: RequestTarget,
+    idempotent = true,
+  ): Promise<T> {
+    const event: RequestStartEvent = {
+      method: options.method ?? "GET",
+      path,
+      ...target,
     };
+    this.#events.emit("request:start", event);
+    const started = performance.now();
 
-    // Add authentication if configured
-    if (this.#apiKey) {
-      headers["Authorization"] = `Bearer ${this.#apiKey}`;
+    try {
+      const result = await this.#tracer.withSpan(
+        "mcpd.request",
+        {
+          [SPAN_ATTRIBUTES.HTTP_METHOD]: event.method,
+          [SPAN_ATTRIBUTES.URL_PATH]: path,
+          [SPAN_ATTRIBUTES.SERVER_NAME]: target.serverName,
+          [SPAN_ATTRIBUTES.TOOL_NAME]: target.toolName,
+          [SPAN_ATTRIBUTES.PROMPT_NAME]: target.promptName,
+          [SPAN_ATTRIBUTES.RESOURCE_URI]: target.resourceUri,
+        },
+        (span) =>
+          this.#sendAttempts<T>(
+            path,
+            options,
+            requestOptions,
+            target,
+            idempotent,
+            span,
+          ),
+        true,
+      );
+      this.#events.emit("request:end", {
+        ...event,
+        durationMs: performance.now() - started,
+      });
+      return result;
+    } catch (error) {
+      this.#events.emit("request:end", {
+        ...event,
+        durationMs: performance.now() - started,
+        error: error as Error,
+      });
+      throw error;
     }
+  }
 
-    // Setup timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.#timeout);
+  /**
+   * Send an HTTP request to the mcpd daemon, retrying transient failures
+   * according to the configured retry policy.
+   *
+   * @param path - The API path
+   * @param options - Request options
+   * @param requestOptions - Per-call cancellation and timeout options
+   * @param target - Server, tool, prompt and resource the request relates to
+   * @param idempotent - False if repeating the request could repeat its effects
+   * @param span - The request's trace span
+   *
+   * @returns The JSON response from the daemon
+   */
+  async #sendAttempts<T>(
+    path: string,
+    options: RequestInit,
+    requestOptions: RequestOptions,
+    target: RequestTarget,
+    idempotent: boolean,
+    span: TraceSpan,
+  ): Promise<T> {
+    const { signal } = requestOptions;
+    const timeout = requestOptions.timeoutMs ?? this.#timeout;
 
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers,
-        signal: controller.signal,
-      });
+    // Setup request headers
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...((options.headers as Record<string, string>) || {}),
+    };
 
-      clearTimeout(timeoutId);
+    let credentialsRefreshed = false;
+    // Attempts that moved to another endpoint don't count towards retries.
+    let failovers = 0;
 
-      // Handle non-2xx responses with ErrorModel parsing
-      if (!response.ok) {
-        const body = await response.text();
-        let errorModel: ErrorModel | null = null;
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        throw this.#abortedError(path, signal);
+      }
 
-        try {
-          errorModel = JSON.parse(body) as ErrorModel;
-        } catch {
-          // Response body is not valid JSON - fall through to fallback error handling below.
-          errorModel = null;
-        }
+      const endpoint = this.#endpoints.select();
 
-        // Check for pipeline failure (500 with Mcpd-Error-Type header).
-        if (response.status === 500) {
-          const errorType = response.headers
-            .get(MCPD_ERROR_TYPE_HEADER)
-            ?.toLowerCase();
+      // Add authentication if configured
+      const token = this.#credentials
+        ? await this.#credentials.getToken()
+        : this.#apiKey;
+      if (token) {
+        headers["Authorization"] = `Bearer ${token}`;
+      }
+      this.#tracer.inject(headers);
+      if (attempt > 1) {
+        span.setAttribute(SPAN_ATTRIBUTES.HTTP_RESEND_COUNT, attempt - 1);
+      }
 
-          const flow = errorType ? PIPELINE_ERROR_FLOWS[errorType] : undefined;
+      // Setup timeout, and forward cancellation from the caller's signal.
+      // Both stay active until the response body has been read.
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const release = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+      };
 
-          if (flow) {
-            const message = errorModel?.detail || body || "Pipeline failure";
+      try {
+        const context: MiddlewareContext = {
+          method: options.method ?? "GET",
+          path,
+          headers: { ...headers },
+          body: typeof options.body === "string" ? options.body : undefined,
+          attempt,
+          signal: controller.signal,
+          ...target,
+        };
+
+        const response = await this.#runMiddleware(context, async () => {
+          const started = performance.now();
+          try {
+            const response = await endpoint.fetch(
+              `${endpoint.baseUrl}${context.path}`,
+              {
+                ...options,
+                method: context.method,
+                headers: context.headers,
+                body: context.body ?? null,
+                signal: controller.signal,
+              },
+            );
+            this.#endpoints.recordSuccess(
+              endpoint,
+              performance.now() - started,
+            );
+            return response;
+          } catch (error) {
+            // Middleware sees transport failures as McpdErrors.
+            throw this.#toMcpdError(
+              error,
+              context.path,
+              timeout,
+              endpoint,
+              signal,
+            );
+          }
+        });
+
+        span.setAttribute(SPAN_ATTRIBUTES.HTTP_STATUS, response.status);
+
+        // Handle non-2xx responses with ErrorModel parsing
+        if (!response.ok) {
+          // Rejected credentials are refreshed once before giving up.
+          if (
+            (response.status === 401 || response.status === 403) &&
+            this.#credentials &&
+            token &&
+            !credentialsRefreshed
+          ) {
+            credentialsRefreshed = true;
+            await response.body?.cancel();
+            release();
+            this.#logger.debug(
+              `Credentials rejected for '${path}' (${response.status}), refreshing`,
+            );
+            await this.#credentials.refresh(token);
+            // Resending with fresh credentials is not a retry.
+            attempt--;
+            continue;
+          }
 
-            throw new PipelineError(
-              message,
-              undefined, // serverName - enriched by caller if available.
-              undefined, // operation - enriched by caller if available.
-              flow,
+          const retryDelay = this.#retryDelayForResponse(
+            response,
+            attempt - failovers,
+            idempotent,
+          );
+          if (retryDelay !== undefined) {
+            await response.body?.cancel();
+            release();
+            await this.#waitBeforeRetry(
+              path,
+              attempt - failovers,
+              retryDelay,
+              `${response.status} ${response.statusText}`,
+              signal,
             );
+            continue;
           }
+
+          throw await this.#responseError(response, path, target);
         }
 
-        if (errorModel && errorModel.detail) {
-          const errorDetails = errorModel.errors
-            ?.map((e) => `${e.location}: ${e.message}`)
-            .join("; ");
-          const fullMessage = errorDetails
-            ? `${errorModel.detail} - ${errorDetails}`
-            : errorModel.detail;
-
-          // Handle authentication errors
-          if (response.status === 401 || response.status === 403) {
-            throw new AuthenticationError(fullMessage);
+        // Parse JSON response
+        let body: T;
+        try {
+          body = (await response.json()) as T;
+        } catch (error) {
+          // A timeout or cancellation while reading the body is handled below.
+          if (controller.signal.aborted) {
+            throw controller.signal.reason as Error;
           }
+          throw new McpdError("Failed to parse JSON response", error as Error, {
+            status: response.status,
+            path,
+          });
+        }
+        release();
+        return body;
+      } catch (error) {
+        release();
 
-          // Handle other errors with proper message
-          throw new McpdError(
-            `${errorModel.title || "Request failed"}: ${fullMessage}`,
-          );
+        const mcpdError = this.#toMcpdError(
+          error,
+          path,
+          timeout,
+          endpoint,
+          signal,
+        );
+        if (
+          this.#endpoints.size > 1 &&
+          (mcpdError instanceof ConnectionError ||
+            mcpdError instanceof TimeoutError)
+        ) {
+          this.#markEndpointDown(endpoint, mcpdError);
+
+          // Idempotent requests move to another endpoint straight away.
+          if (
+            idempotent &&
+            failovers < this.#endpoints.size - 1 &&
+            this.#endpoints.hasAvailable()
+          ) {
+            failovers++;
+            continue;
+          }
         }
 
-        // Fallback if ErrorModel parsing failed
-        if (response.status === 401 || response.status === 403) {
-          throw new AuthenticationError(
-            `Authentication failed: ${response.status} ${response.statusText}`,
-          );
+        const retryDelay = this.#retryDelayForError(
+          mcpdError,
+          attempt - failovers,
+          idempotent,
+        );
+        if (retryDelay === undefined) {
+          throw mcpdError;
         }
 
-        throw new McpdError(
-          `Request failed: ${response.status} ${response.statusText} - ${body}`,
+        await this.#waitBeforeRetry(
+          path,
+          attempt - failovers,
+          retryDelay,
+          mcpdError.message,
+          signal,
         );
       }
+    }
+  }
 
-      // Parse JSON response
-      try {
-        return (await response.json()) as T;
-      } catch (error) {
-        throw new McpdError("Failed to parse JSON response", error as Error);
+  /**
+   * Map a non-2xx daemon response to the matching McpdError.
+   *
+   * The error carries the response status, the parsed ErrorModel (if any) and
+   * the request path. 404 responses map to the NotFound error for the tool,
+   * prompt, resource or server the request targets, 400/422 responses with
+   * error details map to ValidationError, and 429 maps to RateLimitError.
+   *
+   * @param response - The non-2xx response
+   * @param path - The API path that was requested
+   * @param target - Server, tool, prompt and resource the request relates to
+   *
+   * @returns The error to throw
+   */
+  async #responseError(
+    response: Response,
+    path: string,
+    target: RequestTarget,
+  ): Promise<McpdError> {
+    const { status, statusText } = response;
+    const body = await response.text();
+    let errorModel: ErrorModel | undefined;
+
+    try {
+      const parsed: unknown = JSON.parse(body);
+      if (parsed && typeof parsed === "object") {
+        errorModel = parsed as ErrorModel;
       }
-    } catch (error) {
-      clearTimeout(timeoutId);
+    } catch {
+      // Response body is not valid JSON - fall through to fallback error handling below.
+    }
 
-      // Handle timeout
-      if ((error as Error).name === "AbortError") {
-        throw new TimeoutError(
-          `Request timed out after ${this.#timeout}ms`,
-          path,
-          this.#timeout,
+    const context = { status, errorModel, path };
+
+    // Check for pipeline failure (500 with Mcpd-Error-Type header).
+    if (status === 500) {
+      const flow = this.#pipelineFlow(response);
+
+      if (flow) {
+        return new PipelineError(
+          errorModel?.detail || body || "Pipeline failure",
+          undefined, // serverName - enriched by caller if available.
+          undefined, // operation - enriched by caller if available.
+          flow,
+          undefined,
+          context,
         );
       }
+    }
 
-      // Handle connection errors
-      if (error instanceof TypeError && error.message.includes("fetch")) {
-        throw new ConnectionError(
-          `Cannot connect to mcpd daemon at ${this.#endpoint}. Is it running?`,
-          error,
+    const isAuthFailure = status === 401 || status === 403;
+    const validationErrors =
+      errorModel?.errors?.map((e) => `${e.location}: ${e.message}`) ?? [];
+    let message: string;
+
+    if (errorModel?.detail) {
+      const fullMessage = validationErrors.length
+        ? `${errorModel.detail} - ${validationErrors.join("; ")}`
+        : errorModel.detail;
+
+      if (isAuthFailure) {
+        return new AuthenticationError(fullMessage, undefined, context);
+      }
+      message = `${errorModel.title || "Request failed"}: ${fullMessage}`;
+    } else {
+      // Fallback if ErrorModel parsing failed
+      if (isAuthFailure) {
+        return new AuthenticationError(
+          `Authentication failed: ${status} ${statusText}`,
+          undefined,
+          context,
         );
       }
+      message = `Request failed: ${status} ${statusText} - ${body}`;
+    }
 
-      // Re-throw our errors as-is
-      if (error instanceof McpdError) {
-        throw error;
+    const { serverName, toolName, promptName, resourceUri } = target;
+    switch (status) {
+      case 404:
+        if (toolName) {
+          return new ToolNotFoundError(
+            message,
+            serverName,
+            toolName,
+            undefined,
+            context,
+          );
+        }
+        if (promptName) {
+          return new PromptNotFoundError(
+            message,
+            serverName,
+            promptName,
+            undefined,
+            context,
+          );
+        }
+        if (resourceUri) {
+          return new ResourceNotFoundError(
+            message,
+            serverName,
+            resourceUri,
+            undefined,
+            context,
+          );
+        }
+        if (serverName) {
+          return new ServerNotFoundError(
+            message,
+            serverName,
+            undefined,
+            context,
+          );
+        }
+        break;
+      case 400:
+      case 422:
+        if (validationErrors.length) {
+          return new ValidationError(
+            message,
+            validationErrors,
+            undefined,
+            context,
+          );
+        }
+        break;
+      case 429: {
+        const retryAfterMs = parseRetryAfter(
+          response.headers?.get(RETRY_AFTER_HEADER),
+        );
+        return new RateLimitError(
+          message,
+          retryAfterMs === undefined
+            ? undefined
+            : Math.ceil(retryAfterMs / 1000),
+          undefined,
+          context,
+        );
       }
+      case 501:
+        return new CapabilityNotSupportedError(
+          message,
+          SERVER_CAPABILITY_PATH.exec(path)?.[1],
+          serverName,
+          undefined,
+          context,
+        );
+    }
 
-      // Wrap unknown errors
-      throw new McpdError(
-        `Request failed: ${(error as Error).message}`,
-        error as Error,
+    // Server errors while calling a tool mean the tool failed, which counts
+    // towards the server's circuit breaker.
+    if (toolName && status >= 500) {
+      return new ToolExecutionError(
+        message,
+        serverName,
+        toolName,
+        errorModel,
+        undefined,
+        context,
       );
     }
+
+    return new McpdError(message, undefined, context);
+  }
+
+  /**
+   * Run the middleware chain around sending a request.
+   *
+   * @param context - The request context shared by all middleware
+   * @param send - Sends the request once the chain reaches its end
+   *
+   * @returns The Response produced by the chain
+   */
+  #runMiddleware(
+    context: MiddlewareContext,
+    send: () => Promise<Response>,
+  ): Promise<Response> {
+    const chain = [...this.#middleware];
+    const dispatch = (index: number): Promise<Response> => {
+      const middleware = chain[index];
+      return middleware
+        ? middleware(context, () => dispatch(index + 1))
+        : send();
+    };
+
+    return dispatch(0);
+  }
+
+  /**
+   * Convert an error raised while performing a request into an McpdError.
+   *
+   * @param error - The error raised by fetch or by response handling
+   * @param path - The API path that was requested
+   * @param timeout - The timeout that applied to the request, in milliseconds
+   * @param endpoint - The endpoint the request was sent to
+   * @param signal - The caller's signal, if any
+   *
+   * @returns The corresponding McpdError
+   *
+   * @internal
+   */
+  #toMcpdError(
+    error: unknown,
+    path: string,
+    timeout: number,
+    endpoint: DaemonEndpoint,
+    signal?: AbortSignal,
+  ): McpdError {
+    // Handle cancellation and timeout
+    if ((error as Error).name === "AbortError") {
+      if (signal?.aborted) {
+        return this.#abortedError(path, signal);
+      }
+
+      return new TimeoutError(
+        `Request timed out after ${timeout}ms`,
+        path,
+        timeout,
+        undefined,
+        { path },
+      );
+    }
+
+    // Handle connection errors
+    if (error instanceof TypeError && error.message.includes("fetch")) {
+      return new ConnectionError(
+        `Cannot connect to mcpd daemon at ${endpoint.url}. Is it running?`,
+        error,
+        { path },
+      );
+    }
+
+    // Return our errors as-is
+    if (error instanceof McpdError) {
+      return error;
+    }
+
+    // Wrap unknown errors
+    return new McpdError(
+      `Request failed: ${(error as Error).message}`,
+      error as Error,
+      { path },
+    );
+  }
+
+  /**
+   * Create an AbortedError for a request cancelled via the caller's signal.
+   *
+   * @param path - The API path that was requested
+   * @param signal - The aborted signal
+   *
+   * @returns The AbortedError, with the abort reason as cause when it is an Error
+   *
+   * @internal
+   */
+  #abortedError(path: string, signal: AbortSignal): AbortedError {
+    const reason: unknown = signal.reason;
+    return new AbortedError(
+      `Request to '${path}' was aborted`,
+      path,
+      reason instanceof Error ? reason : undefined,
+      { path },
+    );
+  }
+
+  /**
+   * Get the pipeline flow reported by the Mcpd-Error-Type header, if any.
+   *
+   * @param response - The daemon response
+   *
+   * @returns The pipeline flow, or undefined if this is not a pipeline failure
+   *
+   * @internal
+   */
+  #pipelineFlow(response: Response): PipelineFlow | undefined {
+    const errorType = response.headers
+      ?.get(MCPD_ERROR_TYPE_HEADER)
+      ?.toLowerCase();
+
+    return errorType ? PIPELINE_ERROR_FLOWS[errorType] : undefined;
+  }
+
+  /**
+   * Determine whether a non-2xx response should be retried.
+   *
+   * Pipeline failures are never retried based on status code alone; they are
+   * surfaced as PipelineError and evaluated by #retryDelayForError.
+   *
+   * @param response - The non-2xx daemon response
+   * @param attempt - The attempt that produced the response (1-based)
+   * @param idempotent - False if repeating the request could repeat its effects
+   *
+   * @returns Delay in milliseconds before retrying, or undefined to not retry
+   *
+   * @internal
+   */
+  #retryDelayForResponse(
+    response: Response,
+    attempt: number,
+    idempotent: boolean,
+  ): number | undefined {
+    const policy = this.#retryPolicy;
+
+    if (
+      !idempotent ||
+      attempt >= policy.maxAttempts ||
+      !policy.retryableStatusCodes.has(response.status) ||
+      this.#pipelineFlow(response)
+    ) {
+      return undefined;
+    }
+
+    const retryAfter = policy.respectRetryAfter
+      ? parseRetryAfter(response.headers?.get(RETRY_AFTER_HEADER))
+      : undefined;
+
+    // Waiting longer than maxDelayMs would stall the call; fail it instead.
+    if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+      return undefined;
+    }
+
+    return retryAfter ?? computeBackoffDelay(policy, attempt);
+  }
+
+  /**
+   * Determine whether a failed request should be retried.
+   *
+   * @param error - The error raised by the attempt
+   * @param attempt - The attempt that failed (1-based)
+   * @param idempotent - False if repeating the request could repeat its effects
+   *
+   * @returns Delay in milliseconds before retrying, or undefined to not retry
+   *
+   * @internal
+   */
+  #retryDelayForError(
+    error: McpdError,
+    attempt: number,
+    idempotent: boolean,
+  ): number | undefined {
+    const policy = this.#retryPolicy;
+
+    if (attempt >= policy.maxAttempts) {
+      return undefined;
+    }
+
+    // Only request pipeline failures are known to have not reached the tool.
+    if (
+      !idempotent &&
+      !(
+        error instanceof PipelineError &&
+        error.pipelineFlow === PIPELINE_FLOW_REQUEST
+      )
+    ) {
+      return undefined;
+    }
+
+    // The tool was already called; retrying would run it twice.
+    if (
+      error instanceof PipelineError &&
+      error.pipelineFlow === PIPELINE_FLOW_RESPONSE
+    ) {
+      return undefined;
+    }
+
+    if (!isRetryableError(policy, error)) {
+      return undefined;
+    }
+
+    return computeBackoffDelay(policy, attempt);
+  }
+
+  /**
+   * Log and wait before retrying a request.
+   *
+   * @param path - The API path being retried
+   * @param attempt - The attempt that failed (1-based)
+   * @param delayMs - Delay in milliseconds
+   * @param reason - Description of the failure
+   * @param signal - The caller's signal, if any
+   *
+   * @throws {AbortedError} If the signal is aborted while waiting
+   *
+   * @internal
+   */
+  async #waitBeforeRetry(
+    path: string,
+    attempt: number,
+    delayMs: number,
+    reason: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    this.#logger.debug(
+      `Retrying request to '${path}' in ${delayMs}ms (attempt ${attempt + 1} of ${this.#retryPolicy.maxAttempts}): ${reason}`,
+    );
+    await sleep(delayMs, signal);
+
+    if (signal?.aborted) {
+      throw this.#abortedError(path, signal);
+    }
+  }
+
+  /**
+   * Add middleware to the end of the request chain.
+   *
+   * Middleware wraps every request to the daemon, see {@link Middleware}.
+   *
+   * @param middleware - The middleware to add
+   *
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.use(async (ctx, next) => {
+   *   ctx.headers["X-Tenant"] = "acme";
+   *   return next();
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.#middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Listen for a lifecycle event, see {@link McpdClientEvents}.
+   *
+   * Listeners are called synchronously. Errors thrown by a listener are logged
+   * and never affect the operation that emitted the event.
+   *
+   * @param event - The event name
+   * @param listener - Called with the event payload
+   *
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.on("tool:error", ({ serverName, toolName, error }) => {
+   *   console.warn(`${serverName}.${toolName} failed: ${error.message}`);
+   * });
+   * ```
+   */
+  on<E extends McpdClientEventName>(
+    event: E,
+    listener: McpdClientEventListener<E>,
+  ): this {
+    this.#events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Listen for the next occurrence of a lifecycle event only.
+   *
+   * @param event - The event name
+   * @param listener - Called with the event payload
+   *
+   * @returns This client, for chaining
+   */
+  once<E extends McpdClientEventName>(
+    event: E,
+    listener: McpdClientEventListener<E>,
+  ): this {
+    this.#events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener added with {@link on} or {@link once}.
+   *
+   * @param event - The event name
+   * @param listener - The listener to remove
+   *
+   * @returns This client, for chaining
+   */
+  off<E extends McpdClientEventName>(
+    event: E,
+    listener: McpdClientEventListener<E>,
+  ): this {
+    this.#events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Get information about the mcpd daemon.
+   *
+   * The information is fetched once and cached; use {@link ping} to refresh it.
+   *
+   * @remarks
+   * The information comes from `/api/v1/info`, which mcpd releases may not
+   * serve. Like {@link getServerCapabilities} for unsupported capabilities, a
+   * 404 response is not an error: the version is then undefined, the API
+   * version is the one the SDK uses and no features are listed.
+   *
+   * @param options - Per-call cancellation and timeout options
+   *
+   * @returns The daemon version, API version and supported features
+   *
+   * @throws {AuthenticationError} If API key was present and authentication fails
+   * @throws {ConnectionError} If unable to connect to the mcpd daemon
+   * @throws {TimeoutError} If the request times out
+   * @throws {AbortedError} If the request is cancelled via the signal
+   * @throws {McpdError} If the request fails
+   *
+   * @example
+   * ```typescript
+   * const info = await client.getDaemonInfo();
+   * console.log(info.version, info.features); // '0.1.0' ['prompts', ...]
+   * ```
+   */
+  async getDaemonInfo(options: RequestOptions = {}): Promise<DaemonInfo> {
+    return this.#daemonInfo ?? (await this.ping(options));
+  }
+
+  /**
+   * Check that the mcpd daemon is reachable, refreshing the cached daemon
+   * information.
+   *
+   * Daemons that don't report information about themselves are still
+   * reachable; for them the version is undefined and no features are listed.
+   *
+   * @param options - Per-call cancellation and timeout options
+   *
+   * @returns The daemon version, API version and supported features
+   *
+   * @throws {AuthenticationError} If API key was present and authentication fails
+   * @throws {ConnectionError} If unable to connect to the mcpd daemon
+   * @throws {TimeoutError} If the request times out
+   * @throws {AbortedError} If the request is cancelled via the signal
+   * @throws {McpdError} If the request fails
+   */
+  async ping(options: RequestOptions = {}): Promise<DaemonInfo> {
+    let info: DaemonInfo;
+    try {
+      const response = await this.#request<Partial<DaemonInfo>>(
+        API_PATHS.DAEMON_INFO,
+        {},
+        options,
+      );
+      info = {
+        version:
+          typeof response.version === "string" ? response.version : undefined,
+        apiVersion:
+          typeof response.apiVersion === "string"
+            ? response.apiVersion
+            : API_VERSION,
+        features: Array.isArray(response.features)
+          ? response.features.filter((feature) => typeof feature === "string")
+          : [],
+      };
+    } catch (error) {
+      if (
+        !(error instanceof CapabilityNotSupportedError) &&
+        !(error instanceof McpdError && error.status === 404)
+      ) {
+        throw error;
+      }
+      info = { version: undefined, apiVersion: API_VERSION, features: [] };
+    }
+
+    this.#daemonInfo = info;
+    return info;
   }
 
   /**
    * Get a list of all configured MCP servers.
    *
+   * @param options - Per-call cancellation and timeout options
+   *
    * @returns Array of server names
    *
    * @throws {AuthenticationError} If API key was present and authentication fails
    * @throws {ConnectionError} If unable to connect to the mcpd daemon
    * @throws {TimeoutError} If the request times out
+   * @throws {AbortedError} If the request is cancelled via the signal
    * @throws {McpdError} If the request fails
    *
    * @example
@@ -359,8 +1319,73 @@ export class McpdClient {
    * console.log(servers); // ['time', 'fetch', 'git']
    * ```
    */
-  async listServers(): Promise<string[]> {
-    return await this.#request<string[]>(API_PATHS.SERVERS);
+  async listServers(options: RequestOptions = {}): Promise<string[]> {
+    return await this.#request<string[]>(API_PATHS.SERVERS, {}, options);
+  }
+
+  /**
+   * Get which MCP capabilities a server supports.
+   *
+   * Capabilities that haven't been observed yet are probed by listing the
+   * server's tools, prompts or resources. The result is cached until the
+   * server's tool list cache is cleared.
+   *
+   * @param serverName - The name of the server
+   * @param options - Per-call cancellation and timeout options
+   *
+   * @returns Whether the server supports tools, prompts and resources
+   *
+   * @throws {ServerNotFoundError} If the specified server doesn't exist
+   * @throws {ServerUnhealthyError} If the server is not healthy
+   * @throws {AuthenticationError} If API key was present and authentication fails
+   * @throws {ConnectionError} If unable to connect to the mcpd daemon
+   * @throws {TimeoutError} If the request times out
+   * @throws {McpdError} If the request fails
+   *
+   * @example
+   * ```typescript
+   * const capabilities = await client.getServerCapabilities("time");
+   * // { tools: true, prompts: false, resources: false }
+   * ```
+   */
+  async getServerCapabilities(
+    serverName: string,
+    options: RequestOptions = {},
+  ): Promise<ServerCapabilities> {
+    const probes: Record<ServerCapability, () => Promise<unknown>> = {
+      tools: () => this.#getToolsByServer(serverName, options),
+      prompts: () => this.#getPromptsByServer(serverName, undefined, options),
+      resources: () =>
+        this.#getResourcesByServer(serverName, undefined, options),
+    };
+
+    const capabilities = Object.keys(probes) as ServerCapability[];
+    const supported = await Promise.all(
+      capabilities.map(async (capability) => {
+        const known = this.#serverCapabilities.get(serverName)?.[capability];
+        if (known !== undefined) {
+          return known;
+        }
+
+        try {
+          await probes[capability]();
+        } catch (error) {
+          if (!(error instanceof CapabilityNotSupportedError)) {
+            throw error;
+          }
+          this.#recordCapability(serverName, capability, false);
+        }
+        // Unsupported prompts and resources are recorded while listing them.
+        const observed =
+          this.#serverCapabilities.get(serverName)?.[capability] ?? true;
+        this.#recordCapability(serverName, capability, observed);
+        return observed;
+      }),
+    );
+
+    return Object.fromEntries(
+      capabilities.map((capability, i) => [capability, supported[i]]),
+    ) as ServerCapabilities;
   }
 
   /**
@@ -370,6 +1395,7 @@ export class McpdClient {
    * Used by dependency injection for ServersNamespace and internally for getAgentTools.
    *
    * @param serverName - Server name to get tools for
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns Tool schemas for the specified server
    *
@@ -383,12 +1409,26 @@ export class McpdClient {
    *
    * @internal
    */
-  async #getToolsByServer(serverName: string): Promise<Tool[]> {
+  async #getToolsByServer(
+    serverName: string,
+    options: RequestOptions = {},
+  ): Promise<Tool[]> {
+    // Cached tool lists skip both the health check and the tools request.
+    const cached = this.#toolsCache?.get(serverName);
+    if (this.#toolsCache) {
+      this.#metrics.recordCacheLookup("tools", cached !== undefined);
+    }
+    if (cached) {
+      return cached;
+    }
+
     // Check server health first
-    await this.#ensureServerHealthy(serverName);
+    await this.#ensureServerHealthy(serverName, options);
 
     const path = API_PATHS.SERVER_TOOLS(serverName);
-    const response = await this.#request<ToolsResponse>(path);
+    const response = await this.#request<ToolsResponse>(path, {}, options, {
+      serverName,
+    });
 
     if (!response.tools) {
       throw new ServerNotFoundError(
@@ -397,6 +1437,7 @@ export class McpdClient {
       );
     }
 
+    this.#toolsCache?.set(serverName, response.tools);
     return response.tools;
   }
 
@@ -408,6 +1449,7 @@ export class McpdClient {
    *
    * @param serverName - Server name to get prompts for
    * @param cursor - Cursor for pagination
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns Prompt schemas for the specified server
    *
@@ -424,21 +1466,21 @@ export class McpdClient {
   async #getPromptsByServer(
     serverName: string,
     cursor?: string,
+    options: RequestOptions = {},
   ): Promise<Prompt[]> {
     try {
       // Check server health first.
-      await this.#ensureServerHealthy(serverName);
+      await this.#ensureServerHealthy(serverName, options);
 
       const path = API_PATHS.SERVER_PROMPTS(serverName, cursor);
-      const response = await this.#request<Prompts>(path);
+      const response = await this.#request<Prompts>(path, {}, options, {
+        serverName,
+      });
       return response.prompts || [];
     } catch (error) {
-      // Handle 501 Not Implemented - server doesn't support prompts.
-      if (
-        error instanceof McpdError &&
-        error.message.includes("501") &&
-        error.message.includes("Not Implemented")
-      ) {
+      // Server doesn't support prompts.
+      if (error instanceof CapabilityNotSupportedError) {
+        this.#recordCapability(serverName, "prompts", false);
         return [];
       }
 
@@ -457,6 +1499,7 @@ export class McpdClient {
    * @param serverName - The name of the server
    * @param promptName - The exact name of the prompt
    * @param args - The prompt arguments
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns The generated prompt response
    *
@@ -471,19 +1514,25 @@ export class McpdClient {
     serverName: string,
     promptName: string,
     args?: Record<string, string>,
+    options: RequestOptions = {},
   ): Promise<GeneratePromptResponseBody> {
     // Check server health first.
-    await this.#ensureServerHealthy(serverName);
+    await this.#ensureServerHealthy(serverName, options);
 
     const path = API_PATHS.PROMPT_GET_GENERATED(serverName, promptName);
     const requestBody: PromptGenerateArguments = {
       arguments: args || {},
     };
 
-    const response = await this.#request<GeneratePromptResponseBody>(path, {
-      method: "POST",
-      body: JSON.stringify(requestBody),
-    });
+    const response = await this.#request<GeneratePromptResponseBody>(
+      path,
+      {
+        method: "POST",
+        body: JSON.stringify(requestBody),
+      },
+      options,
+      { serverName, promptName },
+    );
 
     return response;
   }
@@ -496,6 +1545,7 @@ export class McpdClient {
    *
    * @param serverName - Server name to get resources for
    * @param cursor - Cursor for pagination
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns Resource schemas for the specified server
    *
@@ -512,21 +1562,21 @@ export class McpdClient {
   async #getResourcesByServer(
     serverName: string,
     cursor?: string,
+    options: RequestOptions = {},
   ): Promise<Resource[]> {
     try {
       // Check server health first.
-      await this.#ensureServerHealthy(serverName);
+      await this.#ensureServerHealthy(serverName, options);
 
       const path = API_PATHS.SERVER_RESOURCES(serverName, cursor);
-      const response = await this.#request<Resources>(path);
+      const response = await this.#request<Resources>(path, {}, options, {
+        serverName,
+      });
       return response.resources || [];
     } catch (error) {
-      // Handle 501 Not Implemented - server doesn't support resources.
-      if (
-        error instanceof McpdError &&
-        error.message.includes("501") &&
-        error.message.includes("Not Implemented")
-      ) {
+      // Server doesn't support resources.
+      if (error instanceof CapabilityNotSupportedError) {
+        this.#recordCapability(serverName, "resources", false);
         return [];
       }
 
@@ -542,6 +1592,7 @@ export class McpdClient {
    *
    * @param serverName - Server name to get resource templates for
    * @param cursor - Cursor for pagination
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns Resource template schemas for the specified server
    *
@@ -558,21 +1609,23 @@ export class McpdClient {
   async #getResourceTemplatesByServer(
     serverName: string,
     cursor?: string,
+    options: RequestOptions = {},
   ): Promise<ResourceTemplate[]> {
     try {
       // Check server health first.
-      await this.#ensureServerHealthy(serverName);
+      await this.#ensureServerHealthy(serverName, options);
 
       const path = API_PATHS.SERVER_RESOURCE_TEMPLATES(serverName, cursor);
-      const response = await this.#request<ResourceTemplates>(path);
+      const response = await this.#request<ResourceTemplates>(
+        path,
+        {},
+        options,
+        { serverName },
+      );
       return response.templates || [];
     } catch (error) {
-      // Handle 501 Not Implemented - server doesn't support resource templates.
-      if (
-        error instanceof McpdError &&
-        error.message.includes("501") &&
-        error.message.includes("Not Implemented")
-      ) {
+      // Server doesn't support resource templates.
+      if (error instanceof CapabilityNotSupportedError) {
         return [];
       }
 
@@ -588,6 +1641,7 @@ export class McpdClient {
    *
    * @param serverName - Server name to read resource from
    * @param uri - The resource URI
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns Array of resource contents (text or blob)
    *
@@ -604,25 +1658,31 @@ export class McpdClient {
   async #readResourceByServer(
     serverName: string,
     uri: string,
+    options: RequestOptions = {},
   ): Promise<ResourceContent[]> {
     // Check server health first.
-    await this.#ensureServerHealthy(serverName);
+    await this.#ensureServerHealthy(serverName, options);
 
     const path = API_PATHS.RESOURCE_CONTENT(serverName, uri);
-    const response = await this.#request<ResourceContent[]>(path);
+    const response = await this.#request<ResourceContent[]>(path, {}, options, {
+      serverName,
+      resourceUri: uri,
+    });
     return response || [];
   }
 
   /**
    * Get health information for one or all servers.
    *
-   * @param serverName - Server name to get health for, or undefined for all servers
+   * @param serverName - Server name to get health for, or omitted for all servers
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns Health information for the specified server or all servers
    *
    * @throws {AuthenticationError} If API key was present and authentication fails
    * @throws {ConnectionError} If unable to connect to the mcpd daemon
    * @throws {TimeoutError} If the request times out
+   * @throws {AbortedError} If the request is cancelled via the signal
    * @throws {McpdError} If the request fails
    *
    * @example
@@ -634,17 +1694,53 @@ export class McpdClient {
    * // Get health for a specific server
    * const timeHealth = await client.getServerHealth('time');
    * console.log(timeHealth); // { status: 'ok' }
+   *
+   * // Bound the health check with a per-call timeout
+   * const health = await client.getServerHealth('time', { timeoutMs: 2000 });
    * ```
    */
-  async getServerHealth(): Promise<Record<string, ServerHealth>>;
-  async getServerHealth(serverName: string): Promise<ServerHealth>;
   async getServerHealth(
-    serverName?: string,
+    options?: RequestOptions,
+  ): Promise<Record<string, ServerHealth>>;
+  async getServerHealth(
+    serverName: string,
+    options?: RequestOptions,
+  ): Promise<ServerHealth>;
+  async getServerHealth(
+    serverNameOrOptions?: string | RequestOptions,
+    requestOptions: RequestOptions = {},
+  ): Promise<ServerHealth | Record<string, ServerHealth>> {
+    const serverName =
+      typeof serverNameOrOptions === "string" ? serverNameOrOptions : undefined;
+    const options =
+      typeof serverNameOrOptions === "object"
+        ? serverNameOrOptions
+        : requestOptions;
+
+    return this.#tracer.withSpan(
+      "mcpd.health",
+      { [SPAN_ATTRIBUTES.SERVER_NAME]: serverName },
+      () => this.#serverHealth(serverName, options),
+    );
+  }
+
+  /**
+   * Get health information for one server (using the health cache) or all servers.
+   *
+   * @param serverName - The server to check, or undefined for all servers
+   * @param options - Per-call cancellation and timeout options
+   *
+   * @returns The server's health, or health keyed by server name
+   */
+  async #serverHealth(
+    serverName: string | undefined,
+    options: RequestOptions,
   ): Promise<ServerHealth | Record<string, ServerHealth>> {
     if (serverName) {
       // Check cache first
       const cacheKey = `health:${serverName}`;
       const cached = this.#serverHealthCache.get(cacheKey);
+      this.#metrics.recordCacheLookup("health", cached !== undefined);
 
       if (cached !== undefined) {
         if (cached instanceof Error) {
@@ -655,10 +1751,13 @@ export class McpdClient {
 
       try {
         const path = API_PATHS.HEALTH_SERVER(serverName);
-        const health = await this.#request<ServerHealth>(path);
+        const health = await this.#request<ServerHealth>(path, {}, options, {
+          serverName,
+        });
 
         // Cache successful result
         this.#serverHealthCache.set(cacheKey, health);
+        this.#observeHealth(serverName, health.status);
 
         return health;
       } catch (error) {
@@ -676,14 +1775,21 @@ export class McpdClient {
     } else {
       const response = await this.#request<HealthResponse>(
         API_PATHS.HEALTH_ALL,
+        {},
+        options,
       );
       // Transform array response into Record<string, ServerHealth>
       const healthMap: Record<string, ServerHealth> = {};
       for (const server of response.servers) {
         healthMap[server.name] = server;
-        // Cache individual server health for subsequent calls
+        // Cache individual server health for subsequent calls, keeping the
+        // fail-fast entry of servers whose circuit is open.
+        if (this.#circuitBreaker?.isOpen(server.name)) {
+          continue;
+        }
         const cacheKey = `health:${server.name}`;
         this.#serverHealthCache.set(cacheKey, server);
+        this.#observeHealth(server.name, server.status);
       }
       return healthMap;
     }
@@ -693,12 +1799,14 @@ export class McpdClient {
    * Check if a specific server is healthy.
    *
    * @param serverName - The name of the server to check
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns True if the server is healthy, false otherwise
    *
    * @throws {AuthenticationError} If API key was present and authentication fails
    * @throws {ConnectionError} If unable to connect to the mcpd daemon
    * @throws {TimeoutError} If the request times out
+   * @throws {AbortedError} If the request is cancelled via the signal
    * @throws {McpdError} If the request fails
    *
    * @example
@@ -708,9 +1816,12 @@ export class McpdClient {
    * }
    * ```
    */
-  async isServerHealthy(serverName: string): Promise<boolean> {
+  async isServerHealthy(
+    serverName: string,
+    options: RequestOptions = {},
+  ): Promise<boolean> {
     try {
-      const health = await this.getServerHealth(serverName);
+      const health = await this.getServerHealth(serverName, options);
       return HealthStatusHelpers.isHealthy(health.status);
     } catch (error) {
       if (error instanceof ServerNotFoundError) {
@@ -724,6 +1835,7 @@ export class McpdClient {
    * Ensure a server is healthy before performing an operation.
    *
    * @param serverName - The name of the server to check
+   * @param options - Per-call cancellation and timeout options
    *
    * @throws {ServerNotFoundError} If the server doesn't exist
    * @throws {ServerUnhealthyError} If the server is not healthy
@@ -733,8 +1845,11 @@ export class McpdClient {
    * @throws {TimeoutError} If the request times out
    * @throws {McpdError} If the request fails
    */
-  async #ensureServerHealthy(serverName: string): Promise<void> {
-    const health = await this.getServerHealth(serverName);
+  async #ensureServerHealthy(
+    serverName: string,
+    options: RequestOptions = {},
+  ): Promise<void> {
+    const health = await this.getServerHealth(serverName, options);
 
     if (!health) {
       throw new ServerNotFoundError(
@@ -760,6 +1875,7 @@ export class McpdClient {
    *
    * @param servers - List of server names to use for health checking.
    *                  If not provided, or empty, checks health for all servers.
+   * @param options - Per-call cancellation and timeout options
    *
    * @returns List of server names with 'ok' health status.
    *
@@ -768,9 +1884,14 @@ export class McpdClient {
    * @throws {TimeoutError} If the request times out
    * @throws {McpdError} If the request fails
    */
-  async #getHealthyServers(servers?: string[]): Promise<string[]> {
-    const serverNames = servers?.length ? servers : await this.listServers();
-    const healthMap = await this.getServerHealth();
+  async #getHealthyServers(
+    servers?: string[],
+    options: RequestOptions = {},
+  ): Promise<string[]> {
+    const serverNames = servers?.length
+      ? servers
+      : await this.listServers(options);
+    const healthMap = await this.getServerHealth(options);
 
     return serverNames.filter((name) => {
       const health = healthMap[name];
@@ -787,10 +1908,158 @@ export class McpdClient {
         return false;
       }
 
+      const cached = this.#serverHealthCache.get(`health:${name}`);
+      if (cached instanceof ServerUnhealthyError) {
+        this.#logger.warn(`Skipping server '${name}': ${cached.message}`);
+        return false;
+      }
+
       return true;
     });
   }
 
+  /**
+   * Call several tools, possibly on different servers, with bounded
+   * concurrency.
+   *
+   * @remarks
+   * Each server's health is checked once for the whole batch rather than once
+   * per call; calls to an unhealthy server fail without being sent. Calls are
+   * otherwise made as by `client.servers.<server>.tools.<tool>()`, so retries,
+   * client-wide limits, output validation, metrics and events apply to each.
+   *
+   * The batch never rejects because a call failed: every call settles into an
+   * outcome, returned in the order of `calls`.
+   *
+   * @param calls - The calls to make
+   * @param options - Concurrency, fail-fast, cancellation and per-call timeout
+   * options
+   *
+   * @returns The outcome of each call, with its duration
+   *
+   * @throws {RangeError} If concurrency is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * const outcomes = await client.callTools(
+   *   urls.map((url) => ({ server: 'fetch', tool: 'fetch', args: { url } })),
+   *   { concurrency: 2, timeoutMs: 10000 },
+   * );
+   *
+   * for (const outcome of outcomes) {
+   *   if (outcome.status === 'fulfilled') {
+   *     console.log(outcome.result.text());
+   *   } else {
+   *     console.error(`${outcome.tool} failed after ${outcome.durationMs}ms`, outcome.error);
+   *   }
+   * }
+   * ```
+   */
+  async callTools(
+    calls: ToolCallRequest[],
+    options: CallToolsOptions = {},
+  ): Promise<ToolCallOutcome<ClientToolResult<Legacy>>[]> {
+    const {
+      concurrency = CALL_TOOLS_CONCURRENCY,
+      failFast = false,
+      signal,
+      ...requestOptions
+    } = options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new RangeError("concurrency must be an integer >= 1");
+    }
+
+    // Cancels the batch on the caller's signal, or on the first failure with failFast.
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const callOptions: RequestOptions = {
+      ...requestOptions,
+      signal: controller.signal,
+    };
+
+    // One health check per server, shared by its calls.
+    const healthChecks = new Map<string, Promise<void>>();
+    const ensureHealthy = (serverName: string): Promise<void> => {
+      let check = healthChecks.get(serverName);
+      if (!check) {
+        check = this.#ensureServerHealthy(serverName, callOptions);
+        healthChecks.set(serverName, check);
+      }
+      return check;
+    };
+
+    const settle = async ({
+      server,
+      tool,
+      args,
+    }: ToolCallRequest): Promise<ToolCallOutcome<ClientToolResult<Legacy>>> => {
+      const started = performance.now();
+      try {
+        if (controller.signal.aborted) {
+          throw this.#abortedError(
+            API_PATHS.TOOL_CALL(server, tool),
+            controller.signal,
+          );
+        }
+        await ensureHealthy(server);
+        const result = await this.#performCall(server, tool, args, callOptions);
+        return {
+          status: "fulfilled",
+          server,
+          tool,
+          result,
+          durationMs: performance.now() - started,
+        };
+      } catch (error) {
+        if (failFast) {
+          // Only the first failure sets the reason; later aborts are ignored.
+          controller.abort(error);
+        }
+        return {
+          status: "rejected",
+          server,
+          tool,
+          error:
+            error instanceof McpdError
+              ? error
+              : new ToolExecutionError(
+                  `Failed to execute tool '${tool}' on server '${server}': ${(error as Error).message}`,
+                  server,
+                  tool,
+                  undefined,
+                  error as Error,
+                ),
+          durationMs: performance.now() - started,
+        };
+      }
+    };
+
+    // Each worker takes the next call until none are left.
+    const outcomes: ToolCallOutcome<ClientToolResult<Legacy>>[] = new Array(
+      calls.length,
+    );
+    let next = 0;
+    const work = async () => {
+      while (next < calls.length) {
+        const index = next++;
+        outcomes[index] = await settle(calls[index]!);
+      }
+    };
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, calls.length) }, work),
+      );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+    return outcomes;
+  }
+
   /**
    * Perform a tool call on a server.
    *
@@ -802,10 +2071,15 @@ export class McpdClient {
    * @param serverName - The name of the server
    * @param toolName - The exact name of the tool
    * @param args - The tool arguments
+   * @param options - Per-call cancellation and timeout options
    *
-   * @returns The tool's response
+   * @returns The tool's result
    *
    * @throws {ToolExecutionError} If the tool execution fails
+   * @throws {ServerUnhealthyError} If the server's circuit breaker is open
+   * @throws {QueueFullError} If the call must wait for a limit and the queue is full
+   * @throws {OutputValidationError} If the result doesn't match the tool's
+   * output schema and output validation is strict
    *
    * @throws {AuthenticationError} If API key was present and authentication fails
    * @throws {ConnectionError} If unable to connect to the mcpd daemon
@@ -818,28 +2092,106 @@ export class McpdClient {
     serverName: string,
     toolName: string,
     args?: Record<string, unknown>,
-  ): Promise<unknown> {
-    const path = API_PATHS.TOOL_CALL(serverName, toolName);
+    options: RequestOptions = {},
+  ): Promise<ClientToolResult<Legacy>> {
+    this.#events.emit("tool:call", { serverName, toolName, args });
+    const started = performance.now();
+    const elapsedMs = () => performance.now() - started;
 
     try {
-      const response = await this.#request<unknown>(path, {
-        method: "POST",
-        body: JSON.stringify(args || {}),
+      const result = await this.#tracer.withSpan(
+        "mcpd.call_tool",
+        {
+          [SPAN_ATTRIBUTES.SERVER_NAME]: serverName,
+          [SPAN_ATTRIBUTES.TOOL_NAME]: toolName,
+        },
+        async () => {
+          const result = await this.#callTool(
+            serverName,
+            toolName,
+            args,
+            options,
+          );
+          await this.#validateOutput(serverName, toolName, result, options);
+          return result;
+        },
+      );
+      const durationMs = elapsedMs();
+      this.#metrics.recordCall(serverName, toolName, durationMs / 1000);
+      this.#events.emit("tool:result", {
+        serverName,
+        toolName,
+        durationMs,
+        result,
+      });
+      return result;
+    } catch (error) {
+      const durationMs = elapsedMs();
+      this.#metrics.recordCall(serverName, toolName, durationMs / 1000, error);
+      this.#events.emit("tool:error", {
+        serverName,
+        toolName,
+        durationMs,
+        error: error as Error,
       });
+      throw error;
+    }
+  }
 
-      // The mcpd API returns tool results as JSON strings that need parsing
-      if (typeof response === "string") {
-        try {
-          return JSON.parse(response);
-        } catch {
-          // If not valid JSON, return string as-is
-          return response;
-        }
-      }
+  /**
+   * Call a tool, applying the circuit breaker and client-side limits.
+   *
+   * @param serverName - The name of the server
+   * @param toolName - The exact name of the tool
+   * @param args - The tool arguments
+   * @param options - Per-call cancellation and timeout options
+   *
+   * @returns The tool's result
+   */
+  async #callTool(
+    serverName: string,
+    toolName: string,
+    args: Record<string, unknown> | undefined,
+    options: RequestOptions,
+  ): Promise<ClientToolResult<Legacy>> {
+    const path = API_PATHS.TOOL_CALL(serverName, toolName);
 
-      // Return the response as-is (already parsed or not a string)
-      return response;
+    if (this.#circuitBreaker?.tryAcquire(serverName) === false) {
+      throw this.#circuitOpenError(serverName);
+    }
+
+    let releaseLimits: (() => void) | undefined;
+    try {
+      const idempotent = await this.#isIdempotentTool(
+        serverName,
+        toolName,
+        options,
+      );
+      releaseLimits = await this.#acquireCallLimits(serverName, path, options);
+
+      // The same key is sent on every attempt, so retries can be deduplicated.
+      const response = await this.#request<unknown>(
+        path,
+        {
+          method: "POST",
+          headers: { [IDEMPOTENCY_KEY_HEADER]: createIdempotencyKey() },
+          body: JSON.stringify(args || {}),
+        },
+        options,
+        { serverName, toolName },
+        idempotent,
+      );
+      this.#circuitBreaker?.recordSuccess(serverName);
+
+      // #legacyToolResults is set exactly when Legacy isn't false, in which
+      // case ClientToolResult<Legacy> is unknown.
+      const result = this.#legacyToolResults
+        ? toLegacyToolResult(response)
+        : toCallToolResult(response);
+      return result as ClientToolResult<Legacy>;
     } catch (error) {
+      this.#recordCircuitFailure(serverName, error);
+
       // Enrich PipelineError with server/tool context.
       if (error instanceof PipelineError) {
         throw new PipelineError(
@@ -848,6 +2200,7 @@ export class McpdClient {
           `${serverName}.${toolName}`,
           error.pipelineFlow,
           error.cause as Error | undefined,
+          error,
         );
       }
 
@@ -862,15 +2215,270 @@ export class McpdClient {
         undefined,
         error as Error,
       );
+    } finally {
+      releaseLimits?.();
+    }
+  }
+
+  /**
+   * Check a tool result's structured content against the tool's output schema.
+   *
+   * Does nothing unless output validation is enabled. Results flagged as
+   * errors, tools without an output schema, and tools whose output schema uses
+   * keywords TypeConverter.findIssues() doesn't check (logged as a warning once
+   * per tool) are not checked.
+   *
+   * @param serverName - The name of the server
+   * @param toolName - The exact name of the tool
+   * @param result - The tool's result
+   * @param options - Per-call cancellation and timeout options
+   *
+   * @throws {OutputValidationError} If the content doesn't match and output
+   * validation is strict
+   */
+  async #validateOutput(
+    serverName: string,
+    toolName: string,
+    result: unknown,
+    options: RequestOptions,
+  ): Promise<void> {
+    // Legacy results are not CallToolResults, so there is nothing to check.
+    if (
+      this.#outputValidation === "off" ||
+      !(result instanceof CallToolResult) ||
+      result.isError
+    ) {
+      return;
+    }
+
+    let tool: Tool | undefined;
+    try {
+      const tools = await this.#getToolsByServer(serverName, options);
+      tool = tools.find((t) => t.name === toolName);
+    } catch (error) {
+      // The call itself succeeded, so a failed lookup only skips the check.
+      this.#logger.debug(
+        `Skipping output validation of tool '${toolName}' on server '${serverName}': ${(error as Error).message}`,
+      );
+      return;
+    }
+    if (!tool?.outputSchema) {
+      return;
+    }
+
+    // Checking only part of a schema could accept invalid output as valid.
+    const unsupported = TypeConverter.findUnsupportedKeyword(tool.outputSchema);
+    if (unsupported) {
+      const key = `${serverName}${TOOL_SEPARATOR}${toolName}`;
+      if (!this.#uncheckableOutputSchemas.has(key)) {
+        this.#uncheckableOutputSchemas.add(key);
+        this.#logger.warn(
+          `Skipping output validation of tool '${toolName}' on server '${serverName}': its output schema uses '${unsupported}', which can't be checked`,
+        );
+      }
+      return;
+    }
+
+    const issues: OutputValidationIssue[] =
+      result.structuredContent === undefined
+        ? [{ path: "", message: "is missing" }]
+        : TypeConverter.findIssues(result.structuredContent, tool.outputSchema);
+    if (issues.length === 0) {
+      return;
+    }
+
+    const details = issues
+      .map((issue) => `${issue.path || "structured content"} ${issue.message}`)
+      .join("; ");
+    const message = `Output of tool '${toolName}' on server '${serverName}' doesn't match its output schema: ${details}`;
+    if (this.#outputValidation === "lenient") {
+      this.#logger.warn(message);
+      return;
+    }
+    throw new OutputValidationError(message, serverName, toolName, issues);
+  }
+
+  /**
+   * Check whether a tool may safely be called more than once.
+   *
+   * Tools are retried, and moved to another endpoint when one fails, if they
+   * are annotated as read-only or idempotent, or if the retry policy opts in
+   * to retrying all tools. The annotations come from
+   * the server's tool list, which is fetched if it isn't cached.
+   *
+   * @param serverName - The name of the server
+   * @param toolName - The exact name of the tool
+   * @param options - Per-call cancellation and timeout options
+   *
+   * @returns True if failed calls to the tool may be retried
+   */
+  async #isIdempotentTool(
+    serverName: string,
+    toolName: string,
+    options: RequestOptions,
+  ): Promise<boolean> {
+    const policy = this.#retryPolicy;
+    const repeatable = policy.maxAttempts > 1 || this.#endpoints.size > 1;
+    if (!repeatable || policy.retryNonIdempotentTools) {
+      return true;
+    }
+
+    try {
+      const tools = await this.#getToolsByServer(serverName, options);
+      const annotations = tools.find(
+        (tool) => tool.name === toolName,
+      )?.annotations;
+      return (
+        annotations?.readOnlyHint === true ||
+        annotations?.idempotentHint === true
+      );
+    } catch {
+      // Unknown tools are treated as non-idempotent; the call reports errors.
+      return false;
+    }
+  }
+
+  /**
+   * Wait until the configured client-side limits allow a tool call to start.
+   *
+   * @param serverName - The name of the server
+   * @param path - The API path of the tool call
+   * @param options - Per-call cancellation options
+   *
+   * @returns Function releasing the call's limits, or undefined without limits
+   *
+   * @throws {QueueFullError} If the call must wait and the queue is full
+   * @throws {AbortedError} If the wait is cancelled via the signal
+   */
+  async #acquireCallLimits(
+    serverName: string,
+    path: string,
+    options: RequestOptions,
+  ): Promise<(() => void) | undefined> {
+    const { signal } = options;
+
+    try {
+      return await this.#limiter?.acquire(serverName, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw this.#abortedError(path, signal);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update the circuit breaker after a failed tool call.
+   *
+   * Connection failures, timeouts and tool execution failures count towards
+   * opening the circuit; other errors (e.g. cancellation) leave it unchanged.
+   * When the circuit opens, a fail-fast entry is cached as the server's health
+   * for the cooldown, so health checks and getAgentTools() skip the server.
+   *
+   * @param serverName - The name of the server
+   * @param error - The error raised by the tool call
+   */
+  #recordCircuitFailure(serverName: string, error: unknown): void {
+    const breaker = this.#circuitBreaker;
+    if (!breaker) {
+      return;
+    }
+
+    const isFailure =
+      error instanceof ConnectionError ||
+      error instanceof TimeoutError ||
+      error instanceof ToolExecutionError ||
+      !(error instanceof McpdError);
+    if (!isFailure) {
+      breaker.release(serverName);
+      return;
+    }
+
+    if (breaker.recordFailure(serverName)) {
+      this.#logger.warn(
+        `Circuit breaker opened for server '${serverName}' after ${breaker.failureThreshold} consecutive failures`,
+      );
+      this.#observeHealth(serverName, "circuit_open");
+      if (breaker.cooldownMs > 0) {
+        this.#serverHealthCache.set(
+          `health:${serverName}`,
+          this.#circuitOpenError(serverName),
+          { ttl: breaker.cooldownMs },
+        );
+      }
     }
   }
 
+  /**
+   * Create the error raised for calls to a server whose circuit is open.
+   *
+   * @param serverName - The name of the server
+   *
+   * @returns The ServerUnhealthyError
+   */
+  #circuitOpenError(serverName: string): ServerUnhealthyError {
+    return new ServerUnhealthyError(
+      `Server '${serverName}' is unavailable: circuit breaker is open`,
+      serverName,
+      "circuit_open",
+    );
+  }
+
   /**
    * Clear the cached agent tools functions.
    * This should be called when the tool schemas might have changed.
    */
   clearAgentToolsCache(): void {
     this.#functionBuilder.clearCache();
+    this.#events.emit("cache:cleared", { cache: "agent_tools" });
+  }
+
+  /**
+   * Clear cached tool lists and server capabilities.
+   * This forces a fresh health check and tool list request on the next tool lookup.
+   *
+   * @param serverName - Only clear the tool list of this server; clears all when omitted
+   */
+  clearToolsCache(serverName?: string): void {
+    if (serverName === undefined) {
+      this.#toolsCache?.clear();
+      this.#serverCapabilities.clear();
+      this.#events.emit("cache:cleared", { cache: "tools" });
+    } else {
+      this.#toolsCache?.delete(serverName);
+      this.#serverCapabilities.delete(serverName);
+      this.#events.emit("cache:cleared", { cache: "tools", serverName });
+    }
+  }
+
+  /**
+   * Get the metrics collected by this client.
+   *
+   * Metrics include tool call counts, errors by class, timeouts, pipeline
+   * failures and durations (per server and tool), and hits and misses of the
+   * health, tool list and agent tools caches.
+   *
+   * @returns A snapshot of the current metrics
+   */
+  getMetrics(): MetricsSnapshot {
+    return this.#metrics.snapshot();
+  }
+
+  /**
+   * Export the metrics collected by this client.
+   *
+   * @param exporter - Formats the metrics, e.g. `new PrometheusExporter()`
+   * @returns The exporter's output
+   */
+  exportMetrics<T>(exporter: MetricsExporter<T>): T {
+    return exporter.export(this.#metrics.snapshot());
+  }
+
+  /**
+   * Reset all metrics collected by this client to zero.
+   */
+  resetMetrics(): void {
+    this.#metrics.reset();
   }
 
   /**
@@ -879,6 +2487,81 @@ export class McpdClient {
    */
   clearServerHealthCache(): void {
     this.#serverHealthCache.clear();
+    this.#events.emit("cache:cleared", { cache: "health" });
+  }
+
+  /**
+   * Record whether a server supports a capability.
+   *
+   * @param serverName - The name of the server
+   * @param capability - The capability
+   * @param supported - True if the server supports it
+   *
+   * @internal
+   */
+  #recordCapability(
+    serverName: string,
+    capability: ServerCapability,
+    supported: boolean,
+  ): void {
+    const capabilities = this.#serverCapabilities.get(serverName) ?? {};
+    capabilities[capability] = supported;
+    this.#serverCapabilities.set(serverName, capabilities);
+  }
+
+  /**
+   * Emit `health:changed` if a server's health status differs from the one
+   * last observed.
+   *
+   * @param serverName - The name of the server
+   * @param status - The newly observed health status
+   */
+  #observeHealth(serverName: string, status: string): void {
+    const previousStatus = this.#lastHealthStatus.get(serverName);
+    if (previousStatus === status) {
+      return;
+    }
+    this.#lastHealthStatus.set(serverName, status);
+    this.#events.emit("health:changed", { serverName, previousStatus, status });
+  }
+
+  /**
+   * Stop sending requests to a failing endpoint until its cooldown has elapsed.
+   *
+   * Cached health and tool lists may describe the failing replica, so they are
+   * cleared and fetched again from the endpoint that serves the next request.
+   *
+   * @param endpoint - The endpoint that failed
+   * @param error - The connection or timeout error
+   *
+   * @internal
+   */
+  #markEndpointDown(endpoint: DaemonEndpoint, error: McpdError): void {
+    const wasAvailable = this.#endpoints.isAvailable(endpoint);
+    this.#endpoints.markDown(endpoint);
+    if (!wasAvailable) {
+      return;
+    }
+
+    this.#logger.warn(
+      `mcpd endpoint ${endpoint.url} marked down for ${this.#endpoints.cooldownMs}ms: ${error.message}`,
+    );
+    this.#daemonInfo = undefined;
+    this.clearServerHealthCache();
+    this.clearToolsCache();
+  }
+
+  /**
+   * Remove cached authentication failures from the server health cache.
+   *
+   * @internal
+   */
+  #clearCachedAuthenticationErrors(): void {
+    for (const [key, value] of [...this.#serverHealthCache.entries()]) {
+      if (value instanceof AuthenticationError) {
+        this.#serverHealthCache.delete(key);
+      }
+    }
   }
 
   /**
@@ -894,6 +2577,8 @@ export class McpdClient {
    * Tool fetches from multiple servers are executed concurrently for optimal performance.
    * Functions are cached indefinitely until explicitly cleared.
    *
+   * @param options - Per-call cancellation and timeout options
+   *
    * @returns Array of callable functions with metadata from all healthy servers.
    *
    * @throws {AuthenticationError} If API key was present and authentication fails
@@ -903,26 +2588,35 @@ export class McpdClient {
    *
    * @internal
    */
-  async #agentTools(): Promise<AgentFunction[]> {
+  async #agentTools(
+    options: RequestOptions = {},
+  ): Promise<AgentFunction<ClientToolResult<Legacy>>[]> {
     // Return cached functions if available.
     const cachedFunctions = this.#functionBuilder.getCachedFunctions();
+    this.#metrics.recordCacheLookup("agent_tools", cachedFunctions.length > 0);
     if (cachedFunctions.length > 0) {
       return cachedFunctions;
     }
+    const started = performance.now();
 
     // Get all healthy servers.
-    const healthyServers = await this.#getHealthyServers();
+    const healthyServers = await this.#getHealthyServers(undefined, options);
 
     // Fetch tools from all healthy servers in parallel.
     const results = await Promise.allSettled(
       healthyServers.map(async (serverName) => ({
         serverName,
-        tools: await this.#getToolsByServer(serverName),
+        tools: await this.#getToolsByServer(serverName, options),
       })),
     );
 
+    // Surface cancellation rather than returning a partial tool set.
+    if (options.signal?.aborted) {
+      throw this.#abortedError(API_PATHS.SERVERS, options.signal);
+    }
+
     // Build functions from tool schemas.
-    const agentTools: AgentFunction[] = results
+    const agentTools: AgentFunction<ClientToolResult<Legacy>>[] = results
       .filter((result) => result.status === "fulfilled")
       .flatMap((result) => {
         const { serverName, tools } = result.value;
@@ -934,6 +2628,12 @@ export class McpdClient {
         );
       });
 
+    this.#events.emit("agentTools:refreshed", {
+      count: agentTools.length,
+      servers: healthyServers,
+      durationMs: performance.now() - started,
+    });
+
     return agentTools;
   }
 
@@ -956,7 +2656,8 @@ export class McpdClient {
    * Use {@link clearAgentToolsCache()} to clear the cache, or set refreshCache to true
    * to force regeneration when tool schemas have changed.
    *
-   * @param options - Options for output format, server/tool filtering, and cache control
+   * @param options - Options for output format, server/tool filtering, cache control,
+   *                  result policies, cancellation (signal) and per-call timeout (timeoutMs)
    *
    * @returns Functions in the requested format (array, object, or map).
    *          Only includes tools from healthy servers.
@@ -964,6 +2665,8 @@ export class McpdClient {
    * @throws {ConnectionError} If unable to connect to the mcpd daemon
    * @throws {TimeoutError} If requests to the daemon time out
    * @throws {AuthenticationError} If API key authentication fails
+   * @throws {AbortedError} If the operation is cancelled via the signal
+   * @throws {RangeError} If a result policy is out of range
    * @throws {McpdError} If unable to retrieve health status, server list, or generate functions
    *
    * @example
@@ -978,6 +2681,12 @@ export class McpdClient {
    * // Force refresh from cache
    * const freshTools = await client.getAgentTools({ refreshCache: true });
    *
+   * // Keep results within the model's context, with a tighter limit for fetch
+   * const limitedTools = await client.getAgentTools({
+   *   resultPolicy: { maxTokens: 4000, format: 'text' },
+   *   toolResultPolicies: { fetch__fetch: { maxTokens: 1000, truncate: 'middle' } },
+   * });
+   *
    * // Use with LangChain JS (array format)
    * const langchainTools = await client.getAgentTools({ format: 'array' });
    * const agent = await createOpenAIToolsAgent({ llm, tools: langchainTools, prompt });
@@ -992,36 +2701,73 @@ export class McpdClient {
    */
   async getAgentTools(
     options?: ArrayAgentToolsOptions,
-  ): Promise<AgentFunction[]>;
+  ): Promise<AgentFunctionsArray<ClientToolResult<Legacy>>>;
   async getAgentTools(
     options: ObjectAgentToolsOptions,
-  ): Promise<Record<string, AgentFunction>>;
+  ): Promise<AgentFunctionsRecord<ClientToolResult<Legacy>>>;
   async getAgentTools(
     options: MapAgentToolsOptions,
-  ): Promise<Map<string, AgentFunction>>;
+  ): Promise<AgentFunctionsMap<ClientToolResult<Legacy>>>;
   async getAgentTools(
     options: AgentToolsOptions = {},
   ): Promise<
-    AgentFunction[] | Record<string, AgentFunction> | Map<string, AgentFunction>
+    | AgentFunctionsArray<ClientToolResult<Legacy>>
+    | AgentFunctionsRecord<ClientToolResult<Legacy>>
+    | AgentFunctionsMap<ClientToolResult<Legacy>>
   > {
-    const { servers, tools, format = "array", refreshCache = false } = options;
+    const {
+      servers,
+      tools,
+      format = "array",
+      refreshCache = false,
+      signal,
+      timeoutMs,
+      resultPolicy,
+      toolResultPolicies,
+    } = options;
 
     // Clear cache and fetch fresh if requested.
-    if (refreshCache) this.#functionBuilder.clearCache();
+    if (refreshCache) {
+      this.clearAgentToolsCache();
+      this.clearToolsCache();
+    }
 
     // Fetch or retrieve cached functions from all healthy servers.
-    const allTools = await this.#agentTools();
+    const allTools = await this.#tracer.withSpan(
+      "mcpd.get_agent_tools",
+      {},
+      () =>
+        this.#agentTools({
+          ...(signal && { signal }),
+          ...(timeoutMs !== undefined && { timeoutMs }),
+        }),
+    );
 
     // Filter results based on servers and tools parameters.
     const filteredTools = allTools
       .filter((tool) => !servers || servers.includes(tool._serverName))
-      .filter((tool) => !tools || this.#matchesToolFilter(tool, tools));
+      .filter((tool) => !tools || this.#matchesToolFilter(tool, tools))
+      .map((tool) => {
+        // Server-prefixed keys are more specific than raw tool names.
+        const policy = resolveResultPolicy(
+          this.#resultPolicy,
+          resultPolicy,
+          toolResultPolicies?.[tool._toolName],
+          toolResultPolicies?.[tool.name],
+        );
+        return policy
+          ? this.#functionBuilder.withResultPolicy(tool, policy)
+          : tool;
+      });
 
     // Format output as requested.
+    type TResult = ClientToolResult<Legacy>;
     const formatters: {
-      array: (t: AgentFunctionsArray) => AgentFunctionsArray;
-      object: (t: AgentFunctionsArray) => AgentFunctionsRecord;
-      map: (t: AgentFunctionsArray) => AgentFunctionsMap;
+      array: (t: AgentFunctionsArray<TResult>) => AgentFunctionsArray<TResult>;
+      object: (
+        t: AgentFunctionsArray<TResult>,
+      ) => AgentFunctionsRecord<TResult>;
+      map: (t: AgentFunctionsArray<TResult>) => AgentFunctionsMap<TResult>;
     } = {
       array: (t) => t,
       object: (t) => Object.fromEntries(t.map((tool) => [tool.name, tool])),
@@ -1050,7 +2796,10 @@ export class McpdClient {
    *
    * @internal
    */
-  #matchesToolFilter(tool: AgentFunction, tools: string[]): boolean {
+  #matchesToolFilter(
+    tool: AgentFunction<ClientToolResult<Legacy>>,
+    tools: string[],
+  ): boolean {
     return tools.some((filterItem) => {
       if (filterItem.indexOf(TOOL_SEPARATOR) === -1) {
         // Match against raw tool name
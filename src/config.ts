@@ -0,0 +1,470 @@
+/**
+ * Configuration loading for the mcpd SDK.
+ *
+ * This module builds McpdClient options from environment variables and an
+ * optional SDK configuration file, and reads mcpd project configuration files
+ * (`.mcpd.toml`) to learn which servers and tools a project expects.
+ */
+
+import { z } from "zod";
+import { ConfigurationError } from "./errors";
+import type { BaseAgentToolsOptions, McpdClientOptions } from "./types";
+import { getEnvVar } from "./utils/env";
+import { parseToml } from "./utils/toml";
+import { UNIX_SOCKET_SCHEME } from "./utils/unixSocket";
+
+/**
+ * Daemon endpoint used when none is configured.
+ */
+export const DEFAULT_API_ENDPOINT = "http://localhost:8090";
+
+/**
+ * Environment variables read by `McpdClient.fromEnv()` and `loadConfig()`.
+ */
+export const ENV_VARS = {
+  /**
+   * The mcpd daemon API endpoint URL.
+   */
+  ADDR: "MCPD_ADDR",
+
+  /**
+   * API key for authentication.
+   */
+  API_KEY: "MCPD_API_KEY",
+
+  /**
+   * Request timeout in milliseconds.
+   */
+  TIMEOUT: "MCPD_TIMEOUT",
+
+  /**
+   * TTL in seconds for caching server health checks.
+   */
+  HEALTH_CACHE_TTL: "MCPD_HEALTH_CACHE_TTL",
+
+  /**
+   * Path of an SDK configuration file (JSON), read by `loadConfig()`.
+   */
+  SDK_CONFIG: "MCPD_SDK_CONFIG",
+
+  /**
+   * Path of the project's `.mcpd.toml`, read by `loadConfig()`.
+   */
+  PROJECT_CONFIG: "MCPD_CONFIG_FILE",
+} as const;
+
+/**
+ * Environment variables by name.
+ */
+export type Environment = Record<string, string | undefined>;
+
+/**
+ * Client options that can be configured by environment variables.
+ */
+export type EnvClientOptions = Partial<
+  Pick<
+    McpdClientOptions,
+    "apiEndpoint" | "apiKey" | "timeout" | "healthCacheTtl"
+  >
+>;
+
+/**
+ * An MCP server declared in a project's `.mcpd.toml`.
+ */
+export interface McpdServerConfig {
+  name: string;
+
+  /**
+   * Package the server runs, e.g. `uvx::mcp-server-time@2025.8.4`.
+   */
+  package?: string;
+
+  /**
+   * Tools the project allows. Undefined if all of the server's tools are allowed.
+   */
+  tools?: string[];
+}
+
+/**
+ * The servers and tools declared in a project's `.mcpd.toml`.
+ */
+export interface McpdProjectConfig {
+  servers: McpdServerConfig[];
+}
+
+/**
+ * Options for loadConfig.
+ */
+export interface LoadConfigOptions {
+  /**
+   * Environment variables to read.
+   *
+   * @defaultValue `process.env`
+   */
+  env?: Environment;
+
+  /**
+   * Path of an SDK configuration file (JSON).
+   *
+   * @defaultValue The `MCPD_SDK_CONFIG` environment variable
+   */
+  configFile?: string;
+
+  /**
+   * Path of the project's `.mcpd.toml`.
+   *
+   * @defaultValue The `MCPD_CONFIG_FILE` environment variable, or the
+   * `projectFile` of the SDK configuration file
+   */
+  projectFile?: string;
+}
+
+/**
+ * Configuration returned by loadConfig.
+ */
+export interface McpdConfig {
+  /**
+   * Options for `new McpdClient()`.
+   */
+  clientOptions: McpdClientOptions;
+
+  /**
+   * The project's `.mcpd.toml`, if one was configured.
+   */
+  project: McpdProjectConfig | undefined;
+}
+
+/**
+ * Valid daemon endpoints: http(s) URLs and unix socket URLs.
+ */
+const endpointSchema = z
+  .string()
+  .refine(
+    (value) =>
+      value.toLowerCase().startsWith(UNIX_SOCKET_SCHEME) ||
+      (URL.canParse(value) && /^https?:$/.test(new URL(value).protocol)),
+    "must be an http(s) or unix:// URL",
+  );
+
+/**
+ * Schema of the SDK configuration file.
+ */
+const sdkConfigSchema = z
+  .object({
+    apiEndpoint: endpointSchema.optional(),
+    apiKey: z.string().min(1).optional(),
+    timeout: z.number().int().positive().optional(),
+    healthCacheTtl: z.number().nonnegative().optional(),
+    toolsCacheTtl: z.number().nonnegative().optional(),
+    projectFile: z.string().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * Schema of the parts of `.mcpd.toml` used by the SDK.
+ */
+const projectConfigSchema = z.object({
+  servers: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        package: z.string().optional(),
+        tools: z.array(z.string()).optional(),
+      }),
+    )
+    .default([]),
+});
+
+/**
+ * Read client options from environment variables.
+ *
+ * Unset and empty variables are ignored.
+ *
+ * @param env - Environment variables to read
+ * @returns The configured options
+ * @throws {ConfigurationError} If a variable has an invalid value
+ */
+export function readEnvConfig(
+  env: Environment = processEnv(),
+): EnvClientOptions {
+  const options: EnvClientOptions = {};
+
+  const apiEndpoint = readEnv(
+    env,
+    ENV_VARS.ADDR,
+    endpointSchema,
+    "an http(s) or unix:// URL",
+  );
+  if (apiEndpoint !== undefined) {
+    options.apiEndpoint = apiEndpoint;
+  }
+
+  const apiKey = readEnv(env, ENV_VARS.API_KEY, z.string(), "a string");
+  if (apiKey !== undefined) {
+    options.apiKey = apiKey;
+  }
+
+  const timeout = readEnv(
+    env,
+    ENV_VARS.TIMEOUT,
+    z.coerce.number().int().positive(),
+    "a positive integer (milliseconds)",
+  );
+  if (timeout !== undefined) {
+    options.timeout = timeout;
+  }
+
+  const healthCacheTtl = readEnv(
+    env,
+    ENV_VARS.HEALTH_CACHE_TTL,
+    z.coerce.number().nonnegative(),
+    "a non-negative number (seconds)",
+  );
+  if (healthCacheTtl !== undefined) {
+    options.healthCacheTtl = healthCacheTtl;
+  }
+
+  return options;
+}
+
+/**
+ * Load client options and project configuration.
+ *
+ * Options are merged from, in increasing order of precedence, the defaults,
+ * the SDK configuration file and environment variables.
+ *
+ * @param options - Where to read configuration from
+ * @returns Client options and the project configuration, if any
+ * @throws {ConfigurationError} If a configuration file can't be read, or any
+ * configuration is invalid
+ *
+ * @example
+ * ```typescript
+ * const { clientOptions, project } = await loadConfig({
+ *   projectFile: ".mcpd.toml",
+ * });
+ * const client = new McpdClient(clientOptions);
+ * const tools = await client.getAgentTools(agentToolsFilter(project!));
+ * ```
+ */
+export async function loadConfig(
+  options: LoadConfigOptions = {},
+): Promise<McpdConfig> {
+  const env = options.env ?? processEnv();
+
+  const configFile = options.configFile ?? nonEmpty(env[ENV_VARS.SDK_CONFIG]);
+  const { projectFile: fileProjectFile, ...fileOptions } = configFile
+    ? await readSdkConfig(configFile)
+    : {};
+
+  let projectFile =
+    options.projectFile ?? nonEmpty(env[ENV_VARS.PROJECT_CONFIG]);
+  if (projectFile === undefined && fileProjectFile !== undefined) {
+    // Relative to the SDK configuration file that names it.
+    const { dirname, resolve } = await import("node:path");
+    projectFile = resolve(dirname(configFile!), fileProjectFile);
+  }
+
+  const project = projectFile
+    ? parseMcpdToml(await readConfigFile(projectFile), projectFile)
+    : undefined;
+
+  return {
+    clientOptions: {
+      apiEndpoint: DEFAULT_API_ENDPOINT,
+      ...withoutUndefined(fileOptions),
+      ...readEnvConfig(env),
+    },
+    project,
+  };
+}
+
+/**
+ * Parse a project's `.mcpd.toml`.
+ *
+ * Only the server names, packages and tool allow-lists are read; other
+ * settings are ignored.
+ *
+ * @param text - The contents of the file
+ * @param source - The path of the file, for error messages
+ * @returns The declared servers and tools
+ * @throws {ConfigurationError} If the file is not valid TOML, or declares
+ * servers incorrectly
+ *
+ * @example
+ * ```typescript
+ * const project = parseMcpdToml(`
+ * [[servers]]
+ *   name = "time"
+ *   tools = ["get_current_time"]
+ * `);
+ * // { servers: [{ name: "time", tools: ["get_current_time"] }] }
+ * ```
+ */
+export function parseMcpdToml(
+  text: string,
+  source = ".mcpd.toml",
+): McpdProjectConfig {
+  let document: unknown;
+  try {
+    document = parseToml(text);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Invalid TOML in '${source}': ${(error as Error).message}`,
+      source,
+      error as Error,
+    );
+  }
+
+  const result = projectConfigSchema.safeParse(document);
+  if (!result.success) {
+    throw new ConfigurationError(
+      `Invalid configuration in '${source}': ${formatIssues(result.error)}`,
+      source,
+      result.error,
+    );
+  }
+
+  return {
+    servers: result.data.servers.map(({ name, ...server }) => ({
+      name,
+      ...withoutUndefined(server),
+    })),
+  };
+}
+
+/**
+ * Get the getAgentTools filter for the servers and tools a project allows.
+ *
+ * @param project - The project configuration
+ * @returns The `servers` and `tools` options for `getAgentTools()`
+ *
+ * @example
+ * ```typescript
+ * const tools = await client.getAgentTools(agentToolsFilter(project));
+ * ```
+ */
+export function agentToolsFilter(
+  project: McpdProjectConfig,
+): Pick<BaseAgentToolsOptions, "servers" | "tools"> {
+  const servers = project.servers.map((server) => server.name);
+
+  // A server without an allow-list allows all of its tools.
+  if (project.servers.some((server) => server.tools === undefined)) {
+    return { servers };
+  }
+
+  return {
+    servers,
+    tools: project.servers.flatMap((server) =>
+      server.tools!.map((tool) => `${server.name}__${tool}`),
+    ),
+  };
+}
+
+/**
+ * Read and validate an environment variable.
+ */
+function readEnv<T>(
+  env: Environment,
+  name: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  expected: string,
+): T | undefined {
+  const raw = nonEmpty(env[name]);
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const result = schema.safeParse(raw.trim());
+  if (!result.success) {
+    throw new ConfigurationError(
+      `${name} must be ${expected}, got '${raw}'`,
+      name,
+      result.error,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Read and validate an SDK configuration file.
+ */
+async function readSdkConfig(
+  path: string,
+): Promise<z.infer<typeof sdkConfigSchema>> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await readConfigFile(path));
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      throw error;
+    }
+    throw new ConfigurationError(
+      `Invalid JSON in '${path}': ${(error as Error).message}`,
+      path,
+      error as Error,
+    );
+  }
+
+  const result = sdkConfigSchema.safeParse(json);
+  if (!result.success) {
+    throw new ConfigurationError(
+      `Invalid configuration in '${path}': ${formatIssues(result.error)}`,
+      path,
+      result.error,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Read a configuration file as text.
+ */
+async function readConfigFile(path: string): Promise<string> {
+  try {
+    // Imported lazily so the SDK still loads in runtimes without node:fs.
+    const { readFile } = await import("node:fs/promises");
+    return await readFile(path, "utf8");
+  } catch (error) {
+    throw new ConfigurationError(
+      `Failed to read configuration file '${path}': ${(error as Error).message}`,
+      path,
+      error as Error,
+    );
+  }
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join("; ");
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  return value?.trim() ? value : undefined;
+}
+
+/**
+ * Read the variables in ENV_VARS from the process environment.
+ */
+function processEnv(): Environment {
+  return Object.fromEntries(
+    Object.values(ENV_VARS).map((name) => [name, getEnvVar(name)]),
+  );
+}
+
+/**
+ * Drop undefined properties, as optional options may not be set to undefined.
+ */
+function withoutUndefined<T extends object>(
+  value: T,
+): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
@@ -15,6 +15,7 @@
 
 import { ToolNotFoundError } from "./errors";
 import type {
+  ClientToolResult,
   Tool,
   Prompt,
   Resource,
@@ -28,6 +29,7 @@ import type {
   GetResourcesFn,
   GetResourceTemplatesFn,
   ReadResourceFn,
+  RequestOptions,
 } from "./types";
 
 /**
@@ -49,10 +51,10 @@ import type {
  * }
  * ```
  */
-export class ServersNamespace {
-  [serverName: string]: Server;
+export class ServersNamespace<Legacy extends boolean = false> {
+  [serverName: string]: Server<Legacy>;
 
-  #performCall: PerformCallFn;
+  #performCall: PerformCallFn<ClientToolResult<Legacy>>;
   #getTools: GetToolsFn;
   #generatePrompt: GeneratePromptFn;
   #getPrompts: GetPromptsFn;
@@ -81,7 +83,7 @@ export class ServersNamespace {
     getResourceTemplates,
     readResource,
   }: {
-    performCall: PerformCallFn;
+    performCall: PerformCallFn<ClientToolResult<Legacy>>;
     getTools: GetToolsFn;
     generatePrompt: GeneratePromptFn;
     getPrompts: GetPromptsFn;
@@ -103,7 +105,7 @@ export class ServersNamespace {
         if (typeof serverName !== "string") {
           return undefined;
         }
-        return new Server(
+        return new Server<Legacy>(
           target.#performCall,
           target.#getTools,
           target.#generatePrompt,
@@ -136,11 +138,11 @@ export class ServersNamespace {
  * await timeServer.tools.get_current_time({ timezone: "UTC" })
  * ```
  */
-export class Server {
-  readonly tools: ToolsNamespace;
+export class Server<Legacy extends boolean = false> {
+  readonly tools: ToolsNamespace<Legacy>;
   readonly prompts: PromptsNamespace;
 
-  #performCall: PerformCallFn;
+  #performCall: PerformCallFn<ClientToolResult<Legacy>>;
   #getTools: GetToolsFn;
   #generatePrompt: GeneratePromptFn;
   #getPrompts: GetPromptsFn;
@@ -162,7 +164,7 @@ export class Server {
    * @param serverName - The name of the MCP server
    */
   constructor(
-    performCall: PerformCallFn,
+    performCall: PerformCallFn<ClientToolResult<Legacy>>,
     getTools: GetToolsFn,
     generatePrompt: GeneratePromptFn,
     getPrompts: GetPromptsFn,
@@ -181,7 +183,7 @@ export class Server {
     this.#serverName = serverName;
 
     // Create the tools namespace as a real property.
-    this.tools = new ToolsNamespace(
+    this.tools = new ToolsNamespace<Legacy>(
       this.#performCall,
       this.#getTools,
       this.#serverName,
@@ -198,6 +200,7 @@ export class Server {
   /**
    * Get all tools available on this server.
    *
+   * @param options - Per-call cancellation and timeout options
    * @returns Array of tool schemas
    * @throws {ServerNotFoundError} If the server doesn't exist
    * @throws {ServerUnhealthyError} If the server is unhealthy
@@ -210,8 +213,8 @@ export class Server {
    * }
    * ```
    */
-  async getTools(): Promise<Tool[]> {
-    return this.#getTools(this.#serverName);
+  async getTools(options?: RequestOptions): Promise<Tool[]> {
+    return this.#getTools(this.#serverName, options);
   }
 
   /**
@@ -225,6 +228,7 @@ export class Server {
    * without requiring error handling.
    *
    * @param toolName - The exact name of the tool to check
+   * @param options - Per-call cancellation and timeout options
    * @returns True if the tool exists, false otherwise (including on errors)
    *
    * @example
@@ -234,9 +238,9 @@ export class Server {
    * }
    * ```
    */
-  async hasTool(toolName: string): Promise<boolean> {
+  async hasTool(toolName: string, options?: RequestOptions): Promise<boolean> {
     try {
-      const tools = await this.#getTools(this.#serverName);
+      const tools = await this.#getTools(this.#serverName, options);
       return tools.some((t) => t.name === toolName);
     } catch {
       // Return false on any error to provide a safe boolean predicate.
@@ -250,10 +254,17 @@ export class Server {
    * This method is useful for programmatic tool invocation when the tool name
    * is in a variable. The tool name must match exactly as returned by the server.
    *
+   * The type of the result's structured content can be given as a type
+   * argument, e.g. derived from the tool's output schema with JsonSchemaType.
+   * Enable the client's `outputValidation` option to check it at runtime.
+   *
+   * @typeParam TStructured - The type of the result's structured content
    * @param toolName - The exact name of the tool to call
    * @param args - The arguments to pass to the tool
-   * @returns The tool's response
+   * @param options - Per-call cancellation and timeout options
+   * @returns The tool's result
    * @throws {ToolNotFoundError} If the tool doesn't exist on the server
+   * @throws {AbortedError} If the call is cancelled via the signal
    *
    * @example
    * ```typescript
@@ -264,14 +275,29 @@ export class Server {
    * // Or with dynamic server name:
    * const serverName = 'time';
    * await client.servers[serverName].callTool(toolName, { timezone: 'UTC' });
+   *
+   * // Cancel the call when the user aborts:
+   * const controller = new AbortController();
+   * await client.servers.time.callTool(toolName, { timezone: 'UTC' }, {
+   *   signal: controller.signal,
+   *   timeoutMs: 5000,
+   * });
+   *
+   * // Type the structured content from the tool's output schema:
+   * const result = await client.servers.time.callTool<
+   *   JsonSchemaType<typeof timeOutputSchema>
+   * >(toolName, { timezone: 'UTC' });
    * ```
    */
-  async callTool(
+  async callTool<
+    TStructured extends Record<string, unknown> = Record<string, unknown>,
+  >(
     toolName: string,
     args?: Record<string, unknown>,
-  ): Promise<unknown> {
+    options?: RequestOptions,
+  ): Promise<ClientToolResult<Legacy, TStructured>> {
     // Check if the tool exists (exact match only)
-    const tools = await this.#getTools(this.#serverName);
+    const tools = await this.#getTools(this.#serverName, options);
     const tool = tools.find((t) => t.name === toolName);
 
     if (!tool) {
@@ -284,7 +310,14 @@ export class Server {
     }
 
     // Perform the tool call
-    return this.#performCall(this.#serverName, toolName, args);
+    const result = await this.#performCall(
+      this.#serverName,
+      toolName,
+      args,
+      options,
+    );
+    // Structured content is typed by the caller, not checked here.
+    return result as ClientToolResult<Legacy, TStructured>;
   }
 
   /**
@@ -294,6 +327,7 @@ export class Server {
    * even though it doesn't directly await. This maintains a uniform async interface
    * and allows for future enhancements without breaking the API contract.
    *
+   * @param options - Per-call cancellation and timeout options
    * @returns Array of prompt schemas
    * @throws {ServerNotFoundError} If the server doesn't exist
    * @throws {ServerUnhealthyError} If the server is unhealthy
@@ -306,8 +340,8 @@ export class Server {
    * }
    * ```
    */
-  async getPrompts(): Promise<Prompt[]> {
-    return this.#getPrompts(this.#serverName);
+  async getPrompts(options?: RequestOptions): Promise<Prompt[]> {
+    return this.#getPrompts(this.#serverName, options);
   }
 
   /**
@@ -321,6 +355,7 @@ export class Server {
    * without requiring error handling.
    *
    * @param promptName - The exact name of the prompt to check
+   * @param options - Per-call cancellation and timeout options
    * @returns True if the prompt exists, false otherwise (including on errors)
    *
    * @example
@@ -330,9 +365,12 @@ export class Server {
    * }
    * ```
    */
-  async hasPrompt(promptName: string): Promise<boolean> {
+  async hasPrompt(
+    promptName: string,
+    options?: RequestOptions,
+  ): Promise<boolean> {
     try {
-      const prompts = await this.#getPrompts(this.#serverName);
+      const prompts = await this.#getPrompts(this.#serverName, options);
       return prompts.some((p) => p.name === promptName);
     } catch {
       // Return false on any error to provide a safe boolean predicate.
@@ -348,8 +386,10 @@ export class Server {
    *
    * @param promptName - The exact name of the prompt to generate
    * @param args - The arguments to pass to the prompt template
+   * @param options - Per-call cancellation and timeout options
    * @returns The generated prompt response
    * @throws {ToolNotFoundError} If the prompt doesn't exist on the server
+   * @throws {AbortedError} If the call is cancelled via the signal
    *
    * @example
    * ```typescript
@@ -365,9 +405,10 @@ export class Server {
   async generatePrompt(
     promptName: string,
     args?: Record<string, string>,
+    options?: RequestOptions,
   ): Promise<GeneratePromptResponseBody> {
     // Check if the prompt exists (exact match only).
-    const prompts = await this.#getPrompts(this.#serverName);
+    const prompts = await this.#getPrompts(this.#serverName, options);
     const prompt = prompts.find((p) => p.name === promptName);
 
     if (!prompt) {
@@ -380,7 +421,7 @@ export class Server {
     }
 
     // Generate the prompt.
-    return this.#generatePrompt(this.#serverName, promptName, args);
+    return this.#generatePrompt(this.#serverName, promptName, args, options);
   }
 
   /**
@@ -390,6 +431,7 @@ export class Server {
    * even though it doesn't directly await. This maintains a uniform async interface
    * and allows for future enhancements without breaking the API contract.
    *
+   * @param options - Per-call cancellation and timeout options
    * @returns Array of resource schemas with original names
    * @throws {ServerNotFoundError} If the server doesn't exist
    * @throws {ServerUnhealthyError} If the server is unhealthy
@@ -402,8 +444,8 @@ export class Server {
    * }
    * ```
    */
-  async getResources(): Promise<Resource[]> {
-    return this.#getResources(this.#serverName);
+  async getResources(options?: RequestOptions): Promise<Resource[]> {
+    return this.#getResources(this.#serverName, options);
   }
 
   /**
@@ -413,6 +455,7 @@ export class Server {
    * even though it doesn't directly await. This maintains a uniform async interface
    * and allows for future enhancements without breaking the API contract.
    *
+   * @param options - Per-call cancellation and timeout options
    * @returns Array of resource template schemas with original names
    * @throws {ServerNotFoundError} If the server doesn't exist
    * @throws {ServerUnhealthyError} If the server is unhealthy
@@ -425,8 +468,10 @@ export class Server {
    * }
    * ```
    */
-  async getResourceTemplates(): Promise<ResourceTemplate[]> {
-    return this.#getResourceTemplates(this.#serverName);
+  async getResourceTemplates(
+    options?: RequestOptions,
+  ): Promise<ResourceTemplate[]> {
+    return this.#getResourceTemplates(this.#serverName, options);
   }
 
   /**
@@ -440,6 +485,7 @@ export class Server {
    * without requiring error handling.
    *
    * @param uri - The exact URI of the resource to check
+   * @param options - Per-call cancellation and timeout options
    * @returns True if the resource exists, false otherwise (including on errors)
    *
    * @example
@@ -449,9 +495,9 @@ export class Server {
    * }
    * ```
    */
-  async hasResource(uri: string): Promise<boolean> {
+  async hasResource(uri: string, options?: RequestOptions): Promise<boolean> {
     try {
-      const resources = await this.#getResources(this.#serverName);
+      const resources = await this.#getResources(this.#serverName, options);
       return resources.some((r) => r.uri === uri);
     } catch {
       // Return false on any error to provide a safe boolean predicate.
@@ -463,9 +509,11 @@ export class Server {
    * Read resource content by URI from this server.
    *
    * @param uri - The resource URI
+   * @param options - Per-call cancellation and timeout options
    * @returns Array of resource contents (text or blob)
    * @throws {ServerNotFoundError} If the server doesn't exist
    * @throws {ServerUnhealthyError} If the server is unhealthy
+   * @throws {AbortedError} If the call is cancelled via the signal
    *
    * @example
    * ```typescript
@@ -479,8 +527,11 @@ export class Server {
    * }
    * ```
    */
-  async readResource(uri: string): Promise<ResourceContent[]> {
-    return this.#readResource(this.#serverName, uri);
+  async readResource(
+    uri: string,
+    options?: RequestOptions,
+  ): Promise<ResourceContent[]> {
+    return this.#readResource(this.#serverName, uri, options);
   }
 }
 
@@ -499,12 +550,29 @@ export class Server {
  * ```typescript
  * // Call tools via .tools namespace with static names
  * const result = await client.servers.time.tools.get_current_time({ timezone: "UTC" });
+ *
+ * // Pass per-call options as the second argument
+ * const controller = new AbortController();
+ * await client.servers.time.tools.get_current_time(
+ *   { timezone: "UTC" },
+ *   { signal: controller.signal, timeoutMs: 5000 },
+ * );
+ *
+ * // Type the structured content from the tool's output schema
+ * const { structuredContent } = await client.servers.time.tools.get_current_time<
+ *   JsonSchemaType<typeof timeOutputSchema>
+ * >({ timezone: "UTC" });
  * ```
  */
-export class ToolsNamespace {
-  [toolName: string]: (args?: Record<string, unknown>) => Promise<unknown>;
+export class ToolsNamespace<Legacy extends boolean = false> {
+  [toolName: string]: <
+    TStructured extends Record<string, unknown> = Record<string, unknown>,
+  >(
+    args?: Record<string, unknown>,
+    options?: RequestOptions,
+  ) => Promise<ClientToolResult<Legacy, TStructured>>;
 
-  #performCall: PerformCallFn;
+  #performCall: PerformCallFn<ClientToolResult<Legacy>>;
   #getTools: GetToolsFn;
   #serverName: string;
 
@@ -516,7 +584,7 @@ export class ToolsNamespace {
    * @param serverName - The name of the MCP server
    */
   constructor(
-    performCall: PerformCallFn,
+    performCall: PerformCallFn<ClientToolResult<Legacy>>,
     getTools: GetToolsFn,
     serverName: string,
   ) {
@@ -532,11 +600,14 @@ export class ToolsNamespace {
         }
 
         // Return a function that will call the tool with exact name matching
-        return async (args?: Record<string, unknown>) => {
+        return async (
+          args?: Record<string, unknown>,
+          options?: RequestOptions,
+        ) => {
           const toolName = prop;
 
           // Check if the tool exists (exact match only)
-          const tools = await target.#getTools(target.#serverName);
+          const tools = await target.#getTools(target.#serverName, options);
           const tool = tools.find((t) => t.name === toolName);
 
           if (!tool) {
@@ -549,7 +620,12 @@ export class ToolsNamespace {
           }
 
           // Perform the tool call
-          return target.#performCall(target.#serverName, toolName, args);
+          return target.#performCall(
+            target.#serverName,
+            toolName,
+            args,
+            options,
+          );
         };
       },
     });
@@ -579,6 +655,7 @@ export class ToolsNamespace {
 export class PromptsNamespace {
   [promptName: string]: (
     args?: Record<string, string>,
+    options?: RequestOptions,
   ) => Promise<GeneratePromptResponseBody>;
 
   #generatePrompt: GeneratePromptFn;
@@ -609,11 +686,14 @@ export class PromptsNamespace {
         }
 
         // Return a function that will generate the prompt with exact name matching.
-        return async (args?: Record<string, string>) => {
+        return async (
+          args?: Record<string, string>,
+          options?: RequestOptions,
+        ) => {
           const promptName = prop;
 
           // Check if the prompt exists (exact match only).
-          const prompt = await target.#getPromptByName(promptName);
+          const prompt = await target.#getPromptByName(promptName, options);
 
           if (!prompt) {
             throw new ToolNotFoundError(
@@ -625,7 +705,12 @@ export class PromptsNamespace {
           }
 
           // Generate the prompt.
-          return target.#generatePrompt(target.#serverName, promptName, args);
+          return target.#generatePrompt(
+            target.#serverName,
+            promptName,
+            args,
+            options,
+          );
         };
       },
     });
@@ -635,11 +720,15 @@ export class PromptsNamespace {
    * Helper method to find a prompt by name on this server.
    *
    * @param promptName - The exact name of the prompt to find
+   * @param options - Per-call cancellation and timeout options
    * @returns The prompt if found, undefined otherwise
    * @internal
    */
-  async #getPromptByName(promptName: string): Promise<Prompt | undefined> {
-    const prompts = await this.#getPrompts(this.#serverName);
+  async #getPromptByName(
+    promptName: string,
+    options?: RequestOptions,
+  ): Promise<Prompt | undefined> {
+    const prompts = await this.#getPrompts(this.#serverName, options);
     return prompts.find((p) => p.name === promptName);
   }
 }
@@ -5,7 +5,12 @@
  * different error scenarios appropriately.
  */
 
-import type { ErrorModel } from "./types";
+import {
+  HealthStatusHelpers,
+  type ErrorDetail,
+  type ErrorModel,
+  type OutputValidationIssue,
+} from "./types";
 
 /**
  * Pipeline flow constant for request processing failures.
@@ -24,19 +29,151 @@ export type PipelineFlow =
   | typeof PIPELINE_FLOW_REQUEST
   | typeof PIPELINE_FLOW_RESPONSE;
 
+/**
+ * Details of the daemon request an error relates to.
+ */
+export interface McpdErrorContext {
+  /**
+   * HTTP status code of the daemon response, if one was received.
+   */
+  status?: number | undefined;
+
+  /**
+   * Parsed error body of the daemon response, if it was an ErrorModel.
+   */
+  errorModel?: ErrorModel | undefined;
+
+  /**
+   * API path of the request (see API_PATHS).
+   */
+  path?: string | undefined;
+}
+
+/**
+ * HTTP status codes that indicate a transient daemon or gateway failure.
+ */
+const TRANSIENT_STATUS_CODES: ReadonlySet<number> = new Set([502, 503, 504]);
+
+/**
+ * Health status reported for servers whose circuit breaker is open.
+ */
+const CIRCUIT_OPEN_STATUS = "circuit_open";
+
+/**
+ * Maximum number of nested causes included when serializing an error.
+ */
+const MAX_SERIALIZED_CAUSE_DEPTH = 10;
+
+/**
+ * Omit the error's constructors from its stack trace, where supported.
+ *
+ * `Error.captureStackTrace` is V8-specific; in other runtimes the stack
+ * recorded when the error was created is kept.
+ */
+function captureStackTrace(error: Error): void {
+  if (typeof Error.captureStackTrace === "function") {
+    Error.captureStackTrace(error, error.constructor);
+  }
+}
+
+/**
+ * JSON form of an error in the cause chain of an McpdError.
+ *
+ * Errors that are not McpdErrors keep their name, message and, if present,
+ * string `code` (e.g. Node.js system error codes such as ECONNREFUSED).
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  cause?: SerializedError;
+  [field: string]: unknown;
+}
+
+/**
+ * JSON form of an McpdError, as returned by {@link McpdError.toJSON}.
+ *
+ * Besides the fields listed here, it contains every defined public field of
+ * the error class (e.g. `serverName`, `toolName`, `healthStatus`,
+ * `pipelineFlow`, `status`, `errorModel`). Stack traces are not included.
+ */
+export interface McpdErrorJSON extends SerializedError {
+  code: string;
+  isRetryable: boolean;
+}
+
 /**
  * Base exception for all mcpd SDK errors.
  *
  * This exception wraps all errors that occur during interaction with the mcpd daemon,
  * including network failures, authentication errors, server errors, and tool execution
  * failures. The original exception is preserved via the cause property for debugging.
+ *
+ * Errors raised for a daemon request expose the request path and, when the daemon
+ * responded, the HTTP status and parsed ErrorModel.
  */
 export class McpdError extends Error {
-  constructor(message: string, cause?: Error) {
+  public readonly status: number | undefined;
+  public readonly errorModel: ErrorModel | undefined;
+  public readonly path: string | undefined;
+
+  constructor(message: string, cause?: Error, context: McpdErrorContext = {}) {
     super(message);
     this.name = "McpdError";
     this.cause = cause;
-    Error.captureStackTrace(this, this.constructor);
+    this.status = context.status;
+    this.errorModel = context.errorModel;
+    this.path = context.path;
+    captureStackTrace(this);
+  }
+
+  /**
+   * Stable code identifying the kind of error, e.g. `MCPD_SERVER_UNHEALTHY`.
+   *
+   * Unlike `instanceof` checks, the code survives serialization.
+   */
+  get code(): string {
+    return "MCPD_ERROR";
+  }
+
+  /**
+   * Whether the failed operation may succeed if it is retried unchanged.
+   */
+  get isRetryable(): boolean {
+    return this.status !== undefined && TRANSIENT_STATUS_CODES.has(this.status);
+  }
+
+  /**
+   * Serialize the error, including its cause chain, to a plain JSON object.
+   *
+   * Called by `JSON.stringify`, so errors can be forwarded across process
+   * boundaries and rebuilt with {@link McpdError.fromJSON}.
+   *
+   * @returns The JSON form of the error
+   */
+  toJSON(): McpdErrorJSON {
+    return serializeError(this, 0) as McpdErrorJSON;
+  }
+
+  /**
+   * Rebuild an error from its JSON form.
+   *
+   * The subclass is chosen by `code`; unknown codes produce a plain McpdError.
+   * The cause chain is rebuilt as well, with causes that were not McpdErrors
+   * becoming plain Errors.
+   *
+   * @param json - JSON form produced by {@link McpdError.toJSON}
+   * @returns An error of the class that was serialized
+   */
+  static fromJSON(json: McpdErrorJSON): McpdError {
+    const factory = ERROR_FACTORIES[json.code] ?? createMcpdError;
+    const cause = json.cause ? deserializeError(json.cause) : undefined;
+    const context: McpdErrorContext = {
+      status: numberField(json, "status"),
+      errorModel: json.errorModel as ErrorModel | undefined,
+      path: stringField(json, "path"),
+    };
+    return factory(json, cause, context);
   }
 }
 
@@ -50,10 +187,18 @@ export class McpdError extends Error {
  * - Firewall blocking the connection
  */
 export class ConnectionError extends McpdError {
-  constructor(message: string, cause?: Error) {
-    super(message, cause);
+  constructor(message: string, cause?: Error, context?: McpdErrorContext) {
+    super(message, cause, context);
     this.name = "ConnectionError";
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_CONNECTION";
+  }
+
+  override get isRetryable(): boolean {
+    return true;
   }
 }
 
@@ -66,10 +211,18 @@ export class ConnectionError extends McpdError {
  * - The authentication method is not supported
  */
 export class AuthenticationError extends McpdError {
-  constructor(message: string, cause?: Error) {
-    super(message, cause);
+  constructor(message: string, cause?: Error, context?: McpdErrorContext) {
+    super(message, cause, context);
     this.name = "AuthenticationError";
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_AUTHENTICATION";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
   }
 }
 
@@ -84,11 +237,24 @@ export class AuthenticationError extends McpdError {
 export class ServerNotFoundError extends McpdError {
   public readonly serverName: string | undefined;
 
-  constructor(message: string, serverName?: string, cause?: Error) {
-    super(message, cause);
+  constructor(
+    message: string,
+    serverName?: string,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
     this.name = "ServerNotFoundError";
     this.serverName = serverName;
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_SERVER_NOT_FOUND";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
   }
 }
 
@@ -109,12 +275,28 @@ export class ServerUnhealthyError extends McpdError {
     serverName: string,
     healthStatus: string,
     cause?: Error,
+    context?: McpdErrorContext,
   ) {
-    super(message, cause);
+    super(message, cause, context);
     this.name = "ServerUnhealthyError";
     this.serverName = serverName;
     this.healthStatus = healthStatus;
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_SERVER_UNHEALTHY";
+  }
+
+  /**
+   * True for transient health states (timeout, unknown) and for servers whose
+   * circuit breaker is open, which accept calls again after the cooldown.
+   */
+  override get isRetryable(): boolean {
+    return (
+      HealthStatusHelpers.isTransient(this.healthStatus) ||
+      this.healthStatus === CIRCUIT_OPEN_STATUS
+    );
   }
 }
 
@@ -135,12 +317,87 @@ export class ToolNotFoundError extends McpdError {
     serverName?: string,
     toolName?: string,
     cause?: Error,
+    context?: McpdErrorContext,
   ) {
-    super(message, cause);
+    super(message, cause, context);
     this.name = "ToolNotFoundError";
     this.serverName = serverName;
     this.toolName = toolName;
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_TOOL_NOT_FOUND";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Raised when a specified prompt doesn't exist on a server.
+ *
+ * This error occurs when the daemon responds with 404 Not Found to a request
+ * for a prompt that doesn't exist or has been removed.
+ */
+export class PromptNotFoundError extends McpdError {
+  public readonly serverName: string | undefined;
+  public readonly promptName: string | undefined;
+
+  constructor(
+    message: string,
+    serverName?: string,
+    promptName?: string,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "PromptNotFoundError";
+    this.serverName = serverName;
+    this.promptName = promptName;
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_PROMPT_NOT_FOUND";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Raised when a specified resource doesn't exist on a server.
+ *
+ * This error occurs when the daemon responds with 404 Not Found to a request
+ * for a resource URI that doesn't exist or has been removed.
+ */
+export class ResourceNotFoundError extends McpdError {
+  public readonly serverName: string | undefined;
+  public readonly uri: string | undefined;
+
+  constructor(
+    message: string,
+    serverName?: string,
+    uri?: string,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "ResourceNotFoundError";
+    this.serverName = serverName;
+    this.uri = uri;
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_RESOURCE_NOT_FOUND";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
   }
 }
 
@@ -156,7 +413,6 @@ export class ToolNotFoundError extends McpdError {
 export class ToolExecutionError extends McpdError {
   public readonly serverName: string | undefined;
   public readonly toolName: string | undefined;
-  public readonly errorModel: ErrorModel | undefined;
 
   constructor(
     message: string,
@@ -164,13 +420,20 @@ export class ToolExecutionError extends McpdError {
     toolName?: string,
     errorModel?: ErrorModel,
     cause?: Error,
+    context?: McpdErrorContext,
   ) {
-    super(message, cause);
+    super(message, cause, {
+      ...context,
+      errorModel: errorModel ?? context?.errorModel,
+    });
     this.name = "ToolExecutionError";
     this.serverName = serverName;
     this.toolName = toolName;
-    this.errorModel = errorModel;
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_TOOL_EXECUTION";
   }
 }
 
@@ -185,11 +448,31 @@ export class ToolExecutionError extends McpdError {
 export class ValidationError extends McpdError {
   public readonly validationErrors: string[];
 
-  constructor(message: string, validationErrors?: string[], cause?: Error) {
-    super(message, cause);
+  /**
+   * Structured validation errors reported by the daemon, if any.
+   */
+  get details(): ErrorDetail[] {
+    return this.errorModel?.errors ?? [];
+  }
+
+  constructor(
+    message: string,
+    validationErrors?: string[],
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
     this.name = "ValidationError";
     this.validationErrors = validationErrors || [];
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_VALIDATION";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
   }
 }
 
@@ -210,12 +493,21 @@ export class TimeoutError extends McpdError {
     operation?: string,
     timeout?: number,
     cause?: Error,
+    context?: McpdErrorContext,
   ) {
-    super(message, cause);
+    super(message, cause, context);
     this.name = "TimeoutError";
     this.operation = operation;
     this.timeout = timeout;
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_TIMEOUT";
+  }
+
+  override get isRetryable(): boolean {
+    return true;
   }
 }
 
@@ -280,12 +572,547 @@ export class PipelineError extends McpdError {
     operation?: string,
     pipelineFlow?: PipelineFlow,
     cause?: Error,
+    context?: McpdErrorContext,
   ) {
-    super(message, cause);
+    super(message, cause, context);
     this.name = "PipelineError";
     this.serverName = serverName;
     this.operation = operation;
     this.pipelineFlow = pipelineFlow;
-    Error.captureStackTrace(this, this.constructor);
+    captureStackTrace(this);
+  }
+
+  /**
+   * MCPD_PIPELINE_REQUEST or MCPD_PIPELINE_RESPONSE depending on the pipeline
+   * flow, or MCPD_PIPELINE when the flow is not known.
+   */
+  override get code(): string {
+    switch (this.pipelineFlow) {
+      case PIPELINE_FLOW_REQUEST:
+        return "MCPD_PIPELINE_REQUEST";
+      case PIPELINE_FLOW_RESPONSE:
+        return "MCPD_PIPELINE_RESPONSE";
+      default:
+        return "MCPD_PIPELINE";
+    }
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Raised when an operation is cancelled by the caller via an AbortSignal.
+ *
+ * This is distinct from {@link TimeoutError}: a timeout is raised by the SDK
+ * when a request exceeds its time budget, whereas an abort is requested
+ * explicitly by the caller (e.g. when a user cancels an agent run).
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const pending = client.servers.time.tools.get_current_time(
+ *   { timezone: 'UTC' },
+ *   { signal: controller.signal },
+ * );
+ *
+ * controller.abort();
+ *
+ * try {
+ *   await pending;
+ * } catch (error) {
+ *   if (error instanceof AbortedError) {
+ *     console.log('Tool call was cancelled');
+ *   }
+ * }
+ * ```
+ */
+export class AbortedError extends McpdError {
+  public readonly operation: string | undefined;
+
+  constructor(
+    message: string,
+    operation?: string,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "AbortedError";
+    this.operation = operation;
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_ABORTED";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Raised when a tool call is rejected because the client's call queue is full.
+ *
+ * This error occurs when client-side limits are configured (see the `limits`
+ * option) and more calls are waiting for a concurrency slot or rate limit
+ * token than `limits.maxQueueSize` allows.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.servers.time.tools.get_current_time();
+ * } catch (error) {
+ *   if (error instanceof QueueFullError) {
+ *     console.log(`Too many pending calls (max ${error.maxQueueSize})`);
+ *   }
+ * }
+ * ```
+ */
+export class QueueFullError extends McpdError {
+  public readonly serverName: string | undefined;
+  public readonly maxQueueSize: number | undefined;
+
+  constructor(
+    message: string,
+    serverName?: string,
+    maxQueueSize?: number,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "QueueFullError";
+    this.serverName = serverName;
+    this.maxQueueSize = maxQueueSize;
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_QUEUE_FULL";
+  }
+
+  override get isRetryable(): boolean {
+    return true;
   }
 }
+
+/**
+ * Raised when the mcpd daemon rejects a request because of rate limiting.
+ *
+ * This error occurs when the daemon responds with 429 Too Many Requests.
+ * When the response includes a `Retry-After` header, `retryAfter` holds the
+ * number of seconds to wait before retrying.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.servers.github.tools.search_repositories({ query: 'mcp' });
+ * } catch (error) {
+ *   if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+ *     await new Promise((r) => setTimeout(r, error.retryAfter * 1000));
+ *   }
+ * }
+ * ```
+ */
+export class RateLimitError extends McpdError {
+  public readonly retryAfter: number | undefined;
+
+  constructor(
+    message: string,
+    retryAfter?: number,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_RATE_LIMITED";
+  }
+
+  override get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Raised when SDK configuration is missing or invalid.
+ *
+ * `source` names where the invalid configuration came from: an environment
+ * variable such as `MCPD_TIMEOUT`, or the path of a configuration file.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const client = McpdClient.fromEnv();
+ * } catch (error) {
+ *   if (error instanceof ConfigurationError) {
+ *     console.error(`Invalid configuration in ${error.source}: ${error.message}`);
+ *   }
+ * }
+ * ```
+ */
+export class ConfigurationError extends McpdError {
+  public readonly source: string | undefined;
+
+  constructor(
+    message: string,
+    source?: string,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "ConfigurationError";
+    this.source = source;
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_CONFIGURATION";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Raised when the daemon or a server doesn't support a requested capability.
+ *
+ * This error occurs when the daemon responds with 501 Not Implemented, e.g.
+ * when listing the prompts of a server that doesn't support prompts. The
+ * `capability` names what was requested, such as `prompts` or `resources`.
+ */
+export class CapabilityNotSupportedError extends McpdError {
+  public readonly capability: string | undefined;
+  public readonly serverName: string | undefined;
+
+  constructor(
+    message: string,
+    capability?: string,
+    serverName?: string,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "CapabilityNotSupportedError";
+    this.capability = capability;
+    this.serverName = serverName;
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_CAPABILITY_NOT_SUPPORTED";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Raised when a tool's structured output doesn't match its output schema.
+ *
+ * This error is only raised when output validation is enabled in strict mode.
+ * Each issue locates the offending value with a JSON pointer into the
+ * structured content, e.g. `/forecast/0/temperature`.
+ */
+export class OutputValidationError extends McpdError {
+  public readonly serverName: string | undefined;
+  public readonly toolName: string | undefined;
+  public readonly issues: OutputValidationIssue[];
+
+  constructor(
+    message: string,
+    serverName?: string,
+    toolName?: string,
+    issues?: OutputValidationIssue[],
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "OutputValidationError";
+    this.serverName = serverName;
+    this.toolName = toolName;
+    this.issues = issues || [];
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_OUTPUT_VALIDATION";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Raised when content is larger than the allowed size.
+ *
+ * This error occurs when decoding binary tool or resource content whose
+ * decoded size exceeds the `maxBytes` limit. The content is rejected before
+ * it is decoded.
+ */
+export class ContentTooLargeError extends McpdError {
+  public readonly size: number | undefined;
+  public readonly maxBytes: number | undefined;
+
+  constructor(
+    message: string,
+    size?: number,
+    maxBytes?: number,
+    cause?: Error,
+    context?: McpdErrorContext,
+  ) {
+    super(message, cause, context);
+    this.name = "ContentTooLargeError";
+    this.size = size;
+    this.maxBytes = maxBytes;
+    captureStackTrace(this);
+  }
+
+  override get code(): string {
+    return "MCPD_CONTENT_TOO_LARGE";
+  }
+
+  override get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Serialize an error and its cause chain.
+ */
+function serializeError(error: Error, depth: number): SerializedError {
+  const json: SerializedError = { name: error.name, message: error.message };
+
+  if (error instanceof McpdError) {
+    json.code = error.code;
+    json.isRetryable = error.isRetryable;
+    for (const [key, value] of Object.entries(error)) {
+      if (value !== undefined && !(key in json) && key !== "cause") {
+        json[key] = value;
+      }
+    }
+  } else {
+    const { code } = error as { code?: unknown };
+    if (typeof code === "string") {
+      json.code = code;
+    }
+  }
+
+  if (error.cause instanceof Error && depth < MAX_SERIALIZED_CAUSE_DEPTH) {
+    json.cause = serializeError(error.cause, depth + 1);
+  }
+
+  return json;
+}
+
+/**
+ * Rebuild an error in a cause chain from its JSON form.
+ */
+function deserializeError(json: SerializedError): Error {
+  if (typeof json.isRetryable === "boolean" && json.code !== undefined) {
+    return McpdError.fromJSON(json as McpdErrorJSON);
+  }
+
+  const cause = json.cause ? deserializeError(json.cause) : undefined;
+  const error = new Error(json.message, cause ? { cause } : undefined);
+  error.name = json.name;
+  if (json.code !== undefined) {
+    Object.assign(error, { code: json.code });
+  }
+  return error;
+}
+
+/**
+ * Read an optional string field of a serialized error.
+ */
+function stringField(json: McpdErrorJSON, key: string): string | undefined {
+  const value = json[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Read an optional number field of a serialized error.
+ */
+function numberField(json: McpdErrorJSON, key: string): number | undefined {
+  const value = json[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Check whether a serialized value is an output validation issue.
+ */
+function isOutputValidationIssue(
+  value: unknown,
+): value is OutputValidationIssue {
+  const issue = value as Partial<OutputValidationIssue> | null;
+  return typeof issue?.path === "string" && typeof issue.message === "string";
+}
+
+/**
+ * Rebuilds an error of a specific class from its JSON form.
+ */
+type ErrorFactory = (
+  json: McpdErrorJSON,
+  cause: Error | undefined,
+  context: McpdErrorContext,
+) => McpdError;
+
+const createMcpdError: ErrorFactory = (json, cause, context) =>
+  new McpdError(json.message, cause, context);
+
+const createPipelineError: ErrorFactory = (json, cause, context) => {
+  const flow = json.pipelineFlow;
+  return new PipelineError(
+    json.message,
+    stringField(json, "serverName"),
+    stringField(json, "operation"),
+    flow === PIPELINE_FLOW_REQUEST || flow === PIPELINE_FLOW_RESPONSE
+      ? flow
+      : undefined,
+    cause,
+    context,
+  );
+};
+
+/**
+ * Error factories keyed by error code.
+ */
+const ERROR_FACTORIES: Record<string, ErrorFactory | undefined> = {
+  MCPD_ERROR: createMcpdError,
+  MCPD_CONNECTION: (json, cause, context) =>
+    new ConnectionError(json.message, cause, context),
+  MCPD_AUTHENTICATION: (json, cause, context) =>
+    new AuthenticationError(json.message, cause, context),
+  MCPD_SERVER_NOT_FOUND: (json, cause, context) =>
+    new ServerNotFoundError(
+      json.message,
+      stringField(json, "serverName"),
+      cause,
+      context,
+    ),
+  MCPD_SERVER_UNHEALTHY: (json, cause, context) =>
+    new ServerUnhealthyError(
+      json.message,
+      stringField(json, "serverName") ?? "",
+      stringField(json, "healthStatus") ?? "",
+      cause,
+      context,
+    ),
+  MCPD_TOOL_NOT_FOUND: (json, cause, context) =>
+    new ToolNotFoundError(
+      json.message,
+      stringField(json, "serverName"),
+      stringField(json, "toolName"),
+      cause,
+      context,
+    ),
+  MCPD_PROMPT_NOT_FOUND: (json, cause, context) =>
+    new PromptNotFoundError(
+      json.message,
+      stringField(json, "serverName"),
+      stringField(json, "promptName"),
+      cause,
+      context,
+    ),
+  MCPD_RESOURCE_NOT_FOUND: (json, cause, context) =>
+    new ResourceNotFoundError(
+      json.message,
+      stringField(json, "serverName"),
+      stringField(json, "uri"),
+      cause,
+      context,
+    ),
+  MCPD_TOOL_EXECUTION: (json, cause, context) =>
+    new ToolExecutionError(
+      json.message,
+      stringField(json, "serverName"),
+      stringField(json, "toolName"),
+      undefined,
+      cause,
+      context,
+    ),
+  MCPD_VALIDATION: (json, cause, context) =>
+    new ValidationError(
+      json.message,
+      Array.isArray(json.validationErrors)
+        ? json.validationErrors.filter((e) => typeof e === "string")
+        : undefined,
+      cause,
+      context,
+    ),
+  MCPD_TIMEOUT: (json, cause, context) =>
+    new TimeoutError(
+      json.message,
+      stringField(json, "operation"),
+      numberField(json, "timeout"),
+      cause,
+      context,
+    ),
+  MCPD_PIPELINE: createPipelineError,
+  MCPD_PIPELINE_REQUEST: createPipelineError,
+  MCPD_PIPELINE_RESPONSE: createPipelineError,
+  MCPD_ABORTED: (json, cause, context) =>
+    new AbortedError(
+      json.message,
+      stringField(json, "operation"),
+      cause,
+      context,
+    ),
+  MCPD_QUEUE_FULL: (json, cause, context) =>
+    new QueueFullError(
+      json.message,
+      stringField(json, "serverName"),
+      numberField(json, "maxQueueSize"),
+      cause,
+      context,
+    ),
+  MCPD_RATE_LIMITED: (json, cause, context) =>
+    new RateLimitError(
+      json.message,
+      numberField(json, "retryAfter"),
+      cause,
+      context,
+    ),
+  MCPD_CONFIGURATION: (json, cause, context) =>
+    new ConfigurationError(
+      json.message,
+      stringField(json, "source"),
+      cause,
+      context,
+    ),
+  MCPD_CAPABILITY_NOT_SUPPORTED: (json, cause, context) =>
+    new CapabilityNotSupportedError(
+      json.message,
+      stringField(json, "capability"),
+      stringField(json, "serverName"),
+      cause,
+      context,
+    ),
+  MCPD_OUTPUT_VALIDATION: (json, cause, context) =>
+    new OutputValidationError(
+      json.message,
+      stringField(json, "serverName"),
+      stringField(json, "toolName"),
+      Array.isArray(json.issues)
+        ? json.issues.filter(isOutputValidationIssue)
+        : undefined,
+      cause,
+      context,
+    ),
+  MCPD_CONTENT_TOO_LARGE: (json, cause, context) =>
+    new ContentTooLargeError(
+      json.message,
+      numberField(json, "size"),
+      numberField(json, "maxBytes"),
+      cause,
+      context,
+    ),
+};
@@ -0,0 +1,255 @@
+/**
+ * Lifecycle events for the mcpd SDK.
+ *
+ * This module defines the events emitted by McpdClient while it talks to the
+ * mcpd daemon, and the small typed event emitter that delivers them. It has no
+ * dependency on Node.js, so events work in every runtime the SDK supports.
+ */
+
+import type { Logger } from "./logger";
+
+/**
+ * Payload of the `request:start` event.
+ */
+export interface RequestStartEvent {
+  method: string;
+
+  /**
+   * API path of the request (see API_PATHS).
+   */
+  path: string;
+  serverName?: string;
+  toolName?: string;
+  promptName?: string;
+  resourceUri?: string;
+}
+
+/**
+ * Payload of the `request:end` event.
+ */
+export interface RequestEndEvent extends RequestStartEvent {
+  /**
+   * Time from the start of the request until it completed, including
+   * retries, in milliseconds.
+   */
+  durationMs: number;
+
+  /**
+   * The error the request failed with, if it failed.
+   */
+  error?: Error;
+}
+
+/**
+ * Payload of the `tool:call` event.
+ */
+export interface ToolCallEvent {
+  serverName: string;
+  toolName: string;
+  args: Record<string, unknown> | undefined;
+}
+
+/**
+ * Payload of the `tool:result` event.
+ */
+export interface ToolResultEvent {
+  serverName: string;
+  toolName: string;
+  durationMs: number;
+  result: unknown;
+}
+
+/**
+ * Payload of the `tool:error` event.
+ */
+export interface ToolErrorEvent {
+  serverName: string;
+  toolName: string;
+  durationMs: number;
+  error: Error;
+}
+
+/**
+ * Payload of the `health:changed` event.
+ */
+export interface HealthChangedEvent {
+  serverName: string;
+
+  /**
+   * The previously observed health status, undefined on first observation.
+   */
+  previousStatus: string | undefined;
+
+  /**
+   * The new health status, e.g. `ok`, `timeout`, or `circuit_open` when the
+   * server's circuit breaker opens.
+   */
+  status: string;
+}
+
+/**
+ * Payload of the `cache:cleared` event.
+ */
+export interface CacheClearedEvent {
+  cache: "health" | "tools" | "agent_tools";
+
+  /**
+   * The server whose entry was cleared, undefined when the whole cache was.
+   */
+  serverName?: string;
+}
+
+/**
+ * Payload of the `agentTools:refreshed` event.
+ */
+export interface AgentToolsRefreshedEvent {
+  /**
+   * Number of agent functions generated.
+   */
+  count: number;
+
+  /**
+   * Healthy servers whose tools were fetched.
+   */
+  servers: string[];
+  durationMs: number;
+}
+
+/**
+ * Events emitted by McpdClient, keyed by event name.
+ */
+export interface McpdClientEvents {
+  /**
+   * A request to the daemon is starting.
+   */
+  "request:start": RequestStartEvent;
+
+  /**
+   * A request to the daemon has completed or failed.
+   */
+  "request:end": RequestEndEvent;
+
+  /**
+   * A tool call is starting, via any calling pattern.
+   */
+  "tool:call": ToolCallEvent;
+
+  /**
+   * A tool call has returned a result.
+   */
+  "tool:result": ToolResultEvent;
+
+  /**
+   * A tool call has failed.
+   */
+  "tool:error": ToolErrorEvent;
+
+  /**
+   * The observed health status of a server has changed.
+   */
+  "health:changed": HealthChangedEvent;
+
+  /**
+   * A cache has been cleared.
+   */
+  "cache:cleared": CacheClearedEvent;
+
+  /**
+   * Agent functions have been generated from freshly fetched tools.
+   */
+  "agentTools:refreshed": AgentToolsRefreshedEvent;
+}
+
+/**
+ * Name of an McpdClient event.
+ */
+export type McpdClientEventName = keyof McpdClientEvents;
+
+/**
+ * Listener for an McpdClient event.
+ */
+export type McpdClientEventListener<E extends McpdClientEventName> = (
+  event: McpdClientEvents[E],
+) => void;
+
+/**
+ * Minimal typed event emitter.
+ *
+ * @remarks
+ * Listeners are called synchronously in registration order. A listener that
+ * throws is logged and does not affect other listeners or the operation that
+ * emitted the event.
+ *
+ * @internal
+ */
+export class TypedEventEmitter<Events extends object> {
+  readonly #registrations = new Map<
+    keyof Events,
+    Array<{ listener: (payload: never) => void; once: boolean }>
+  >();
+  readonly #logger: Logger;
+
+  /**
+   * @param logger - Logger for errors thrown by listeners
+   */
+  constructor(logger: Logger) {
+    this.#logger = logger;
+  }
+
+  on<E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void,
+  ): void {
+    this.#add(event, listener, false);
+  }
+
+  once<E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void,
+  ): void {
+    this.#add(event, listener, true);
+  }
+
+  off<E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void,
+  ): void {
+    const registrations = this.#registrations.get(event) ?? [];
+    const index = registrations.findLastIndex((r) => r.listener === listener);
+    if (index !== -1) {
+      registrations.splice(index, 1);
+    }
+  }
+
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const registrations = this.#registrations.get(event);
+    if (!registrations) {
+      return;
+    }
+
+    // Copy, so listeners removing themselves don't skip others.
+    for (const registration of [...registrations]) {
+      const index = registrations.indexOf(registration);
+      if (registration.once && index !== -1) {
+        registrations.splice(index, 1);
+      }
+      try {
+        (registration.listener as (payload: Events[E]) => void)(payload);
+      } catch (error) {
+        this.#logger.error(
+          `Listener for '${String(event)}' threw: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  #add<E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void,
+    once: boolean,
+  ): void {
+    const registrations = this.#registrations.get(event) ?? [];
+    registrations.push({ listener, once });
+    this.#registrations.set(event, registrations);
+  }
+}
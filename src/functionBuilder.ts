@@ -11,15 +11,25 @@
 
 import { z } from "zod";
 import { McpdError, ValidationError } from "./errors";
-import type { Tool, PerformCallFn } from "./types";
+import type {
+  Tool,
+  PerformCallFn,
+  RequestOptions,
+  ResultPolicy,
+} from "./types";
+import { CallToolResult, toCallToolResult } from "./toolResult";
+import { applyResultPolicy } from "./resultPolicy";
 import { TypeConverter } from "./utils/typeConverter";
 
 /**
  * Interface for generated agent functions with metadata.
  * Compatible with both LangChain JS and Vercel AI SDK without conversion.
+ *
+ * @typeParam TResult - Type of tool call results: `CallToolResult`, or
+ * `unknown` for clients created with `legacyToolResults: true`
  */
-export interface AgentFunction {
-  (...args: unknown[]): Promise<unknown>;
+export interface AgentFunction<TResult = CallToolResult> {
+  (...args: unknown[]): Promise<TResult>;
 
   // Universal properties
   name: string;
@@ -28,14 +38,20 @@ export interface AgentFunction {
   // LangChain JS compatibility properties
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   schema: z.ZodSchema<any>; // Zod schema for LangChain
-  invoke: (args: unknown) => Promise<unknown>; // Primary method for LangChain
+  invoke: (
+    args: unknown,
+    config?: { signal?: AbortSignal },
+  ) => Promise<TResult | CallToolResult>; // Primary method for LangChain
   lc_namespace: string[]; // Required namespace for LangChain
   returnDirect: boolean; // LangChain execution flag
 
   // Vercel AI SDK compatibility properties
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   inputSchema: z.ZodSchema<any>; // Zod schema for Vercel AI SDK
-  execute: (args: unknown) => Promise<unknown>; // Primary method for Vercel AI SDK
+  execute: (
+    args: unknown,
+    options?: { abortSignal?: AbortSignal },
+  ) => Promise<TResult | CallToolResult>; // Primary method for Vercel AI SDK
 
   // Internal properties
   _schema: Tool;
@@ -53,16 +69,16 @@ export interface AgentFunction {
  * The generated functions are cached for performance, with cache invalidation
  * controlled by the owning McpdClient via clearCache().
  */
-export class FunctionBuilder {
-  #performCall: PerformCallFn;
-  #functionCache: Map<string, AgentFunction> = new Map();
+export class FunctionBuilder<TResult = CallToolResult> {
+  #performCall: PerformCallFn<TResult>;
+  #functionCache: Map<string, AgentFunction<TResult>> = new Map();
 
   /**
    * Initialize a FunctionBuilder with an injected function.
    *
    * @param performCall - Function to execute tool calls
    */
-  constructor(performCall: PerformCallFn) {
+  constructor(performCall: PerformCallFn<TResult>) {
     this.#performCall = performCall;
   }
 
@@ -181,7 +197,10 @@ export class FunctionBuilder {
    * @param serverName - The name of the MCP server hosting this tool
    * @returns A callable JavaScript function with metadata
    */
-  createFunctionFromSchema(schema: Tool, serverName: string): AgentFunction {
+  createFunctionFromSchema(
+    schema: Tool,
+    serverName: string,
+  ): AgentFunction<TResult> {
     const cacheKey = `${serverName}__${schema.name}`;
 
     // Return cached function if it exists
@@ -201,20 +220,49 @@ export class FunctionBuilder {
     }
   }
 
+  /**
+   * Create a copy of an agent function whose `invoke()` and `execute()` apply
+   * a result policy.
+   *
+   * The copy is not cached; the function it is made from is unchanged.
+   *
+   * @param agentFunction - A function created by createFunctionFromSchema()
+   * @param resultPolicy - The policy, as returned by resolveResultPolicy()
+   * @returns The new function
+   */
+  withResultPolicy(
+    agentFunction: AgentFunction<TResult>,
+    resultPolicy: ResultPolicy,
+  ): AgentFunction<TResult> {
+    return this.buildFunction(
+      agentFunction._schema,
+      agentFunction._serverName,
+      resultPolicy,
+    );
+  }
+
   /**
    * Build the actual function from the schema.
    *
    * @param schema - The tool schema
    * @param serverName - The server name
+   * @param resultPolicy - Policy applied to results of invoke() and execute()
    * @returns The generated function with metadata
    */
-  private buildFunction(schema: Tool, serverName: string): AgentFunction {
+  private buildFunction(
+    schema: Tool,
+    serverName: string,
+    resultPolicy?: ResultPolicy,
+  ): AgentFunction<TResult> {
     const inputSchema = schema.inputSchema || {};
     const properties = inputSchema.properties || {};
     const required = new Set(inputSchema.required || []);
 
-    // Create the function implementation
-    const implementation = async (...args: unknown[]): Promise<unknown> => {
+    // Run the tool with positional or named arguments and optional request options
+    const run = async (
+      args: unknown[],
+      requestOptions?: RequestOptions,
+    ): Promise<TResult> => {
       // Handle both positional and named arguments
       let params: Record<string, unknown> = {};
 
@@ -286,16 +334,49 @@ export class FunctionBuilder {
       }
 
       // Make the API call
-      return this.#performCall(serverName, schema.name, cleanParams);
+      return this.#performCall(
+        serverName,
+        schema.name,
+        cleanParams,
+        requestOptions,
+      );
     };
 
-    // Create execution methods for both frameworks
-    const invoke = async (args: unknown): Promise<unknown> => {
-      return implementation(args);
+    // Create the function implementation
+    const implementation = async (...args: unknown[]): Promise<TResult> => {
+      return run(args);
     };
 
-    const execute = async (args: unknown): Promise<unknown> => {
-      return implementation(args);
+    // Render results handed to agent frameworks according to the result policy
+    const present = async (
+      pending: Promise<TResult>,
+    ): Promise<TResult | CallToolResult> => {
+      const result = await pending;
+      if (!resultPolicy) {
+        return result;
+      }
+      // Legacy results are not CallToolResults.
+      return applyResultPolicy(
+        result instanceof CallToolResult ? result : toCallToolResult(result),
+        resultPolicy,
+      );
+    };
+
+    // Create execution methods for both frameworks, forwarding their cancellation signals
+    const invoke = async (
+      args: unknown,
+      config?: { signal?: AbortSignal },
+    ): Promise<TResult | CallToolResult> => {
+      return present(run([args], config?.signal && { signal: config.signal }));
+    };
+
+    const execute = async (
+      args: unknown,
+      options?: { abortSignal?: AbortSignal },
+    ): Promise<TResult | CallToolResult> => {
+      return present(
+        run([args], options?.abortSignal && { signal: options.abortSignal }),
+      );
     };
 
     // Convert JSON schema to Zod schema for both frameworks
@@ -306,7 +387,7 @@ export class FunctionBuilder {
     const docstring = this.createDocstring(schema);
 
     // Cast to AgentFunction and add metadata
-    const agentFunction = implementation as AgentFunction;
+    const agentFunction = implementation as AgentFunction<TResult>;
 
     // Use Object.defineProperty for read-only 'name' property
     Object.defineProperty(agentFunction, "name", {
@@ -410,7 +491,7 @@ export class FunctionBuilder {
    *
    * @returns Array of all cached agent functions, or empty array if cache is empty
    */
-  getCachedFunctions(): AgentFunction[] {
+  getCachedFunctions(): AgentFunction<TResult>[] {
     return Array.from(this.#functionCache.values());
   }
 }
@@ -20,9 +20,18 @@ export { McpdClient } from "./client";
 // Export error types
 export {
   McpdError,
+  AbortedError,
   AuthenticationError,
+  CapabilityNotSupportedError,
   ConnectionError,
+  ContentTooLargeError,
+  OutputValidationError,
   PipelineError,
+  PromptNotFoundError,
+  QueueFullError,
+  RateLimitError,
+  ConfigurationError,
+  ResourceNotFoundError,
   PIPELINE_FLOW_REQUEST,
   PIPELINE_FLOW_RESPONSE,
   ServerNotFoundError,
@@ -32,6 +41,9 @@ export {
   ToolNotFoundError,
   ValidationError,
   type PipelineFlow,
+  type McpdErrorContext,
+  type McpdErrorJSON,
+  type SerializedError,
 } from "./errors";
 
 // Export type definitions
@@ -39,14 +51,35 @@ export {
   HealthStatus,
   HealthStatusHelpers,
   type JsonSchema,
+  type JsonSchemaType,
   type Tool,
   type Tools,
   type ToolAnnotations,
   type ServerHealth,
+  type DaemonInfo,
+  type ServerCapability,
+  type ServerCapabilities,
   type ToolsResponse,
   type HealthResponse,
   type McpdClientOptions,
+  type RetryOptions,
+  type RequestOptions,
+  type CircuitBreakerOptions,
+  type TracingOptions,
+  type LoadBalancingOptions,
+  type LoadBalancingStrategy,
+  type Credentials,
+  type CredentialsProvider,
+  type LimitsOptions,
+  type CallLimitOptions,
+  type RateLimitOptions,
+  type FetchFunction,
+  type Middleware,
+  type MiddlewareContext,
+  type MiddlewareNext,
   type ErrorDetail,
+  type OutputValidationIssue,
+  type OutputValidationMode,
   type ErrorModel,
   type AgentToolsFormat,
   type BaseAgentToolsOptions,
@@ -54,6 +87,15 @@ export {
   type ObjectAgentToolsOptions,
   type MapAgentToolsOptions,
   type AgentToolsOptions,
+  type ToolCallRequest,
+  type CallToolsOptions,
+  type ToolCallOutcome,
+  type ToolCallSuccess,
+  type ToolCallFailure,
+  type ResultPolicy,
+  type ResultFormat,
+  type TruncationStrategy,
+  type TruncationInfo,
   type Resource,
   type Resources,
   type ResourceContent,
@@ -65,4 +107,72 @@ export {
   type PromptMessage,
   type PromptGenerateArguments,
   type GeneratePromptResponseBody,
+  type CallToolResultData,
+  type ClientToolResult,
+  type ContentBlock,
+  type TextContent,
+  type ImageContent,
+  type AudioContent,
+  type ResourceLink,
+  type EmbeddedResource,
 } from "./types";
+
+// Export tool call results
+export { CallToolResult } from "./toolResult";
+
+// Export result policy helpers
+export { TRUNCATION_META_KEY } from "./resultPolicy";
+
+// Export binary content helpers
+export {
+  BinaryContent,
+  DEFAULT_MAX_CONTENT_BYTES,
+  decodeContent,
+  sniffMimeType,
+  type BinaryContentSource,
+  type DecodeContentOptions,
+} from "./binaryContent";
+
+// Export metrics types and exporters
+export {
+  PrometheusExporter,
+  type Metric,
+  type MetricLabels,
+  type MetricsExporter,
+  type MetricsSnapshot,
+  type CounterMetric,
+  type CounterSample,
+  type HistogramMetric,
+  type HistogramSample,
+} from "./metrics";
+
+// Export lifecycle event types
+export type {
+  McpdClientEvents,
+  McpdClientEventName,
+  McpdClientEventListener,
+  RequestStartEvent,
+  RequestEndEvent,
+  ToolCallEvent,
+  ToolResultEvent,
+  ToolErrorEvent,
+  HealthChangedEvent,
+  CacheClearedEvent,
+  AgentToolsRefreshedEvent,
+} from "./events";
+
+// Export configuration loading
+export {
+  loadConfig,
+  readEnvConfig,
+  parseMcpdToml,
+  agentToolsFilter,
+  DEFAULT_API_ENDPOINT,
+  ENV_VARS,
+  type Environment,
+  type EnvClientOptions,
+  type LoadConfigOptions,
+  type McpdConfig,
+  type McpdProjectConfig,
+  type McpdServerConfig,
+} from "./config";
@@ -2,7 +2,7 @@
  * Internal logging infrastructure for the mcpd SDK.
  *
  * This module provides a logging shim controlled by the MCPD_LOG_LEVEL environment
- * variable.
+ * variable, or by a log level passed in where there are no environment variables.
  *
  * Logging is disabled by default.
  *
@@ -11,6 +11,8 @@
  * to avoid contaminating stdout/stderr.
  */
 
+import { getEnvVar } from "./utils/env";
+
 /**
  * Valid {@link LogLevel} values for MCPD_LOG_LEVEL environment variable.
  */
@@ -88,15 +90,10 @@ function resolve(raw: string | undefined): LogLevel {
   return candidate && candidate in ranks ? candidate : LogLevels.OFF;
 }
 
-// Lazily resolve the level at call time to support testing.
-function getLevel(): LogLevel {
-  return resolve(
-    typeof process !== "undefined" ? process.env.MCPD_LOG_LEVEL : undefined,
-  );
-}
-
 // Default logger implementation using console methods.
-function defaultLogger(): Logger {
+// Without a fixed level, the level is resolved at call time to support testing.
+function defaultLogger(level?: LogLevel): Logger {
+  const getLevel = () => level ?? resolve(getEnvVar("MCPD_LOG_LEVEL"));
   return {
     trace: (...args) => {
       const lvl = getLevel();
@@ -137,6 +134,7 @@ function defaultLogger(): Logger {
  *               If not provided, uses default logger controlled by MCPD_LOG_LEVEL.
  *               If partially provided, custom methods are used and omitted methods
  *               fall back to default logger (which respects MCPD_LOG_LEVEL).
+ * @param level - Log level of the default logger, overriding MCPD_LOG_LEVEL.
  * @returns A Logger instance with all methods implemented.
  *
  * @example
@@ -152,8 +150,8 @@ function defaultLogger(): Logger {
  * });
  * ```
  */
-export function createLogger(impl?: Partial<Logger>): Logger {
-  const base = defaultLogger();
+export function createLogger(impl?: Partial<Logger>, level?: LogLevel): Logger {
+  const base = defaultLogger(level);
   return {
     trace: impl?.trace ?? base.trace,
     debug: impl?.debug ?? base.debug,
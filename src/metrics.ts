@@ -0,0 +1,417 @@
+/**
+ * Metrics for the mcpd SDK.
+ *
+ * This module provides the counters and latency histograms that McpdClient
+ * collects for tool calls and cache lookups, the snapshot format returned by
+ * `client.getMetrics()`, and exporters that format snapshots for monitoring
+ * systems.
+ */
+
+import { PipelineError, TimeoutError } from "./errors";
+
+/**
+ * Label names and values identifying one series of a metric.
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Current value of one counter series.
+ */
+export interface CounterSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Current state of one histogram series.
+ */
+export interface HistogramSample {
+  labels: MetricLabels;
+
+  /**
+   * Cumulative observation counts: `count` observations were <= `le`.
+   */
+  buckets: { le: number; count: number }[];
+
+  /**
+   * Sum of all observed values.
+   */
+  sum: number;
+
+  /**
+   * Number of observed values.
+   */
+  count: number;
+}
+
+/**
+ * A monotonically increasing counter.
+ */
+export interface CounterMetric {
+  type: "counter";
+  name: string;
+  help: string;
+  samples: CounterSample[];
+}
+
+/**
+ * A histogram of observed values, such as call durations in seconds.
+ */
+export interface HistogramMetric {
+  type: "histogram";
+  name: string;
+  help: string;
+  samples: HistogramSample[];
+}
+
+/**
+ * A metric and all of its series.
+ */
+export type Metric = CounterMetric | HistogramMetric;
+
+/**
+ * Point-in-time copy of the metrics collected by a client.
+ */
+export interface MetricsSnapshot {
+  /**
+   * Time the snapshot was taken, in milliseconds since the epoch.
+   */
+  timestamp: number;
+  metrics: Metric[];
+}
+
+/**
+ * Converts metrics snapshots into the format of a monitoring system.
+ *
+ * @example
+ * ```typescript
+ * const jsonExporter: MetricsExporter<string> = {
+ *   export: (snapshot) => JSON.stringify(snapshot.metrics),
+ * };
+ * const body = client.exportMetrics(jsonExporter);
+ * ```
+ */
+export interface MetricsExporter<T = unknown> {
+  export(snapshot: MetricsSnapshot): T;
+}
+
+/**
+ * Formats metrics in the Prometheus text exposition format (version 0.0.4).
+ *
+ * @example
+ * ```typescript
+ * app.get('/metrics', (req, res) => {
+ *   res.type('text/plain; version=0.0.4');
+ *   res.send(client.exportMetrics(new PrometheusExporter()));
+ * });
+ * ```
+ */
+export class PrometheusExporter implements MetricsExporter<string> {
+  export(snapshot: MetricsSnapshot): string {
+    const lines: string[] = [];
+
+    for (const metric of snapshot.metrics) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+      if (metric.type === "counter") {
+        for (const sample of metric.samples) {
+          lines.push(
+            `${metric.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+          );
+        }
+        continue;
+      }
+
+      for (const sample of metric.samples) {
+        for (const bucket of sample.buckets) {
+          const labels = { ...sample.labels, le: formatValue(bucket.le) };
+          lines.push(
+            `${metric.name}_bucket${formatLabels(labels)} ${bucket.count}`,
+          );
+        }
+        const labels = formatLabels(sample.labels);
+        lines.push(`${metric.name}_sum${labels} ${formatValue(sample.sum)}`);
+        lines.push(`${metric.name}_count${labels} ${sample.count}`);
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const formatted = entries.map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return `{${formatted.join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+  return String(value);
+}
+
+/**
+ * Default histogram buckets for durations, in seconds.
+ */
+const DURATION_BUCKETS = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+  Infinity,
+];
+
+/**
+ * A counter with one series per label set.
+ */
+class Counter {
+  readonly name: string;
+  readonly help: string;
+  readonly #series = new Map<string, CounterSample>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: MetricLabels, by = 1): void {
+    const key = JSON.stringify(labels);
+    const sample = this.#series.get(key);
+    if (sample) {
+      sample.value += by;
+    } else {
+      this.#series.set(key, { labels: { ...labels }, value: by });
+    }
+  }
+
+  collect(): CounterMetric {
+    return {
+      type: "counter",
+      name: this.name,
+      help: this.help,
+      samples: [...this.#series.values()].map((sample) => ({
+        labels: { ...sample.labels },
+        value: sample.value,
+      })),
+    };
+  }
+
+  reset(): void {
+    this.#series.clear();
+  }
+}
+
+/**
+ * A histogram with one series per label set.
+ */
+class Histogram {
+  readonly name: string;
+  readonly help: string;
+  readonly buckets: number[];
+  readonly #series = new Map<
+    string,
+    { labels: MetricLabels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = JSON.stringify(labels);
+    let series = this.#series.get(key);
+    if (!series) {
+      series = {
+        labels: { ...labels },
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.#series.set(key, series);
+    }
+
+    this.buckets.forEach((le, i) => {
+      if (value <= le) {
+        series.counts[i]!++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  collect(): HistogramMetric {
+    return {
+      type: "histogram",
+      name: this.name,
+      help: this.help,
+      samples: [...this.#series.values()].map((series) => ({
+        labels: { ...series.labels },
+        buckets: this.buckets.map((le, i) => ({
+          le,
+          count: series.counts[i]!,
+        })),
+        sum: series.sum,
+        count: series.count,
+      })),
+    };
+  }
+
+  reset(): void {
+    this.#series.clear();
+  }
+}
+
+/**
+ * Caches whose lookups are counted.
+ * @internal
+ */
+export type MetricsCache = "health" | "tools" | "agent_tools";
+
+/**
+ * Collects the metrics of an McpdClient.
+ * @internal
+ */
+export class ClientMetrics {
+  readonly #enabled: boolean;
+  readonly #calls = new Counter("mcpd_tool_calls_total", "Tool calls made.");
+  readonly #errors = new Counter(
+    "mcpd_tool_call_errors_total",
+    "Tool calls that failed, by error class.",
+  );
+  readonly #timeouts = new Counter(
+    "mcpd_tool_call_timeouts_total",
+    "Tool calls that timed out.",
+  );
+  readonly #pipelineFailures = new Counter(
+    "mcpd_tool_call_pipeline_failures_total",
+    "Tool calls that failed in the mcpd plugin pipeline, by pipeline flow.",
+  );
+  readonly #duration = new Histogram(
+    "mcpd_tool_call_duration_seconds",
+    "Duration of tool calls in seconds.",
+    DURATION_BUCKETS,
+  );
+  readonly #cacheHits = new Counter(
+    "mcpd_cache_hits_total",
+    "Cache lookups that found an entry.",
+  );
+  readonly #cacheMisses = new Counter(
+    "mcpd_cache_misses_total",
+    "Cache lookups that found no entry.",
+  );
+
+  /**
+   * @param enabled - False to collect nothing
+   */
+  constructor(enabled: boolean) {
+    this.#enabled = enabled;
+  }
+
+  /**
+   * Record a finished tool call.
+   *
+   * @param server - The server name
+   * @param tool - The tool name
+   * @param seconds - Duration of the call
+   * @param error - The error the call failed with, if any
+   */
+  recordCall(
+    server: string,
+    tool: string,
+    seconds: number,
+    error?: unknown,
+  ): void {
+    if (!this.#enabled) {
+      return;
+    }
+
+    const labels = { server, tool };
+    this.#calls.inc(labels);
+    this.#duration.observe(labels, seconds);
+
+    if (error === undefined) {
+      return;
+    }
+    const errorClass = error instanceof Error ? error.name : "unknown";
+    this.#errors.inc({ ...labels, error: errorClass });
+    if (error instanceof TimeoutError) {
+      this.#timeouts.inc(labels);
+    }
+    if (error instanceof PipelineError) {
+      this.#pipelineFailures.inc({
+        ...labels,
+        flow: error.pipelineFlow ?? "unknown",
+      });
+    }
+  }
+
+  /**
+   * Record a cache lookup.
+   *
+   * @param cache - The cache that was read
+   * @param hit - True if the lookup found an entry
+   */
+  recordCacheLookup(cache: MetricsCache, hit: boolean): void {
+    if (!this.#enabled) {
+      return;
+    }
+    (hit ? this.#cacheHits : this.#cacheMisses).inc({ cache });
+  }
+
+  /**
+   * Take a snapshot of all metrics.
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      timestamp: Date.now(),
+      metrics: [
+        this.#calls.collect(),
+        this.#errors.collect(),
+        this.#timeouts.collect(),
+        this.#pipelineFailures.collect(),
+        this.#duration.collect(),
+        this.#cacheHits.collect(),
+        this.#cacheMisses.collect(),
+      ].filter((metric) => metric.samples.length > 0),
+    };
+  }
+
+  /**
+   * Reset all metrics to zero.
+   */
+  reset(): void {
+    for (const metric of [
+      this.#calls,
+      this.#errors,
+      this.#timeouts,
+      this.#pipelineFailures,
+      this.#duration,
+      this.#cacheHits,
+      this.#cacheMisses,
+    ]) {
+      metric.reset();
+    }
+  }
+}
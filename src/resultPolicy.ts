@@ -0,0 +1,248 @@
+/**
+ * Result policies for agent tools.
+ *
+ * This module renders tool results for language models and truncates them to
+ * a size limit, so that a large result, such as a fetched web page, doesn't
+ * overflow the model's context.
+ */
+
+import { decodedSize } from "./binaryContent";
+import { CallToolResult } from "./toolResult";
+import type {
+  ContentBlock,
+  ResultFormat,
+  ResultPolicy,
+  TruncationInfo,
+  TruncationStrategy,
+} from "./types";
+
+/**
+ * Characters per token used to estimate token counts.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Default text inserted where content was removed.
+ */
+const DEFAULT_MARKER = "\n[... {omitted} characters truncated ...]\n";
+
+/**
+ * Key of the truncation record in the `_meta` of truncated results.
+ */
+export const TRUNCATION_META_KEY = "mcpd/truncation";
+
+const FORMATS: readonly ResultFormat[] = ["json", "text", "markdown"];
+
+const STRATEGIES: readonly TruncationStrategy[] = ["head", "tail", "middle"];
+
+/**
+ * Merge result policies field by field, later policies taking precedence.
+ *
+ * @param policies - The policies, from least to most specific
+ * @returns The merged policy, or undefined if no policy was given
+ * @throws {RangeError} If a field of the merged policy is out of range
+ * @internal
+ */
+export function resolveResultPolicy(
+  ...policies: Array<ResultPolicy | undefined>
+): ResultPolicy | undefined {
+  const given = policies.filter((policy) => policy !== undefined);
+  if (given.length === 0) {
+    return undefined;
+  }
+
+  const policy: ResultPolicy = Object.assign({}, ...given);
+  for (const field of ["maxChars", "maxTokens"] as const) {
+    const value = policy[field];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new RangeError(`resultPolicy.${field} must be a positive integer`);
+    }
+  }
+  if (policy.truncate !== undefined && !STRATEGIES.includes(policy.truncate)) {
+    throw new RangeError(
+      `resultPolicy.truncate must be one of ${STRATEGIES.join(", ")}`,
+    );
+  }
+  if (policy.format !== undefined && !FORMATS.includes(policy.format)) {
+    throw new RangeError(
+      `resultPolicy.format must be one of ${FORMATS.join(", ")}`,
+    );
+  }
+  return policy;
+}
+
+/**
+ * Render a tool result according to a policy, truncating it to the policy's
+ * limit.
+ *
+ * @param result - The tool's result
+ * @param policy - The policy, as returned by resolveResultPolicy()
+ * @returns The result, or a result with a single text block holding the
+ * rendered (and possibly truncated) result
+ * @internal
+ */
+export function applyResultPolicy(
+  result: CallToolResult,
+  policy: ResultPolicy,
+): CallToolResult {
+  const format = policy.format ?? "json";
+  const maxChars = Math.min(
+    policy.maxChars ?? Infinity,
+    (policy.maxTokens ?? Infinity) * CHARS_PER_TOKEN,
+  );
+
+  const text = renderToolResult(result, format);
+  if (format === "json" && text.length <= maxChars) {
+    return result;
+  }
+
+  const strategy = policy.truncate ?? "head";
+  const truncated = truncateText(
+    text,
+    maxChars,
+    strategy,
+    policy.marker ?? DEFAULT_MARKER,
+  );
+
+  let meta = result._meta;
+  if (truncated.omittedChars > 0) {
+    const truncation: TruncationInfo = {
+      strategy,
+      originalChars: text.length,
+      omittedChars: truncated.omittedChars,
+    };
+    meta = { ...meta, [TRUNCATION_META_KEY]: truncation };
+  }
+  return new CallToolResult({
+    content: [{ type: "text", text: truncated.text }],
+    ...(result.isError && { isError: true }),
+    ...(meta !== undefined && { _meta: meta }),
+  });
+}
+
+/**
+ * Render a tool result as text for a model.
+ *
+ * @param result - The tool's result
+ * @param format - The rendering format
+ * @returns The rendered result
+ * @internal
+ */
+export function renderToolResult(
+  result: CallToolResult,
+  format: ResultFormat,
+): string {
+  if (format === "json") {
+    return JSON.stringify(result);
+  }
+
+  const markdown = format === "markdown";
+  const parts = result.content.map((block) => renderBlock(block, markdown));
+
+  // Structured content is usually repeated in a text block; show it otherwise.
+  if (result.text() === "" && result.structuredContent !== undefined) {
+    parts.push(
+      markdown
+        ? codeBlock(JSON.stringify(result.structuredContent, null, 2), "json")
+        : JSON.stringify(result.structuredContent),
+    );
+  }
+  return parts.join(markdown ? "\n\n" : "\n");
+}
+
+/**
+ * Shorten text to at most maxChars characters, marker included.
+ *
+ * @param text - The text
+ * @param maxChars - The maximum length
+ * @param strategy - Which part of the text to keep
+ * @param marker - Text inserted where content was removed
+ * @returns The shortened text and the number of characters removed
+ * @internal
+ */
+export function truncateText(
+  text: string,
+  maxChars: number,
+  strategy: TruncationStrategy,
+  marker: string,
+): { text: string; omittedChars: number } {
+  if (text.length <= maxChars) {
+    return { text, omittedChars: 0 };
+  }
+
+  // Leave room for the marker with the largest count it could contain.
+  const markerRoom = marker.replaceAll("{omitted}", String(text.length)).length;
+  const keep = Math.max(0, maxChars - markerRoom);
+  const omittedChars = text.length - keep;
+  const filledMarker = marker.replaceAll("{omitted}", String(omittedChars));
+
+  switch (strategy) {
+    case "head":
+      return { text: text.slice(0, keep) + filledMarker, omittedChars };
+    case "tail":
+      return {
+        text: filledMarker + text.slice(text.length - keep),
+        omittedChars,
+      };
+    case "middle": {
+      const head = Math.ceil(keep / 2);
+      const tail = keep - head;
+      return {
+        text:
+          text.slice(0, head) + filledMarker + text.slice(text.length - tail),
+        omittedChars,
+      };
+    }
+  }
+}
+
+/**
+ * Render a content block as plain text or Markdown.
+ */
+function renderBlock(block: ContentBlock, markdown: boolean): string {
+  const placeholder = (description: string) =>
+    markdown ? `_[${description}]_` : `[${description}]`;
+
+  switch (block.type) {
+    case "text":
+      return block.text;
+    case "image":
+    case "audio":
+      return placeholder(
+        `${block.type}: ${block.mimeType}, ${decodedSize(block.data)} bytes`,
+      );
+    case "resource_link": {
+      const name = block.title ?? block.name;
+      return markdown
+        ? `[${name}](${block.uri})`
+        : `[resource: ${name} (${block.uri})]`;
+    }
+    case "resource": {
+      const { resource } = block;
+      if (resource.text === undefined) {
+        const size =
+          resource.blob === undefined ? 0 : decodedSize(resource.blob);
+        return placeholder(
+          `resource: ${resource.uri}, ${resource.mimeType ?? "binary"}, ${size} bytes`,
+        );
+      }
+      return markdown
+        ? `Resource ${resource.uri}:\n\n${codeBlock(resource.text)}`
+        : `[resource: ${resource.uri}]\n${resource.text}`;
+    }
+    default:
+      // Block types added to MCP after this SDK are shown as they are.
+      return JSON.stringify(block);
+  }
+}
+
+/**
+ * Wrap text in a Markdown code block whose fence doesn't occur in the text.
+ */
+function codeBlock(text: string, language = ""): string {
+  let fence = "```";
+  while (text.includes(fence)) {
+    fence += "`";
+  }
+  return `${fence}${language}\n${text}\n${fence}`;
+}
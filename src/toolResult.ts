@@ -0,0 +1,225 @@
+/**
+ * Tool call results for the mcpd SDK.
+ *
+ * This module provides the CallToolResult returned by tool calls, which gives
+ * typed access to the MCP content blocks, structured output and error flag of
+ * a result, and converts the daemon's response into it.
+ */
+
+import {
+  decodeContent,
+  type BinaryContent,
+  type DecodeContentOptions,
+} from "./binaryContent";
+import type {
+  AudioContent,
+  CallToolResultData,
+  ContentBlock,
+  EmbeddedResource,
+  ImageContent,
+  ResourceLink,
+  TextContent,
+} from "./types";
+
+/**
+ * The result of a tool call.
+ *
+ * @remarks
+ * A result with `isError` set is still returned rather than thrown: the tool
+ * ran, and its content describes what went wrong.
+ *
+ * @example
+ * ```typescript
+ * const result = await client.servers.time.tools.get_current_time({
+ *   timezone: "UTC",
+ * });
+ *
+ * if (result.isError) {
+ *   console.error(result.text());
+ * } else {
+ *   const { datetime } = result.json<{ datetime: string }>();
+ * }
+ * ```
+ */
+export class CallToolResult<
+  TStructured extends Record<string, unknown> = Record<string, unknown>,
+> {
+  readonly content: ContentBlock[];
+  readonly structuredContent: TStructured | undefined;
+  readonly isError: boolean;
+  readonly _meta: Record<string, unknown> | undefined;
+
+  /**
+   * @param data - The MCP tool call result
+   */
+  constructor(data: CallToolResultData<TStructured>) {
+    this.content = data.content;
+    this.structuredContent = data.structuredContent;
+    this.isError = data.isError ?? false;
+    this._meta = data._meta;
+  }
+
+  /**
+   * Get the text of the result's text blocks, joined by newlines.
+   *
+   * @returns The text, or an empty string if there are no text blocks
+   */
+  text(): string {
+    return this.content
+      .filter((block): block is TextContent => block.type === "text")
+      .map((block) => block.text)
+      .join("\n");
+  }
+
+  /**
+   * Get the result as JSON.
+   *
+   * @returns The structured content if present, otherwise the text parsed
+   * as JSON
+   * @throws {SyntaxError} If there is no structured content and the text is
+   * not valid JSON
+   */
+  json<T = TStructured>(): T {
+    if (this.structuredContent !== undefined) {
+      return this.structuredContent as unknown as T;
+    }
+    return JSON.parse(this.text()) as T;
+  }
+
+  /**
+   * Get the result's image blocks.
+   */
+  images(): ImageContent[] {
+    return this.content.filter(
+      (block): block is ImageContent => block.type === "image",
+    );
+  }
+
+  /**
+   * Get the result's audio blocks.
+   */
+  audio(): AudioContent[] {
+    return this.content.filter(
+      (block): block is AudioContent => block.type === "audio",
+    );
+  }
+
+  /**
+   * Get the result's links to resources.
+   */
+  resourceLinks(): ResourceLink[] {
+    return this.content.filter(
+      (block): block is ResourceLink => block.type === "resource_link",
+    );
+  }
+
+  /**
+   * Get the result's embedded resources.
+   */
+  resources(): EmbeddedResource[] {
+    return this.content.filter(
+      (block): block is EmbeddedResource => block.type === "resource",
+    );
+  }
+
+  /**
+   * Decode the result's images, audio and embedded blob resources.
+   *
+   * @param options - Decoding options, such as the maximum size of each item
+   * @returns The decoded content, in the order of the result's blocks
+   * @throws {ContentTooLargeError} If an item is larger than the size limit
+   */
+  binaryContent(options?: DecodeContentOptions): BinaryContent[] {
+    return this.content
+      .filter(
+        (block): block is ImageContent | AudioContent | EmbeddedResource =>
+          block.type === "image" ||
+          block.type === "audio" ||
+          (block.type === "resource" && block.resource.blob !== undefined),
+      )
+      .map((block) => decodeContent(block, options));
+  }
+
+  /**
+   * Serialize the result to its MCP form, e.g. to hand it to an agent framework.
+   */
+  toJSON(): CallToolResultData<TStructured> {
+    return {
+      content: this.content,
+      ...(this.structuredContent !== undefined && {
+        structuredContent: this.structuredContent,
+      }),
+      ...(this.isError && { isError: true }),
+      ...(this._meta !== undefined && { _meta: this._meta }),
+    };
+  }
+}
+
+/**
+ * Convert a daemon tool call response into a CallToolResult.
+ *
+ * MCP results are used as they are. Other responses, such as the plain text or
+ * JSON returned by daemons that don't forward MCP results, become a single
+ * text block; JSON objects are also kept as the structured content.
+ *
+ * @param response - The parsed response body
+ * @returns The result
+ * @internal
+ */
+export function toCallToolResult(response: unknown): CallToolResult {
+  // Tool results may arrive as JSON encoded in a string.
+  const value = typeof response === "string" ? parseJson(response) : response;
+  if (isCallToolResultData(value)) {
+    return new CallToolResult(value);
+  }
+
+  if (typeof response === "string") {
+    return new CallToolResult({
+      content: [{ type: "text", text: response }],
+      ...(isObject(value) && { structuredContent: value }),
+    });
+  }
+
+  return new CallToolResult({
+    content: [{ type: "text", text: JSON.stringify(response) ?? "" }],
+    ...(isObject(response) && { structuredContent: response }),
+  });
+}
+
+/**
+ * Convert a daemon tool call response as before CallToolResult: strings are
+ * parsed as JSON where possible, and other values are returned as they are.
+ *
+ * @param response - The parsed response body
+ * @returns The loosely parsed result
+ * @internal
+ */
+export function toLegacyToolResult(response: unknown): unknown {
+  return typeof response === "string" ? parseJson(response) : response;
+}
+
+/**
+ * Parse JSON, returning the text itself if it isn't valid JSON.
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCallToolResultData(value: unknown): value is CallToolResultData {
+  return (
+    isObject(value) &&
+    Array.isArray(value.content) &&
+    value.content.every(
+      (block) => isObject(block) && typeof block.type === "string",
+    ) &&
+    (value.structuredContent === undefined || isObject(value.structuredContent))
+  );
+}
@@ -2,7 +2,10 @@
  * Type definitions for the mcpd SDK.
  */
 
-import type { Logger } from "./logger";
+import type * as OpenTelemetryApi from "@opentelemetry/api";
+import type { LogLevel, Logger } from "./logger";
+import type { CallToolResult } from "./toolResult";
+import type { McpdError } from "./errors";
 
 /**
  * Enumeration of possible MCP server health statuses.
@@ -43,6 +46,22 @@ export interface ErrorDetail {
   value?: unknown;
 }
 
+/**
+ * A way in which a tool's structured output doesn't match its output schema.
+ */
+export interface OutputValidationIssue {
+  /**
+   * JSON pointer to the offending value, e.g. `/items/0/name`, or an empty
+   * string for the structured content itself.
+   */
+  path: string;
+
+  /**
+   * What is wrong with the value, e.g. `should be number, got string`.
+   */
+  message: string;
+}
+
 /**
  * Huma API error model (RFC 7807 Problem Details).
  * Used for all API errors including HTTP errors and tool execution failures.
@@ -61,17 +80,81 @@ export interface ErrorModel {
  * JSON Schema definition for tool parameters.
  */
 export interface JsonSchema {
-  type?: string;
+  type?: string | string[];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   properties?: Record<string, any>;
   required?: string[];
-  additionalProperties?: boolean;
+  additionalProperties?: boolean | JsonSchema;
   items?: JsonSchema;
   description?: string;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [key: string]: any;
 }
 
+/**
+ * The TypeScript type of values matching a JSON Schema declared `as const`.
+ *
+ * @remarks
+ * Supports `type` (including type arrays such as `["string", "null"]`),
+ * `properties`, `required`, `items`, `enum`, `anyOf` and `oneOf`. Other
+ * keywords are ignored, and schemas without a recognized type map to
+ * `unknown`.
+ *
+ * @example
+ * ```typescript
+ * const outputSchema = {
+ *   type: "object",
+ *   properties: { datetime: { type: "string" }, dst: { type: "boolean" } },
+ *   required: ["datetime"],
+ * } as const;
+ *
+ * // { datetime: string; dst?: boolean }
+ * type TimeOutput = JsonSchemaType<typeof outputSchema>;
+ * ```
+ */
+export type JsonSchemaType<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { anyOf: readonly (infer U)[] } | { oneOf: readonly (infer U)[] }
+    ? JsonSchemaType<U>
+    : S extends { type: readonly (infer T)[] }
+      ? JsonSchemaTypeUnion<S, T>
+      : S extends { type: "string" }
+        ? string
+        : S extends { type: "number" | "integer" }
+          ? number
+          : S extends { type: "boolean" }
+            ? boolean
+            : S extends { type: "null" }
+              ? null
+              : S extends { type: "array"; items: infer I }
+                ? JsonSchemaType<I>[]
+                : S extends { type: "array" }
+                  ? unknown[]
+                  : S extends { properties: infer P }
+                    ? JsonSchemaObjectType<
+                        P,
+                        S extends { required: readonly (infer R)[] } ? R : never
+                      >
+                    : S extends { type: "object" }
+                      ? Record<string, unknown>
+                      : unknown;
+
+/**
+ * Union of the types of a schema with a type array, one member per type.
+ */
+type JsonSchemaTypeUnion<S, T> = T extends unknown
+  ? JsonSchemaType<Omit<S, "type"> & { type: T }>
+  : never;
+
+/**
+ * Object type for JSON Schema `properties` with the given required keys.
+ */
+type JsonSchemaObjectType<P, R> = {
+  -readonly [K in keyof P as K extends R ? K : never]: JsonSchemaType<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends R ? never : K]?: JsonSchemaType<P[K]>;
+};
+
 /**
  * Tool annotations for hints about tool behavior.
  */
@@ -193,30 +276,577 @@ export interface HealthResponse {
   servers: ServerHealth[];
 }
 
+/**
+ * Information about the mcpd daemon, as returned by `client.getDaemonInfo()`.
+ */
+export interface DaemonInfo {
+  /**
+   * Version of the daemon, if it reports one.
+   */
+  version: string | undefined;
+
+  /**
+   * Version of the API the daemon serves, e.g. `v1` for `/api/v1`.
+   */
+  apiVersion: string;
+
+  /**
+   * Optional features the daemon reports as supported.
+   */
+  features: string[];
+}
+
+/**
+ * MCP capabilities a server may or may not support.
+ */
+export type ServerCapability = "tools" | "prompts" | "resources";
+
+/**
+ * Which MCP capabilities a server supports.
+ */
+export type ServerCapabilities = Record<ServerCapability, boolean>;
+
+/**
+ * Retry policy options for requests to the mcpd daemon.
+ *
+ * @remarks
+ * Retries use exponential backoff (optionally with full jitter). When the daemon
+ * responds with a `Retry-After` header, that delay is used instead of the backoff,
+ * unless it is longer than `maxDelayMs`: then the request is not retried and
+ * fails with the daemon's response.
+ *
+ * A `PipelineError` with `pipelineFlow === "response"` is never retried,
+ * because the tool has already been called and retrying would run it twice.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one.
+   * A value of 1 disables retries.
+   *
+   * @defaultValue 1
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds.
+   *
+   * @defaultValue 200
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for a single backoff delay, in milliseconds. A `Retry-After`
+   * delay longer than this stops retrying.
+   *
+   * @defaultValue 5000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Multiplier applied to the delay after each failed attempt.
+   *
+   * @defaultValue 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * When true, applies full jitter (a random delay between zero and the backoff).
+   *
+   * @defaultValue true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that are considered transient and retried.
+   *
+   * @defaultValue [502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Error classes that are considered transient and retried.
+   *
+   * @remarks
+   * Adding `PipelineError` allows request pipeline failures to be retried;
+   * response pipeline failures are never retried.
+   *
+   * @defaultValue [ConnectionError, TimeoutError]
+   */
+  retryableErrors?: Array<abstract new (...args: never[]) => Error>;
+
+  /**
+   * When true, honors the `Retry-After` response header.
+   *
+   * @defaultValue true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * When true, retries tool calls even if the tool is not annotated as
+   * read-only or idempotent.
+   *
+   * @remarks
+   * By default a tool call is only retried if the tool's annotations set
+   * `readOnlyHint` or `idempotentHint`, since a transient failure may occur
+   * after the tool has run. Calls rejected by the request pipeline never
+   * reached the tool, and are retried either way when `PipelineError` is in
+   * `retryableErrors`.
+   *
+   * @defaultValue false
+   */
+  retryNonIdempotentTools?: boolean;
+}
+
+/**
+ * Per-server circuit breaker options for tool calls.
+ *
+ * @remarks
+ * The circuit for a server opens after `failureThreshold` consecutive tool calls
+ * fail with a `ToolExecutionError`, `TimeoutError` or `ConnectionError`. While it
+ * is open, calls to that server fail fast with a `ServerUnhealthyError`, and the
+ * server is skipped by `getAgentTools()`. After `cooldownMs` the circuit is
+ * half-open: one trial call is let through, closing the circuit on success or
+ * reopening it on failure.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Number of consecutive failures that opens the circuit.
+   *
+   * @defaultValue 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time the circuit stays open before a trial call is allowed, in milliseconds.
+   *
+   * @defaultValue 30000
+   */
+  cooldownMs?: number;
+}
+
+/**
+ * Options for OpenTelemetry tracing.
+ */
+export interface TracingOptions {
+  /**
+   * The `@opentelemetry/api` module to create spans with, e.g.
+   * `import * as api from "@opentelemetry/api"`.
+   *
+   * When omitted, the client imports `@opentelemetry/api` itself, and its
+   * first requests wait for the import. Bundled and edge builds should pass
+   * the module, as the client's own import is hidden from bundlers.
+   */
+  api?: typeof OpenTelemetryApi;
+}
+
+/**
+ * How requests are spread across daemon endpoints.
+ *
+ * - `failover`: use the first available endpoint, in the order given.
+ * - `round-robin`: rotate through the available endpoints.
+ * - `least-latency`: use the available endpoint with the lowest recent latency.
+ */
+export type LoadBalancingStrategy =
+  | "failover"
+  | "round-robin"
+  | "least-latency";
+
+/**
+ * Options for spreading requests across several daemon endpoints.
+ *
+ * @remarks
+ * An endpoint is marked down for `cooldownMs` when a request to it fails with
+ * a ConnectionError or TimeoutError, and is skipped until the cooldown has
+ * elapsed or a request to it gets a response. If every endpoint is down, the
+ * one whose cooldown ends first is used.
+ */
+export interface LoadBalancingOptions {
+  /**
+   * How an endpoint is selected for each request.
+   *
+   * @defaultValue "failover"
+   */
+  strategy?: LoadBalancingStrategy;
+
+  /**
+   * Time an endpoint stays marked down after a failure, in milliseconds.
+   *
+   * @defaultValue 30000
+   */
+  cooldownMs?: number;
+}
+
+/**
+ * Token bucket rate limit for tool calls.
+ */
+export interface RateLimitOptions {
+  /**
+   * Sustained number of calls allowed per second.
+   */
+  callsPerSecond: number;
+
+  /**
+   * Maximum number of calls that can start at once after an idle period.
+   *
+   * @defaultValue callsPerSecond, rounded up (at least 1)
+   */
+  burst?: number;
+}
+
+/**
+ * Concurrency and rate limits applied to a set of tool calls.
+ */
+export interface CallLimitOptions {
+  /**
+   * Maximum number of tool calls in flight at once.
+   */
+  maxConcurrent?: number;
+
+  /**
+   * Token bucket rate limit for starting tool calls.
+   */
+  rateLimit?: RateLimitOptions;
+}
+
+/**
+ * Client-side limits for tool calls.
+ *
+ * @remarks
+ * The top-level limits apply across all servers. `perServer` limits apply to
+ * each server separately, and `servers` overrides them for specific servers.
+ * Calls over a limit wait in a queue until a slot or token is available. The
+ * wait does not count towards the request timeout, and is cancelled by the
+ * call's AbortSignal.
+ */
+export interface LimitsOptions extends CallLimitOptions {
+  /**
+   * Limits applied to each server separately.
+   */
+  perServer?: CallLimitOptions;
+
+  /**
+   * Limits for specific servers, keyed by server name. Overrides `perServer`
+   * field by field.
+   */
+  servers?: Record<string, CallLimitOptions>;
+
+  /**
+   * Maximum number of calls waiting in the queue. Calls beyond this are rejected
+   * with a `QueueFullError`. Unbounded when omitted.
+   */
+  maxQueueSize?: number;
+}
+
+/**
+ * Bearer token returned by a {@link CredentialsProvider}.
+ */
+export interface Credentials {
+  /**
+   * Token sent as `Authorization: Bearer <token>`.
+   */
+  token: string;
+
+  /**
+   * Time the token expires, in milliseconds since the epoch (as returned by
+   * `Date.now()`). The token is refreshed shortly before it expires. Tokens
+   * without an expiry are used until the daemon rejects them.
+   */
+  expiresAt?: number;
+}
+
+/**
+ * Async function that supplies the bearer token for requests to the daemon.
+ *
+ * The client caches the result and calls the provider again when the token
+ * is about to expire, or when the daemon rejects it with 401/403. A plain
+ * string is treated as a token without expiry.
+ */
+export type CredentialsProvider = () => Promise<string | Credentials>;
+
+/**
+ * Fetch-compatible function used to send HTTP requests to the mcpd daemon.
+ *
+ * Any WHATWG fetch implementation is compatible, e.g. undici's `fetch`, a
+ * fetch bound to a keep-alive connection pool, an instrumented fetch, or a
+ * test double.
+ */
+export type FetchFunction = (
+  url: string,
+  init: RequestInit,
+) => Promise<Response>;
+
+/**
+ * A request to the mcpd daemon as seen by middleware.
+ *
+ * Middleware may change any writable field before calling `next()`; the
+ * request is sent with the values in place at that point.
+ */
+export interface MiddlewareContext {
+  /**
+   * HTTP method, e.g. "GET" or "POST".
+   */
+  method: string;
+
+  /**
+   * API path relative to the daemon endpoint (see API_PATHS), including any query.
+   */
+  path: string;
+
+  /**
+   * Request headers, including Content-Type and Authorization.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * JSON encoded request body, if any.
+   */
+  body: string | undefined;
+
+  /**
+   * Name of the MCP server the request targets, if any.
+   */
+  readonly serverName?: string;
+
+  /**
+   * Name of the tool being called, for tool calls.
+   */
+  readonly toolName?: string;
+
+  /**
+   * Name of the prompt being generated, for prompt generation.
+   */
+  readonly promptName?: string;
+
+  /**
+   * URI of the resource being read, for resource reads.
+   */
+  readonly resourceUri?: string;
+
+  /**
+   * Attempt number (1-based) when retries are enabled. A request resent with
+   * refreshed credentials keeps the attempt number of the rejected one.
+   */
+  readonly attempt: number;
+
+  /**
+   * Signal that aborts this attempt on cancellation or timeout.
+   */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Continues the middleware chain, eventually sending the request.
+ *
+ * Resolves with the raw Response (including non-2xx responses) and rejects
+ * with an McpdError when the request cannot be sent, e.g. ConnectionError or
+ * TimeoutError.
+ */
+export type MiddlewareNext = () => Promise<Response>;
+
+/**
+ * Middleware wrapping every request to the mcpd daemon.
+ *
+ * Middleware runs in registration order around each attempt. It can change
+ * the request before calling `next()`, inspect or replace the Response it
+ * returns, handle errors it throws, or short-circuit by returning a Response
+ * without calling `next()`.
+ *
+ * @example
+ * ```typescript
+ * const requestId: Middleware = async (ctx, next) => {
+ *   ctx.headers["X-Request-Id"] = crypto.randomUUID();
+ *   const response = await next();
+ *   console.log(ctx.method, ctx.path, response.status);
+ *   return response;
+ * };
+ * ```
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: MiddlewareNext,
+) => Promise<Response>;
+
+/**
+ * Per-call options accepted by every public method that talks to the daemon.
+ */
+export interface RequestOptions {
+  /**
+   * Signal used to cancel the operation.
+   *
+   * When aborted, the operation rejects with an `AbortedError`.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Request timeout in milliseconds for this call, overriding the client-wide `timeout`.
+   *
+   * The timeout applies to each request made on behalf of the call, including
+   * reading its response body.
+   */
+  timeoutMs?: number;
+}
+
 /**
  * Configuration options for the McpdClient.
  */
-export interface McpdClientOptions {
+export interface McpdClientOptions<Legacy extends boolean = boolean> {
   /**
-   * The mcpd daemon API endpoint URL.
+   * The mcpd daemon API endpoint URL, or the URLs of several daemon replicas.
+   *
+   * Use a `unix://` URL (e.g. `unix:///run/mcpd.sock`) to talk to a local
+   * daemon over a unix domain socket (Node.js only).
+   *
+   * With several endpoints, `loadBalancing` selects the endpoint for each
+   * request.
    */
-  apiEndpoint: string;
+  apiEndpoint: string | string[];
 
   /**
    * Optional API key for authentication.
    */
   apiKey?: string;
 
+  /**
+   * Optional provider of short-lived bearer tokens, used instead of `apiKey`.
+   *
+   * The token is obtained before each request and cached until it expires.
+   * When the daemon responds with 401/403, the token is refreshed once and
+   * the request retried before an `AuthenticationError` is thrown.
+   */
+  credentials?: CredentialsProvider;
+
+  /**
+   * Create OpenTelemetry spans for daemon requests, tool calls, health checks
+   * and getAgentTools, and send W3C trace context (`traceparent`,
+   * `tracestate`) to the daemon.
+   *
+   * Pass `true` to import the optional `@opentelemetry/api` package, or the
+   * package itself as `{ api }`. A registered OpenTelemetry SDK is needed to
+   * record anything. Tracing is off by default, and nothing is imported.
+   *
+   * @defaultValue false
+   */
+  tracing?: boolean | TracingOptions;
+
+  /**
+   * Collect tool call and cache metrics, readable via `getMetrics()` and
+   * `exportMetrics()`. Default: true.
+   */
+  metrics?: boolean;
+
   /**
    * TTL in seconds for caching server health checks.
    */
   healthCacheTtl?: number;
 
+  /**
+   * TTL in seconds for caching each server's tool list.
+   *
+   * Cached tool lists are shared by dynamic tool calls, `hasTool()`, `callTool()`
+   * and `getAgentTools()`, so a cached tool call makes a single request to the
+   * daemon. Set to 0 to disable caching.
+   *
+   * @defaultValue 60
+   */
+  toolsCacheTtl?: number;
+
   /**
    * Request timeout in milliseconds.
    */
   timeout?: number;
 
+  /**
+   * Optional retry policy for transient failures.
+   *
+   * Retries are disabled by default.
+   *
+   * @example
+   * ```typescript
+   * const client = new McpdClient({
+   *   apiEndpoint: "http://localhost:8090",
+   *   retry: { maxAttempts: 3, initialDelayMs: 250 },
+   * });
+   * ```
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Optional per-server circuit breaker for tool calls.
+   *
+   * Disabled when omitted.
+   *
+   * @example
+   * ```typescript
+   * const client = new McpdClient({
+   *   apiEndpoint: "http://localhost:8090",
+   *   circuitBreaker: { failureThreshold: 3, cooldownMs: 10_000 },
+   * });
+   * ```
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /**
+   * Optional client-side concurrency and rate limits for tool calls.
+   *
+   * Disabled when omitted.
+   *
+   * @example
+   * ```typescript
+   * const client = new McpdClient({
+   *   apiEndpoint: "http://localhost:8090",
+   *   limits: {
+   *     maxConcurrent: 16,
+   *     perServer: { maxConcurrent: 4 },
+   *     servers: { github: { rateLimit: { callsPerSecond: 5 } } },
+   *     maxQueueSize: 100,
+   *   },
+   * });
+   * ```
+   */
+  limits?: LimitsOptions;
+
+  /**
+   * Optional load balancing across several `apiEndpoint` URLs.
+   *
+   * Ignored with a single endpoint.
+   *
+   * @example
+   * ```typescript
+   * const client = new McpdClient({
+   *   apiEndpoint: ["http://mcpd-a:8090", "http://mcpd-b:8090"],
+   *   loadBalancing: { strategy: "round-robin", cooldownMs: 10_000 },
+   * });
+   * ```
+   */
+  loadBalancing?: LoadBalancingOptions;
+
+  /**
+   * Optional fetch implementation used for every request to the daemon.
+   *
+   * Defaults to the global `fetch`, resolved at request time. It is used for
+   * every endpoint. When an endpoint is a unix socket, the injected fetch receives
+   * `http://localhost` URLs and is responsible for routing them to the socket.
+   *
+   * @example
+   * ```typescript
+   * import { Agent, fetch as undiciFetch } from "undici";
+   *
+   * const agent = new Agent({ keepAliveTimeout: 30_000, connections: 16 });
+   * const client = new McpdClient({
+   *   apiEndpoint: "http://localhost:8090",
+   *   fetch: (url, init) => undiciFetch(url, { ...init, dispatcher: agent }),
+   * });
+   * ```
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * Optional middleware applied to every request to the daemon, in order.
+   *
+   * More middleware can be added later with `client.use()`.
+   */
+  middleware?: Middleware[];
+
   /**
    * Optional custom logger for SDK warnings and errors.
    *
@@ -268,8 +898,70 @@ export interface McpdClientOptions {
    * ```
    */
   logger?: Partial<Logger>;
+
+  /**
+   * Optional log level for the default logger, overriding MCPD_LOG_LEVEL.
+   *
+   * Use this in runtimes without environment variables, such as browsers and
+   * edge workers. Methods supplied via `logger` are not affected.
+   *
+   * @example
+   * ```typescript
+   * const client = new McpdClient({
+   *   apiEndpoint: "https://mcpd.example.com",
+   *   logLevel: "warn",
+   * });
+   * ```
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Resolve tool calls to loosely parsed values instead of CallToolResults.
+   *
+   * Tool responses that are JSON strings are parsed, and other responses are
+   * returned as they are, as before CallToolResult was introduced. Tool calls
+   * of a client created with `legacyToolResults: true` are typed as returning
+   * `unknown` (see {@link ClientToolResult}); this option is a migration aid.
+   *
+   * @defaultValue false
+   */
+  legacyToolResults?: Legacy;
+
+  /**
+   * Check the structured content of tool results against the tool's
+   * `outputSchema`.
+   *
+   * - `"off"`: results are not checked (default)
+   * - `"strict"`: mismatches throw OutputValidationError
+   * - `"lenient"`: mismatches are logged as warnings and the result is returned
+   *
+   * Results flagged `isError` and tools without an output schema are not
+   * checked. The schema is taken from the server's tool list, which is fetched
+   * if it isn't cached.
+   *
+   * @defaultValue "off"
+   */
+  outputValidation?: OutputValidationMode;
+
+  /**
+   * Default result policy of the tools returned by getAgentTools().
+   *
+   * @example
+   * ```typescript
+   * const client = new McpdClient({
+   *   apiEndpoint: "http://localhost:8090",
+   *   resultPolicy: { maxTokens: 4000, format: "text" },
+   * });
+   * ```
+   */
+  resultPolicy?: ResultPolicy;
 }
 
+/**
+ * How tool results are checked against their tool's output schema.
+ */
+export type OutputValidationMode = "off" | "strict" | "lenient";
+
 /**
  * Tool format types for cross-framework compatibility.
  *
@@ -284,7 +976,7 @@ export type AgentToolsFormat = "array" | "object" | "map";
 /**
  * Base options shared across all agent tools configurations.
  */
-export interface BaseAgentToolsOptions {
+export interface BaseAgentToolsOptions extends RequestOptions {
   /**
    * List of server names to include. If not specified, or empty, should include all servers.
    */
@@ -305,12 +997,108 @@ export interface BaseAgentToolsOptions {
   tools?: string[];
 
   /**
-   * When true, clears the agent tools cache and fetches fresh tool schemas from servers.
+   * When true, clears the agent tools and tool list caches and fetches fresh tool schemas from servers.
    * When false or undefined, returns cached functions if available.
    *
    * @defaultValue false
    */
   refreshCache?: boolean;
+
+  /**
+   * How the returned tools render and truncate results for the model,
+   * overriding the client's `resultPolicy` field by field.
+   */
+  resultPolicy?: ResultPolicy;
+
+  /**
+   * Result policies for individual tools, overriding `resultPolicy` field by
+   * field. Keys are raw or server-prefixed tool names, as in `tools`.
+   *
+   * @example { fetch__fetch: { maxTokens: 2000, truncate: "middle" } }
+   */
+  toolResultPolicies?: Record<string, ResultPolicy>;
+}
+
+/**
+ * How an agent tool's `invoke()` and `execute()` present results to a model.
+ *
+ * @remarks
+ * With a policy, results are rendered in `format` and, if they are longer
+ * than the limit, truncated. Truncation is recorded under
+ * `_meta["mcpd/truncation"]` of the returned result. Calling the agent
+ * function directly always returns the tool's result as it is.
+ */
+export interface ResultPolicy {
+  /**
+   * Maximum length of the rendered result in characters, including the
+   * truncation marker.
+   */
+  maxChars?: number;
+
+  /**
+   * Maximum length of the rendered result in estimated tokens, at four
+   * characters per token. If maxChars is also set, the lower limit applies.
+   */
+  maxTokens?: number;
+
+  /**
+   * Which part of an over-long result to keep.
+   *
+   * - `"head"`: the beginning (default)
+   * - `"tail"`: the end
+   * - `"middle"`: the beginning and the end, dropping the middle
+   */
+  truncate?: TruncationStrategy;
+
+  /**
+   * Text inserted where content was removed. `{omitted}` is replaced by the
+   * number of characters removed.
+   *
+   * @defaultValue "\n[... {omitted} characters truncated ...]\n"
+   */
+  marker?: string;
+
+  /**
+   * How the result is rendered.
+   *
+   * - `"json"`: the MCP result as it is; its JSON text if it must be truncated
+   *   (default)
+   * - `"text"`: the text content, with brief placeholders for images, audio
+   *   and resources
+   * - `"markdown"`: like text, with resource links as Markdown links and
+   *   structured content and embedded resources as code blocks
+   */
+  format?: ResultFormat;
+}
+
+/**
+ * Which part of an over-long tool result is kept.
+ */
+export type TruncationStrategy = "head" | "tail" | "middle";
+
+/**
+ * How tool results are rendered for a model.
+ */
+export type ResultFormat = "json" | "text" | "markdown";
+
+/**
+ * Record of a truncated tool result, under `_meta["mcpd/truncation"]`.
+ */
+export interface TruncationInfo {
+  /**
+   * The strategy used.
+   */
+  strategy: TruncationStrategy;
+
+  /**
+   * Length of the rendered result before truncation, in characters.
+   */
+  originalChars: number;
+
+  /**
+   * Number of characters removed.
+   */
+  omittedChars: number;
 }
 
 /**
@@ -346,30 +1134,143 @@ export type AgentToolsOptions =
   | ObjectAgentToolsOptions
   | MapAgentToolsOptions;
 
+/**
+ * A tool call in a batch passed to `callTools()`.
+ */
+export interface ToolCallRequest {
+  /**
+   * Name of the server.
+   */
+  server: string;
+
+  /**
+   * Exact name of the tool.
+   */
+  tool: string;
+
+  /**
+   * Tool arguments.
+   */
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Options for a batch of tool calls.
+ *
+ * @remarks
+ * `signal` cancels the whole batch; calls cancelled by it are reported as
+ * failed with an `AbortedError`. `timeoutMs` applies to each call.
+ */
+export interface CallToolsOptions extends RequestOptions {
+  /**
+   * Maximum number of calls in flight at once. Client-wide `limits` still
+   * apply on top of it.
+   *
+   * @defaultValue 4
+   */
+  concurrency?: number;
+
+  /**
+   * Stop at the first failed call. Calls in flight are cancelled and calls
+   * not yet started are skipped; both are reported as failed with an
+   * `AbortedError` whose cause is the first failure.
+   *
+   * Results flagged `isError` are not failures.
+   *
+   * @defaultValue false
+   */
+  failFast?: boolean;
+}
+
+/**
+ * Outcome of a tool call that returned a result.
+ */
+export interface ToolCallSuccess<TResult = CallToolResult> {
+  status: "fulfilled";
+  server: string;
+  tool: string;
+
+  /**
+   * The tool's result, which may be flagged `isError`.
+   */
+  result: TResult;
+
+  /**
+   * Time from the start of the call until it settled, including the server's
+   * health check.
+   */
+  durationMs: number;
+}
+
+/**
+ * Outcome of a tool call that failed.
+ */
+export interface ToolCallFailure {
+  status: "rejected";
+  server: string;
+  tool: string;
+
+  /**
+   * Why the call failed, e.g. a `ServerUnhealthyError` or `TimeoutError`.
+   */
+  error: McpdError;
+
+  /**
+   * Time from the start of the call until it settled, including the server's
+   * health check.
+   */
+  durationMs: number;
+}
+
+/**
+ * Outcome of one call in a batch, in the style of `Promise.allSettled()`.
+ */
+export type ToolCallOutcome<TResult = CallToolResult> =
+  | ToolCallSuccess<TResult>
+  | ToolCallFailure;
+
 /**
  * Function signature for performing tool calls.
  * This is injected into proxy classes via dependency injection.
  * @internal
  */
-export type PerformCallFn = (
+export type PerformCallFn<TResult = CallToolResult> = (
   serverName: string,
   toolName: string,
   args?: Record<string, unknown>,
-) => Promise<unknown>;
+  options?: RequestOptions,
+) => Promise<TResult>;
+
+/**
+ * Type of a client's tool call results.
+ *
+ * `CallToolResult` by default, and `unknown` for clients created with
+ * `legacyToolResults: true`, whose tool calls resolve to loosely parsed values.
+ */
+export type ClientToolResult<
+  Legacy extends boolean = false,
+  TStructured extends Record<string, unknown> = Record<string, unknown>,
+> = [Legacy] extends [false] ? CallToolResult<TStructured> : unknown;
 
 /**
  * Function signature for getting tools from a server.
  * This is injected into proxy classes via dependency injection.
  * @internal
  */
-export type GetToolsFn = (serverName: string) => Promise<Tool[]>;
+export type GetToolsFn = (
+  serverName: string,
+  options?: RequestOptions,
+) => Promise<Tool[]>;
 
 /**
  * Function signature for getting prompt templates from a server.
  * This is injected into proxy classes via dependency injection.
  * @internal
  */
-export type GetPromptsFn = (serverName: string) => Promise<Prompt[]>;
+export type GetPromptsFn = (
+  serverName: string,
+  options?: RequestOptions,
+) => Promise<Prompt[]>;
 
 /**
  * Function signature for generating a prompt from a template.
@@ -380,6 +1281,7 @@ export type GeneratePromptFn = (
   serverName: string,
   promptName: string,
   args?: Record<string, string>,
+  options?: RequestOptions,
 ) => Promise<GeneratePromptResponseBody>;
 
 /**
@@ -387,7 +1289,10 @@ export type GeneratePromptFn = (
  * This is injected into proxy classes via dependency injection.
  * @internal
  */
-export type GetResourcesFn = (serverName: string) => Promise<Resource[]>;
+export type GetResourcesFn = (
+  serverName: string,
+  options?: RequestOptions,
+) => Promise<Resource[]>;
 
 /**
  * Function signature for getting resource templates from a server.
@@ -396,6 +1301,7 @@ export type GetResourcesFn = (serverName: string) => Promise<Resource[]>;
  */
 export type GetResourceTemplatesFn = (
   serverName: string,
+  options?: RequestOptions,
 ) => Promise<ResourceTemplate[]>;
 
 /**
@@ -406,6 +1312,7 @@ export type GetResourceTemplatesFn = (
 export type ReadResourceFn = (
   serverName: string,
   uri: string,
+  options?: RequestOptions,
 ) => Promise<ResourceContent[]>;
 
 /**
@@ -504,6 +1411,94 @@ export interface ResourceTemplates {
   nextCursor?: string;
 }
 
+/**
+ * Text content in a tool result.
+ */
+export interface TextContent {
+  type: "text";
+  text: string;
+  annotations?: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Image content in a tool result, base64-encoded.
+ */
+export interface ImageContent {
+  type: "image";
+  data: string;
+  mimeType: string;
+  annotations?: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Audio content in a tool result, base64-encoded.
+ */
+export interface AudioContent {
+  type: "audio";
+  data: string;
+  mimeType: string;
+  annotations?: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Link to a resource that can be read with `readResource()`.
+ */
+export interface ResourceLink {
+  type: "resource_link";
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+  annotations?: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Resource contents embedded in a tool result.
+ */
+export interface EmbeddedResource {
+  type: "resource";
+  resource: ResourceContent;
+  annotations?: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * A content block in a tool result.
+ */
+export type ContentBlock =
+  | TextContent
+  | ImageContent
+  | AudioContent
+  | ResourceLink
+  | EmbeddedResource;
+
+/**
+ * MCP tool call result, as sent by the daemon.
+ */
+export interface CallToolResultData<
+  TStructured extends Record<string, unknown> = Record<string, unknown>,
+> {
+  content: ContentBlock[];
+
+  /**
+   * Structured output, matching the tool's `outputSchema` if it has one.
+   */
+  structuredContent?: TStructured;
+
+  /**
+   * True if the tool reported an error; the content describes it.
+   */
+  isError?: boolean;
+
+  _meta?: Record<string, unknown>;
+}
+
 /**
  * Arguments for generating a prompt from a template.
  */
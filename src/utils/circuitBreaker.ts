@@ -0,0 +1,192 @@
+/**
+ * Circuit breaker utilities for the mcpd SDK.
+ *
+ * This module tracks consecutive tool call failures per MCP server so that
+ * McpdClient can fail fast while a server is known to be failing, instead of
+ * waiting for every call to time out.
+ */
+
+import type { CircuitBreakerOptions } from "../types";
+
+/**
+ * Default number of consecutive failures that opens a circuit.
+ */
+const DEFAULT_FAILURE_THRESHOLD = 5;
+
+/**
+ * Default time a circuit stays open before allowing a trial call, in milliseconds.
+ */
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/**
+ * State of a server's circuit.
+ * @internal
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Per-server circuit bookkeeping.
+ */
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  trialInFlight: boolean;
+}
+
+/**
+ * Circuit breaker keyed by server name.
+ *
+ * @remarks
+ * - closed: calls are allowed; consecutive failures are counted.
+ * - open: calls are rejected until the cooldown has elapsed.
+ * - half-open: a single trial call is allowed; success closes the circuit,
+ *   failure opens it again for another cooldown.
+ *
+ * @internal
+ */
+export class CircuitBreaker {
+  readonly failureThreshold: number;
+  readonly cooldownMs: number;
+  readonly #circuits = new Map<string, Circuit>();
+  readonly #now: () => number;
+
+  /**
+   * @param options - Circuit breaker options supplied by the caller
+   * @param now - Clock in milliseconds, injectable for testing
+   * @throws {RangeError} If numeric options are out of range
+   */
+  constructor(
+    options: CircuitBreakerOptions = {},
+    now: () => number = Date.now,
+  ) {
+    this.failureThreshold =
+      options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.#now = now;
+
+    if (!Number.isInteger(this.failureThreshold) || this.failureThreshold < 1) {
+      throw new RangeError(
+        "circuitBreaker.failureThreshold must be an integer >= 1",
+      );
+    }
+    if (this.cooldownMs < 0) {
+      throw new RangeError("circuitBreaker.cooldownMs must be >= 0");
+    }
+  }
+
+  /**
+   * Get the current state of a server's circuit.
+   *
+   * An open circuit whose cooldown has elapsed is reported as half-open.
+   *
+   * @param key - The server name
+   * @returns The circuit state
+   */
+  getState(key: string): CircuitState {
+    const circuit = this.#circuits.get(key);
+    if (!circuit) {
+      return "closed";
+    }
+
+    if (
+      circuit.state === "open" &&
+      this.#now() - circuit.openedAt >= this.cooldownMs
+    ) {
+      return "half-open";
+    }
+
+    return circuit.state;
+  }
+
+  /**
+   * Check whether a server's circuit is open and still cooling down.
+   *
+   * @param key - The server name
+   * @returns True if calls to the server should be rejected
+   */
+  isOpen(key: string): boolean {
+    return this.getState(key) === "open";
+  }
+
+  /**
+   * Try to start a call to a server.
+   *
+   * @param key - The server name
+   * @returns True if the call may proceed, false if it should fail fast
+   */
+  tryAcquire(key: string): boolean {
+    const circuit = this.#circuits.get(key);
+    const state = this.getState(key);
+
+    if (!circuit || state === "closed") {
+      return true;
+    }
+    if (state === "open" || circuit.trialInFlight) {
+      return false;
+    }
+
+    // Half-open: let a single trial call through.
+    circuit.state = "half-open";
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a call that reached the server, closing the circuit.
+   *
+   * @param key - The server name
+   */
+  recordSuccess(key: string): void {
+    this.#circuits.delete(key);
+  }
+
+  /**
+   * Record a failed call.
+   *
+   * Calls that started before the circuit opened and fail afterwards are
+   * ignored, so they don't extend the cooldown.
+   *
+   * @param key - The server name
+   * @returns True if this failure opened the circuit
+   */
+  recordFailure(key: string): boolean {
+    const circuit = this.#circuits.get(key) ?? {
+      state: "closed",
+      failures: 0,
+      openedAt: 0,
+      trialInFlight: false,
+    };
+    if (circuit.state === "open") {
+      return false;
+    }
+    this.#circuits.set(key, circuit);
+
+    circuit.failures++;
+    circuit.trialInFlight = false;
+
+    if (
+      circuit.state === "half-open" ||
+      circuit.failures >= this.failureThreshold
+    ) {
+      circuit.state = "open";
+      circuit.openedAt = this.#now();
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a call that ended without telling anything about the server's
+   * health (e.g. cancelled by the caller), releasing a half-open trial.
+   *
+   * @param key - The server name
+   */
+  release(key: string): void {
+    const circuit = this.#circuits.get(key);
+    if (circuit) {
+      circuit.trialInFlight = false;
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Credential utilities for the mcpd SDK.
+ *
+ * This module caches the bearer tokens supplied by a user's credentials
+ * provider, and refreshes them when they are about to expire or have been
+ * rejected by the mcpd daemon.
+ */
+
+import { AuthenticationError, McpdError } from "../errors";
+import type { Credentials, CredentialsProvider } from "../types";
+
+/**
+ * Time before expiry at which a token is refreshed, in milliseconds.
+ */
+const EXPIRY_MARGIN_MS = 30_000;
+
+/**
+ * Caches and refreshes the token supplied by a credentials provider.
+ *
+ * @remarks
+ * Concurrent callers share a single in-flight call to the provider.
+ *
+ * @internal
+ */
+export class CredentialsManager {
+  readonly #provider: CredentialsProvider;
+  readonly #onRefresh: () => void;
+  readonly #now: () => number;
+  #current: Credentials | undefined;
+  #pending: Promise<string> | undefined;
+
+  /**
+   * @param provider - Provider supplied by the caller
+   * @param onRefresh - Called after each token obtained from the provider
+   * @param now - Clock in milliseconds, injectable for testing
+   */
+  constructor(
+    provider: CredentialsProvider,
+    onRefresh: () => void = () => {},
+    now: () => number = Date.now,
+  ) {
+    this.#provider = provider;
+    this.#onRefresh = onRefresh;
+    this.#now = now;
+  }
+
+  /**
+   * Get a valid token, obtaining a new one if there is none or it is expiring.
+   *
+   * @returns The bearer token
+   * @throws {AuthenticationError} If the provider fails
+   */
+  async getToken(): Promise<string> {
+    const current = this.#current;
+    if (current && !this.#isExpiring(current)) {
+      return current.token;
+    }
+    return this.#refresh();
+  }
+
+  /**
+   * Replace a token that was rejected by the daemon.
+   *
+   * If the token has already been replaced (e.g. by a concurrent request),
+   * the replacement is returned without calling the provider again.
+   *
+   * @param rejectedToken - The token the daemon rejected
+   * @returns The new bearer token
+   * @throws {AuthenticationError} If the provider fails
+   */
+  async refresh(rejectedToken: string): Promise<string> {
+    if (this.#current?.token === rejectedToken) {
+      this.#current = undefined;
+    }
+    return this.getToken();
+  }
+
+  #isExpiring(credentials: Credentials): boolean {
+    return (
+      credentials.expiresAt !== undefined &&
+      this.#now() >= credentials.expiresAt - EXPIRY_MARGIN_MS
+    );
+  }
+
+  #refresh(): Promise<string> {
+    this.#pending ??= this.#obtain().finally(() => {
+      this.#pending = undefined;
+    });
+    return this.#pending;
+  }
+
+  async #obtain(): Promise<string> {
+    let result: string | Credentials;
+    try {
+      result = await this.#provider();
+    } catch (error) {
+      if (error instanceof McpdError) {
+        throw error;
+      }
+      const cause = error instanceof Error ? error : undefined;
+      throw new AuthenticationError(
+        `Failed to obtain credentials: ${cause?.message ?? String(error)}`,
+        cause,
+      );
+    }
+
+    this.#current = typeof result === "string" ? { token: result } : result;
+    this.#onRefresh();
+    return this.#current.token;
+  }
+}
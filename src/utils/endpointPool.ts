@@ -0,0 +1,244 @@
+/**
+ * Endpoint selection utilities for the mcpd SDK.
+ *
+ * This module tracks the availability and latency of each daemon endpoint so
+ * that McpdClient can spread requests across mcpd replicas and move away from
+ * replicas that are failing.
+ */
+
+import type {
+  FetchFunction,
+  LoadBalancingOptions,
+  LoadBalancingStrategy,
+} from "../types";
+import {
+  UNIX_SOCKET_BASE_URL,
+  createUnixSocketFetch,
+  parseUnixSocketEndpoint,
+} from "./unixSocket";
+
+/**
+ * Default load balancing strategy.
+ */
+const DEFAULT_STRATEGY: LoadBalancingStrategy = "failover";
+
+/**
+ * Default time an endpoint stays marked down, in milliseconds.
+ */
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/**
+ * Weight of the newest sample in an endpoint's latency average.
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+const STRATEGIES: readonly LoadBalancingStrategy[] = [
+  "failover",
+  "round-robin",
+  "least-latency",
+];
+
+/**
+ * A daemon endpoint and how to send requests to it.
+ * @internal
+ */
+export interface DaemonEndpoint {
+  /**
+   * The endpoint URL as configured, without a trailing slash.
+   */
+  readonly url: string;
+
+  /**
+   * Base URL prepended to API paths.
+   */
+  readonly baseUrl: string;
+
+  /**
+   * Fetch used for requests to this endpoint.
+   */
+  readonly fetch: FetchFunction;
+}
+
+/**
+ * Create the endpoint for a configured daemon URL.
+ *
+ * @param url - The daemon URL, http(s) or `unix://`
+ * @param fetch - Fetch supplied by the caller, if any
+ * @returns The endpoint
+ * @internal
+ */
+export function createDaemonEndpoint(
+  url: string,
+  fetch?: FetchFunction,
+): DaemonEndpoint {
+  // Remove trailing slash from endpoint.
+  const endpoint = url.replace(/\/$/, "");
+
+  // Unix socket endpoints are requested via http://localhost over the socket.
+  const socketPath = parseUnixSocketEndpoint(endpoint);
+
+  return {
+    url: endpoint,
+    baseUrl: socketPath ? UNIX_SOCKET_BASE_URL : endpoint,
+    // Resolve the global fetch lazily so it can be replaced after construction.
+    fetch:
+      fetch ??
+      (socketPath
+        ? createUnixSocketFetch(socketPath)
+        : (input, init) => globalThis.fetch(input, init)),
+  };
+}
+
+/**
+ * Per-endpoint bookkeeping.
+ */
+interface EndpointState {
+  downUntil: number;
+  latencyMs: number | undefined;
+}
+
+/**
+ * Selects the endpoint for each request according to a load balancing strategy.
+ *
+ * @remarks
+ * Endpoints marked down are skipped until their cooldown has elapsed or a
+ * request to them gets a response. If every endpoint is down, the one whose
+ * cooldown ends first is selected, so requests are never refused untried.
+ *
+ * @internal
+ */
+export class EndpointPool {
+  readonly strategy: LoadBalancingStrategy;
+  readonly cooldownMs: number;
+  readonly #endpoints: readonly DaemonEndpoint[];
+  readonly #states = new Map<DaemonEndpoint, EndpointState>();
+  readonly #now: () => number;
+  #next = 0;
+
+  /**
+   * @param endpoints - The endpoints, in order of preference
+   * @param options - Load balancing options supplied by the caller
+   * @param now - Clock in milliseconds, injectable for testing
+   * @throws {TypeError} If there are no endpoints
+   * @throws {RangeError} If options are out of range
+   */
+  constructor(
+    endpoints: readonly DaemonEndpoint[],
+    options: LoadBalancingOptions = {},
+    now: () => number = Date.now,
+  ) {
+    this.strategy = options.strategy ?? DEFAULT_STRATEGY;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.#endpoints = endpoints;
+    this.#now = now;
+
+    if (endpoints.length === 0) {
+      throw new TypeError("apiEndpoint must contain at least one endpoint");
+    }
+    if (!STRATEGIES.includes(this.strategy)) {
+      throw new RangeError(
+        `loadBalancing.strategy must be one of ${STRATEGIES.join(", ")}`,
+      );
+    }
+    if (this.cooldownMs < 0) {
+      throw new RangeError("loadBalancing.cooldownMs must be >= 0");
+    }
+
+    for (const endpoint of endpoints) {
+      this.#states.set(endpoint, { downUntil: 0, latencyMs: undefined });
+    }
+  }
+
+  /**
+   * Number of endpoints in the pool.
+   */
+  get size(): number {
+    return this.#endpoints.length;
+  }
+
+  /**
+   * True if the endpoint is not marked down.
+   */
+  isAvailable(endpoint: DaemonEndpoint): boolean {
+    return this.#state(endpoint).downUntil <= this.#now();
+  }
+
+  /**
+   * True if any endpoint is not marked down.
+   */
+  hasAvailable(): boolean {
+    return this.#endpoints.some((endpoint) => this.isAvailable(endpoint));
+  }
+
+  /**
+   * Select the endpoint for the next request.
+   */
+  select(): DaemonEndpoint {
+    const available = this.#endpoints.filter((endpoint) =>
+      this.isAvailable(endpoint),
+    );
+    if (available.length === 0) {
+      return this.#endpoints.reduce((soonest, endpoint) =>
+        this.#state(endpoint).downUntil < this.#state(soonest).downUntil
+          ? endpoint
+          : soonest,
+      );
+    }
+
+    switch (this.strategy) {
+      case "failover":
+        return available[0]!;
+      case "round-robin":
+        return this.#selectRoundRobin();
+      case "least-latency":
+        return this.#selectLeastLatency(available);
+    }
+  }
+
+  /**
+   * Mark an endpoint down for the cooldown period.
+   */
+  markDown(endpoint: DaemonEndpoint): void {
+    this.#state(endpoint).downUntil = this.#now() + this.cooldownMs;
+  }
+
+  /**
+   * Record a response from an endpoint, marking it available.
+   *
+   * @param endpoint - The endpoint that responded
+   * @param latencyMs - Time until the response was received, in milliseconds
+   */
+  recordSuccess(endpoint: DaemonEndpoint, latencyMs: number): void {
+    const state = this.#state(endpoint);
+    state.downUntil = 0;
+    state.latencyMs =
+      state.latencyMs === undefined
+        ? latencyMs
+        : state.latencyMs + LATENCY_SMOOTHING * (latencyMs - state.latencyMs);
+  }
+
+  #selectRoundRobin(): DaemonEndpoint {
+    // Only called with at least one endpoint available.
+    for (let i = 0; ; i++) {
+      const index = (this.#next + i) % this.#endpoints.length;
+      const endpoint = this.#endpoints[index]!;
+      if (this.isAvailable(endpoint)) {
+        this.#next = index + 1;
+        return endpoint;
+      }
+    }
+  }
+
+  #selectLeastLatency(available: DaemonEndpoint[]): DaemonEndpoint {
+    // Endpoints without a measurement are tried first, so every one gets one.
+    return available.reduce((best, endpoint) => {
+      const latency = this.#state(endpoint).latencyMs ?? -1;
+      const bestLatency = this.#state(best).latencyMs ?? -1;
+      return latency < bestLatency ? endpoint : best;
+    });
+  }
+
+  #state(endpoint: DaemonEndpoint): EndpointState {
+    return this.#states.get(endpoint)!;
+  }
+}
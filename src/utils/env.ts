@@ -0,0 +1,24 @@
+/**
+ * Environment variable utilities for the mcpd SDK.
+ *
+ * This module reads environment variables where the runtime has them, for the
+ * default logger and the environment configuration.
+ */
+
+/**
+ * Read an environment variable.
+ *
+ * Runtimes without `process.env` have no variables, and runtimes that deny
+ * environment access (e.g. Deno without `--allow-env`) are treated the same.
+ *
+ * @param name - The variable name
+ * @returns The variable's value, or undefined if it can't be read
+ * @internal
+ */
+export function getEnvVar(name: string): string | undefined {
+  try {
+    return globalThis.process?.env?.[name];
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Client-side call limiting utilities for the mcpd SDK.
+ *
+ * This module provides the semaphore and token bucket used by McpdClient to
+ * cap concurrent tool calls and their rate, globally and per server, queueing
+ * calls that are over a limit.
+ */
+
+import { QueueFullError } from "../errors";
+import type {
+  CallLimitOptions,
+  LimitsOptions,
+  RateLimitOptions,
+} from "../types";
+import { sleep } from "./retry";
+
+/**
+ * A limit a call must pass before it may start.
+ * @internal
+ */
+interface Gate {
+  /**
+   * True if a call could pass the gate without waiting.
+   */
+  canPassNow(): boolean;
+
+  /**
+   * Wait until the call may pass, rejecting with the signal's reason on abort.
+   */
+  pass(signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Called when the call has finished.
+   */
+  release(): void;
+}
+
+/**
+ * Create the error used to reject a wait cancelled via the signal.
+ */
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("Aborted", "AbortError");
+}
+
+/**
+ * Counting semaphore with a FIFO wait queue.
+ * @internal
+ */
+export class Semaphore implements Gate {
+  readonly #max: number;
+  readonly #waiters: Array<() => void> = [];
+  #active = 0;
+
+  /**
+   * @param max - Maximum number of concurrent holders
+   */
+  constructor(max: number) {
+    this.#max = max;
+  }
+
+  canPassNow(): boolean {
+    return this.#active < this.#max && this.#waiters.length === 0;
+  }
+
+  pass(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+    if (this.canPassNow()) {
+      this.#active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
+        this.#active++;
+        resolve();
+      };
+      const onAbort = () => {
+        const index = this.#waiters.indexOf(grant);
+        if (index !== -1) {
+          this.#waiters.splice(index, 1);
+        }
+        reject(abortReason(signal!));
+      };
+
+      this.#waiters.push(grant);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  release(): void {
+    this.#active--;
+    this.#waiters.shift()?.();
+  }
+}
+
+/**
+ * Token bucket rate limiter.
+ * @internal
+ */
+export class TokenBucket implements Gate {
+  readonly #rate: number;
+  readonly #burst: number;
+  readonly #now: () => number;
+  #tokens: number;
+  #updatedAt: number;
+
+  /**
+   * @param options - Rate limit options
+   * @param now - Clock in milliseconds, injectable for testing
+   */
+  constructor(options: RateLimitOptions, now: () => number = Date.now) {
+    this.#rate = options.callsPerSecond;
+    this.#burst = options.burst ?? Math.max(1, Math.ceil(this.#rate));
+    this.#now = now;
+    this.#tokens = this.#burst;
+    this.#updatedAt = now();
+  }
+
+  canPassNow(): boolean {
+    this.#refill();
+    return this.#tokens >= 1;
+  }
+
+  async pass(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) {
+        throw abortReason(signal);
+      }
+      if (this.canPassNow()) {
+        this.#tokens -= 1;
+        return;
+      }
+
+      const waitMs = Math.ceil(((1 - this.#tokens) / this.#rate) * 1000);
+      await sleep(waitMs, signal);
+    }
+  }
+
+  release(): void {
+    // Tokens are consumed when a call starts; nothing to give back.
+  }
+
+  #refill(): void {
+    const now = this.#now();
+    const elapsedSeconds = (now - this.#updatedAt) / 1000;
+    this.#tokens = Math.min(
+      this.#burst,
+      this.#tokens + elapsedSeconds * this.#rate,
+    );
+    this.#updatedAt = now;
+  }
+}
+
+/**
+ * Create the gates for a set of limits, concurrency before rate.
+ */
+function createGates(options: CallLimitOptions): Gate[] {
+  const gates: Gate[] = [];
+  if (options.maxConcurrent !== undefined) {
+    gates.push(new Semaphore(options.maxConcurrent));
+  }
+  if (options.rateLimit) {
+    gates.push(new TokenBucket(options.rateLimit));
+  }
+  return gates;
+}
+
+/**
+ * Validate a set of limits.
+ *
+ * @throws {RangeError} If numeric options are out of range
+ */
+function validateLimits(options: CallLimitOptions, scope: string): void {
+  const { maxConcurrent, rateLimit } = options;
+  if (
+    maxConcurrent !== undefined &&
+    (!Number.isInteger(maxConcurrent) || maxConcurrent < 1)
+  ) {
+    throw new RangeError(`${scope}.maxConcurrent must be an integer >= 1`);
+  }
+  if (rateLimit && !(rateLimit.callsPerSecond > 0)) {
+    throw new RangeError(`${scope}.rateLimit.callsPerSecond must be > 0`);
+  }
+  if (rateLimit?.burst !== undefined && rateLimit.burst < 1) {
+    throw new RangeError(`${scope}.rateLimit.burst must be >= 1`);
+  }
+}
+
+/**
+ * Applies global and per-server limits to tool calls.
+ * @internal
+ */
+export class CallLimiter {
+  readonly #options: LimitsOptions;
+  readonly #globalGates: Gate[];
+  readonly #serverGates = new Map<string, Gate[]>();
+  #queued = 0;
+
+  /**
+   * @param options - Limits supplied by the caller
+   * @throws {RangeError} If numeric options are out of range
+   */
+  constructor(options: LimitsOptions) {
+    validateLimits(options, "limits");
+    validateLimits(options.perServer ?? {}, "limits.perServer");
+    for (const [name, limits] of Object.entries(options.servers ?? {})) {
+      validateLimits(limits, `limits.servers.${name}`);
+    }
+    if (
+      options.maxQueueSize !== undefined &&
+      (!Number.isInteger(options.maxQueueSize) || options.maxQueueSize < 0)
+    ) {
+      throw new RangeError("limits.maxQueueSize must be an integer >= 0");
+    }
+
+    this.#options = options;
+    this.#globalGates = createGates(options);
+  }
+
+  /**
+   * Wait until a call to a server may start.
+   *
+   * @param serverName - The server being called
+   * @param signal - Optional signal that cancels the wait
+   * @returns Function to call once the call has finished
+   * @throws {QueueFullError} If the call would have to wait and the queue is full
+   */
+  async acquire(serverName: string, signal?: AbortSignal): Promise<() => void> {
+    // Per-server limits are checked first, so a call never holds a global
+    // slot while waiting for its server.
+    const gates = [...this.#gatesFor(serverName), ...this.#globalGates];
+    const mustWait = !gates.every((gate) => gate.canPassNow());
+    const { maxQueueSize } = this.#options;
+
+    if (
+      mustWait &&
+      maxQueueSize !== undefined &&
+      this.#queued >= maxQueueSize
+    ) {
+      throw new QueueFullError(
+        `Call to server '${serverName}' rejected: queue is full (${maxQueueSize} waiting)`,
+        serverName,
+        maxQueueSize,
+      );
+    }
+
+    if (mustWait) {
+      this.#queued++;
+    }
+    const passed: Gate[] = [];
+    try {
+      for (const gate of gates) {
+        await gate.pass(signal);
+        passed.push(gate);
+      }
+    } catch (error) {
+      passed.forEach((gate) => gate.release());
+      throw error;
+    } finally {
+      if (mustWait) {
+        this.#queued--;
+      }
+    }
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        passed.forEach((gate) => gate.release());
+      }
+    };
+  }
+
+  /**
+   * Get (creating on first use) the gates of a server.
+   */
+  #gatesFor(serverName: string): Gate[] {
+    let gates = this.#serverGates.get(serverName);
+    if (!gates) {
+      gates = createGates({
+        ...this.#options.perServer,
+        ...this.#options.servers?.[serverName],
+      });
+      this.#serverGates.set(serverName, gates);
+    }
+    return gates;
+  }
+}
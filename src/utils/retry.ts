@@ -0,0 +1,225 @@
+/**
+ * Retry policy utilities for the mcpd SDK.
+ *
+ * This module resolves user supplied retry options into a complete policy and
+ * provides the backoff, Retry-After, idempotency key and sleep helpers used by
+ * McpdClient when retrying failed requests to the mcpd daemon.
+ */
+
+import { ConnectionError, TimeoutError } from "../errors";
+import type { RetryOptions } from "../types";
+
+/**
+ * Default maximum number of attempts (including the first one).
+ * A value of 1 disables retries.
+ */
+const DEFAULT_MAX_ATTEMPTS = 1;
+
+/**
+ * Default delay before the first retry, in milliseconds.
+ */
+const DEFAULT_INITIAL_DELAY_MS = 200;
+
+/**
+ * Default upper bound for a single backoff delay, in milliseconds.
+ */
+const DEFAULT_MAX_DELAY_MS = 5000;
+
+/**
+ * Default multiplier applied to the delay after each attempt.
+ */
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+
+/**
+ * Default HTTP status codes that are considered transient.
+ */
+const DEFAULT_RETRYABLE_STATUS_CODES = [502, 503, 504];
+
+/**
+ * Default error classes that are considered transient.
+ */
+const DEFAULT_RETRYABLE_ERRORS = [ConnectionError, TimeoutError];
+
+/**
+ * Fully resolved retry policy with defaults applied.
+ * @internal
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  jitter: boolean;
+  retryableStatusCodes: ReadonlySet<number>;
+  retryableErrors: ReadonlyArray<abstract new (...args: never[]) => Error>;
+  respectRetryAfter: boolean;
+  retryNonIdempotentTools: boolean;
+}
+
+/**
+ * Resolve retry options into a complete policy.
+ *
+ * @param options - Retry options supplied by the caller
+ * @returns The resolved retry policy
+ * @throws {RangeError} If numeric options are out of range
+ * @internal
+ */
+export function resolveRetryPolicy(options: RetryOptions = {}): RetryPolicy {
+  const policy: RetryPolicy = {
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    initialDelayMs: options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    backoffMultiplier: options.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER,
+    jitter: options.jitter ?? true,
+    retryableStatusCodes: new Set(
+      options.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES,
+    ),
+    retryableErrors: options.retryableErrors ?? DEFAULT_RETRYABLE_ERRORS,
+    respectRetryAfter: options.respectRetryAfter ?? true,
+    retryNonIdempotentTools: options.retryNonIdempotentTools ?? false,
+  };
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new RangeError("retry.maxAttempts must be an integer >= 1");
+  }
+  if (policy.initialDelayMs < 0 || policy.maxDelayMs < 0) {
+    throw new RangeError("retry delays must be >= 0");
+  }
+  if (policy.backoffMultiplier < 1) {
+    throw new RangeError("retry.backoffMultiplier must be >= 1");
+  }
+
+  return policy;
+}
+
+/**
+ * Compute the backoff delay before the next attempt.
+ *
+ * Uses exponential backoff capped at maxDelayMs. When jitter is enabled the
+ * "full jitter" strategy is applied, picking a random delay between zero and
+ * the computed backoff to avoid synchronized retries across clients.
+ *
+ * @param policy - The resolved retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @param random - Random source in the range [0, 1), injectable for testing
+ * @returns Delay in milliseconds
+ * @internal
+ */
+export function computeBackoffDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponential =
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return policy.jitter ? Math.floor(random() * capped) : capped;
+}
+
+/**
+ * Parse a Retry-After header value into a delay in milliseconds.
+ *
+ * Supports both forms defined by RFC 9110: delay in seconds and an HTTP date.
+ *
+ * @param value - The raw header value
+ * @param now - Current time in milliseconds since epoch, injectable for testing
+ * @returns Delay in milliseconds, or undefined if the value cannot be parsed
+ * @internal
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Create a random (version 4) UUID to send as a request's idempotency key.
+ *
+ * Uses `crypto.randomUUID()` where it exists. Browsers only provide it in
+ * secure contexts, so elsewhere the UUID is built from `getRandomValues()`.
+ *
+ * @param source - Random source, injectable for testing
+ * @returns The idempotency key
+ * @internal
+ */
+export function createIdempotencyKey(
+  source: {
+    randomUUID?: () => string;
+    getRandomValues<T extends Uint8Array>(array: T): T;
+  } = crypto,
+): string {
+  if (typeof source.randomUUID === "function") {
+    return source.randomUUID();
+  }
+
+  const bytes = source.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6]! & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80; // RFC 9562 variant
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"));
+  return [
+    hex.slice(0, 4),
+    hex.slice(4, 6),
+    hex.slice(6, 8),
+    hex.slice(8, 10),
+    hex.slice(10, 16),
+  ]
+    .map((group) => group.join(""))
+    .join("-");
+}
+
+/**
+ * Check whether an error is an instance of one of the retryable error classes.
+ *
+ * @param policy - The resolved retry policy
+ * @param error - The error to check
+ * @returns True if the error is retryable under the policy
+ * @internal
+ */
+export function isRetryableError(policy: RetryPolicy, error: unknown): boolean {
+  return policy.retryableErrors.some((errorType) => error instanceof errorType);
+}
+
+/**
+ * Wait for the given number of milliseconds.
+ *
+ * Resolves early if the signal is aborted; callers are expected to check
+ * `signal.aborted` afterwards.
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that ends the wait early
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
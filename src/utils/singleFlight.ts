@@ -0,0 +1,88 @@
+/**
+ * Single-flight utilities for the mcpd SDK.
+ *
+ * This module coalesces concurrent identical operations so that they share
+ * one in-flight promise, while still letting each caller cancel its own wait.
+ */
+
+/**
+ * Bookkeeping for an in-flight operation.
+ */
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+  // True once a caller without a signal joins; such a flight is never cancelled.
+  pinned: boolean;
+}
+
+/**
+ * Coalesces concurrent operations with the same key.
+ *
+ * @remarks
+ * The first caller for a key starts the operation; callers arriving before it
+ * settles share its result. Each caller may pass its own AbortSignal: aborting
+ * it rejects only that caller's wait. The shared operation itself is cancelled
+ * (via the signal passed to it) only once every waiting caller has aborted.
+ *
+ * @internal
+ */
+export class SingleFlight {
+  readonly #flights = new Map<string, Flight>();
+
+  /**
+   * Run an operation, or join the in-flight operation with the same key.
+   *
+   * @param key - Identifies identical operations
+   * @param fn - Starts the operation; receives a signal aborted when all callers have aborted
+   * @param signal - Optional signal that cancels this caller's wait
+   * @param abortReason - Creates the rejection reason when the signal aborts
+   * @returns The operation's result
+   */
+  run<T>(
+    key: string,
+    fn: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    abortReason: () => unknown = () => signal?.reason,
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason());
+    }
+
+    let flight = this.#flights.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const promise = fn(controller.signal).finally(() => {
+        if (this.#flights.get(key) === flight) {
+          this.#flights.delete(key);
+        }
+      });
+      flight = { promise, controller, waiters: 0, pinned: false };
+      this.#flights.set(key, flight);
+    }
+
+    const current = flight;
+    current.waiters++;
+    if (!signal) {
+      current.pinned = true;
+      return current.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        current.waiters--;
+        if (current.waiters === 0 && !current.pinned) {
+          // Nobody is waiting any more; cancel and forget the shared operation.
+          this.#flights.delete(key);
+          current.controller.abort();
+        }
+        reject(abortReason());
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      (current.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * Minimal TOML parser for the mcpd SDK.
+ *
+ * This module parses the subset of TOML used by mcpd project configuration
+ * files (`.mcpd.toml`): comments, tables, arrays of tables, dotted keys,
+ * strings, numbers, booleans, arrays and inline tables. Dates and multi-line
+ * strings are not supported.
+ */
+
+/**
+ * A parsed TOML table.
+ * @internal
+ */
+export type TomlTable = Record<string, unknown>;
+
+/**
+ * Characters allowed in bare keys.
+ */
+const BARE_KEY = /[A-Za-z0-9_-]/;
+
+/**
+ * Decimal integers and floats, with optional underscores between digits.
+ */
+const NUMBER =
+  /^[+-]?(?:inf|nan|\d(?:_?\d)*(?:\.\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?)/;
+
+/**
+ * Single character escape sequences in basic strings.
+ */
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  '"': '"',
+  "\\": "\\",
+};
+
+/**
+ * Parse a TOML document.
+ *
+ * @param text - The TOML source
+ * @returns The root table
+ * @throws {SyntaxError} If the document is invalid or uses unsupported syntax
+ * @internal
+ */
+export function parseToml(text: string): TomlTable {
+  return new TomlParser(text).parse();
+}
+
+/**
+ * Recursive descent parser over a TOML document.
+ */
+class TomlParser {
+  readonly #text: string;
+  #pos = 0;
+
+  constructor(text: string) {
+    this.#text = text;
+  }
+
+  parse(): TomlTable {
+    const root: TomlTable = {};
+    let current = root;
+
+    for (;;) {
+      this.#skipBlank(true);
+      if (this.#pos >= this.#text.length) {
+        return root;
+      }
+
+      if (this.#peek() === "[") {
+        const isArray = this.#text.startsWith("[[", this.#pos);
+        this.#pos += isArray ? 2 : 1;
+        this.#skipBlank(false);
+        const keys = this.#parseKey();
+        this.#expect(isArray ? "]]" : "]");
+        current = isArray
+          ? this.#appendTable(root, keys)
+          : this.#table(root, keys);
+      } else {
+        const keys = this.#parseKey();
+        this.#expect("=");
+        this.#skipBlank(false);
+        this.#assign(current, keys, this.#parseValue());
+      }
+
+      this.#skipBlank(false);
+      if (this.#pos < this.#text.length && !this.#atLineEnd()) {
+        this.#fail("Expected end of line");
+      }
+    }
+  }
+
+  #peek(): string | undefined {
+    return this.#text[this.#pos];
+  }
+
+  #atLineEnd(): boolean {
+    return this.#peek() === "\n" || this.#text.startsWith("\r\n", this.#pos);
+  }
+
+  /**
+   * Skip spaces, tabs and comments, and newlines if requested.
+   */
+  #skipBlank(newlines: boolean): void {
+    while (this.#pos < this.#text.length) {
+      const char = this.#peek();
+      if (char === " " || char === "\t") {
+        this.#pos++;
+      } else if (char === "#") {
+        while (this.#pos < this.#text.length && !this.#atLineEnd()) {
+          this.#pos++;
+        }
+      } else if (newlines && (char === "\n" || char === "\r")) {
+        this.#pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  #expect(token: string): void {
+    this.#skipBlank(false);
+    if (!this.#text.startsWith(token, this.#pos)) {
+      this.#fail(`Expected '${token}'`);
+    }
+    this.#pos += token.length;
+  }
+
+  #fail(message: string): never {
+    const line = this.#text.slice(0, this.#pos).split("\n").length;
+    throw new SyntaxError(`${message} at line ${line}`);
+  }
+
+  /**
+   * Parse a possibly dotted key into its parts.
+   */
+  #parseKey(): string[] {
+    const keys: string[] = [];
+
+    for (;;) {
+      this.#skipBlank(false);
+      const char = this.#peek();
+      if (char === '"') {
+        keys.push(this.#parseBasicString());
+      } else if (char === "'") {
+        keys.push(this.#parseLiteralString());
+      } else {
+        const start = this.#pos;
+        while (BARE_KEY.test(this.#peek() ?? "")) {
+          this.#pos++;
+        }
+        if (this.#pos === start) {
+          this.#fail("Expected a key");
+        }
+        keys.push(this.#text.slice(start, this.#pos));
+      }
+
+      this.#skipBlank(false);
+      if (this.#peek() !== ".") {
+        return keys;
+      }
+      this.#pos++;
+    }
+  }
+
+  #parseValue(): unknown {
+    const char = this.#peek();
+
+    if (char === '"') {
+      return this.#parseBasicString();
+    }
+    if (char === "'") {
+      return this.#parseLiteralString();
+    }
+    if (char === "[") {
+      return this.#parseArray();
+    }
+    if (char === "{") {
+      return this.#parseInlineTable();
+    }
+    for (const [literal, value] of [
+      ["true", true],
+      ["false", false],
+    ] as const) {
+      if (this.#text.startsWith(literal, this.#pos)) {
+        this.#pos += literal.length;
+        return value;
+      }
+    }
+
+    const match = NUMBER.exec(this.#text.slice(this.#pos));
+    if (!match) {
+      this.#fail("Unsupported value");
+    }
+    this.#pos += match[0].length;
+    const number = match[0].replace(/_/g, "");
+    if (number.endsWith("inf")) {
+      return number.startsWith("-") ? -Infinity : Infinity;
+    }
+    return number.endsWith("nan") ? NaN : Number(number);
+  }
+
+  #parseBasicString(): string {
+    if (this.#text.startsWith('"""', this.#pos)) {
+      this.#fail("Multi-line strings are not supported");
+    }
+    this.#pos++;
+
+    let value = "";
+    for (;;) {
+      const char = this.#peek();
+      if (char === undefined || char === "\n") {
+        this.#fail("Unterminated string");
+      }
+      this.#pos++;
+      if (char === '"') {
+        return value;
+      }
+      if (char !== "\\") {
+        value += char;
+        continue;
+      }
+
+      const escape = this.#peek() ?? "";
+      this.#pos++;
+      if (escape in ESCAPES) {
+        value += ESCAPES[escape];
+      } else if (escape === "u" || escape === "U") {
+        const length = escape === "u" ? 4 : 8;
+        const hex = this.#text.slice(this.#pos, this.#pos + length);
+        if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) {
+          this.#fail("Invalid unicode escape");
+        }
+        value += String.fromCodePoint(parseInt(hex, 16));
+        this.#pos += length;
+      } else {
+        this.#fail(`Invalid escape '\\${escape}'`);
+      }
+    }
+  }
+
+  #parseLiteralString(): string {
+    if (this.#text.startsWith("'''", this.#pos)) {
+      this.#fail("Multi-line strings are not supported");
+    }
+    const end = this.#text.indexOf("'", this.#pos + 1);
+    const newline = this.#text.indexOf("\n", this.#pos);
+    if (end === -1 || (newline !== -1 && newline < end)) {
+      this.#fail("Unterminated string");
+    }
+    const value = this.#text.slice(this.#pos + 1, end);
+    this.#pos = end + 1;
+    return value;
+  }
+
+  #parseArray(): unknown[] {
+    this.#pos++;
+    const values: unknown[] = [];
+
+    for (;;) {
+      this.#skipBlank(true);
+      if (this.#peek() === "]") {
+        this.#pos++;
+        return values;
+      }
+      values.push(this.#parseValue());
+      this.#skipBlank(true);
+      if (this.#peek() === ",") {
+        this.#pos++;
+      } else if (this.#peek() !== "]") {
+        this.#fail("Expected ',' or ']'");
+      }
+    }
+  }
+
+  #parseInlineTable(): TomlTable {
+    this.#pos++;
+    const table: TomlTable = {};
+
+    this.#skipBlank(false);
+    if (this.#peek() === "}") {
+      this.#pos++;
+      return table;
+    }
+
+    for (;;) {
+      const keys = this.#parseKey();
+      this.#expect("=");
+      this.#skipBlank(false);
+      this.#assign(table, keys, this.#parseValue());
+      this.#skipBlank(false);
+      if (this.#peek() === "}") {
+        this.#pos++;
+        return table;
+      }
+      this.#expect(",");
+    }
+  }
+
+  /**
+   * Get or create the table at a key path, following arrays of tables to
+   * their last element.
+   */
+  #table(root: TomlTable, keys: string[]): TomlTable {
+    let table = root;
+    for (const key of keys) {
+      let next = get(table, key);
+      if (next === undefined) {
+        next = {};
+        set(table, key, next);
+      }
+      if (Array.isArray(next)) {
+        next = next.at(-1);
+      }
+      if (!isTable(next)) {
+        this.#fail(`Key '${keys.join(".")}' is not a table`);
+      }
+      table = next;
+    }
+    return table;
+  }
+
+  /**
+   * Append a new table to the array of tables at a key path.
+   */
+  #appendTable(root: TomlTable, keys: string[]): TomlTable {
+    const parent = this.#table(root, keys.slice(0, -1));
+    const key = keys.at(-1)!;
+    const array = get(parent, key) ?? [];
+    if (!Array.isArray(array)) {
+      this.#fail(`Key '${keys.join(".")}' is not an array of tables`);
+    }
+
+    const table: TomlTable = {};
+    array.push(table);
+    set(parent, key, array);
+    return table;
+  }
+
+  #assign(table: TomlTable, keys: string[], value: unknown): void {
+    const parent = this.#table(table, keys.slice(0, -1));
+    const key = keys.at(-1)!;
+    if (Object.hasOwn(parent, key)) {
+      this.#fail(`Duplicate key '${keys.join(".")}'`);
+    }
+    set(parent, key, value);
+  }
+}
+
+/**
+ * Read an own property, ignoring inherited ones such as `constructor`.
+ */
+function get(table: TomlTable, key: string): unknown {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+/**
+ * Define an own property, so keys such as `__proto__` are stored as data.
+ */
+function set(table: TomlTable, key: string, value: unknown): void {
+  Object.defineProperty(table, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+function isTable(value: unknown): value is TomlTable {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,208 @@
+/**
+ * OpenTelemetry tracing utilities for the mcpd SDK.
+ *
+ * This module creates spans for daemon requests, tool calls and health checks,
+ * and injects W3C trace context headers into daemon requests, when tracing is
+ * enabled and the optional `@opentelemetry/api` package is available. Without
+ * it, tracing is a no-op.
+ */
+
+import type * as OpenTelemetryApi from "@opentelemetry/api";
+import { McpdError, PipelineError } from "../errors";
+import type { TracingOptions } from "../types";
+
+/**
+ * Name of the tracer that creates the SDK's spans.
+ */
+const TRACER_NAME = "@mozilla-ai/mcpd";
+
+/**
+ * Specifier of the optional OpenTelemetry API package. It is imported through
+ * a variable so that bundlers don't try to resolve it.
+ */
+const OPENTELEMETRY_API = "@opentelemetry/api";
+
+/**
+ * Span attribute names.
+ * @internal
+ */
+export const SPAN_ATTRIBUTES = {
+  SERVER_NAME: "mcpd.server.name",
+  TOOL_NAME: "mcpd.tool.name",
+  PROMPT_NAME: "mcpd.prompt.name",
+  RESOURCE_URI: "mcpd.resource.uri",
+  PIPELINE_FLOW: "mcpd.pipeline.flow",
+  HTTP_METHOD: "http.request.method",
+  HTTP_STATUS: "http.response.status_code",
+  HTTP_RESEND_COUNT: "http.request.resend_count",
+  URL_PATH: "url.path",
+  ERROR_TYPE: "error.type",
+} as const;
+
+/**
+ * Attributes set when a span starts; undefined values are skipped.
+ * @internal
+ */
+export type SpanAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * The part of a span the SDK writes to while it is active.
+ * @internal
+ */
+export interface TraceSpan {
+  setAttribute(key: string, value: string | number | boolean): void;
+}
+
+/**
+ * Span used when tracing is disabled or unavailable.
+ */
+const NOOP_SPAN: TraceSpan = {
+  setAttribute: () => {},
+};
+
+let loading: Promise<void> | undefined;
+let loadedApi: typeof OpenTelemetryApi | undefined;
+
+/**
+ * Load `@opentelemetry/api` once; nothing is loaded if it is not installed.
+ *
+ * @returns Promise that resolves once loading has finished
+ * @internal
+ */
+export function loadTracingApi(): Promise<void> {
+  loading ??= (
+    import(
+      /* webpackIgnore: true */ /* @vite-ignore */ OPENTELEMETRY_API
+    ) as Promise<typeof OpenTelemetryApi>
+  ).then(
+    (api) => {
+      loadedApi = api;
+    },
+    () => {},
+  );
+  return loading;
+}
+
+/**
+ * Creates the SDK's spans and propagates trace context to the daemon.
+ *
+ * @remarks
+ * Spans are created with the global tracer provider, and trace context is
+ * injected with the global propagator, so nothing is recorded or sent until
+ * the application registers an OpenTelemetry SDK.
+ *
+ * Unless the API is passed in, it is loaded asynchronously when the Tracer is
+ * created. Spans started before it has loaded wait for it, so the first
+ * requests of a new client are traced and propagate their trace context too.
+ *
+ * @internal
+ */
+export class Tracer {
+  #api: typeof OpenTelemetryApi | undefined;
+  #loading: Promise<void> | undefined;
+
+  /**
+   * @param options - False to disable tracing, true to load the API, or the
+   * API to use
+   */
+  constructor(options: boolean | TracingOptions) {
+    if (typeof options === "object" && options.api) {
+      this.#api = options.api;
+    } else if (options) {
+      this.#loading = loadTracingApi();
+    }
+  }
+
+  /**
+   * Run an operation in a new active span.
+   *
+   * The span records the operation's error, if any, and ends when the
+   * operation settles.
+   *
+   * @param name - Span name
+   * @param attributes - Initial span attributes
+   * @param fn - The operation, receiving the span
+   * @param client - True for spans that represent a request to the daemon
+   * @returns The operation's result
+   */
+  async withSpan<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: TraceSpan) => Promise<T>,
+    client = false,
+  ): Promise<T> {
+    if (this.#loading) {
+      await this.#loading;
+      this.#api = loadedApi;
+      this.#loading = undefined;
+    }
+    const api = this.#api;
+    if (!api) {
+      return fn(NOOP_SPAN);
+    }
+
+    const definedAttributes: OpenTelemetryApi.Attributes = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        definedAttributes[key] = value;
+      }
+    }
+
+    return api.trace.getTracer(TRACER_NAME).startActiveSpan(
+      name,
+      {
+        kind: client ? api.SpanKind.CLIENT : api.SpanKind.INTERNAL,
+        attributes: definedAttributes,
+      },
+      async (span) => {
+        try {
+          return await fn(span);
+        } catch (error) {
+          recordError(api, span, error);
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    );
+  }
+
+  /**
+   * Add the active trace context (`traceparent`, `tracestate`) to headers.
+   *
+   * Called within a span created by withSpan(), by which time the API has
+   * loaded.
+   *
+   * @param headers - Request headers to add to
+   */
+  inject(headers: Record<string, string>): void {
+    const api = this.#api;
+    api?.propagation.inject(api.context.active(), headers);
+  }
+}
+
+/**
+ * Record an operation's error on its span.
+ */
+function recordError(
+  api: typeof OpenTelemetryApi,
+  span: OpenTelemetryApi.Span,
+  error: unknown,
+): void {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: api.SpanStatusCode.ERROR, message });
+
+  if (error instanceof McpdError) {
+    span.setAttribute(SPAN_ATTRIBUTES.ERROR_TYPE, error.code);
+    if (error.status !== undefined) {
+      span.setAttribute(SPAN_ATTRIBUTES.HTTP_STATUS, error.status);
+    }
+  }
+  if (error instanceof PipelineError && error.pipelineFlow) {
+    span.setAttribute(SPAN_ATTRIBUTES.PIPELINE_FLOW, error.pipelineFlow);
+  }
+}
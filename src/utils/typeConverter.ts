@@ -7,10 +7,11 @@
  * and provides runtime validation of values against their schemas.
  *
  * Used primarily by the FunctionBuilder for parameter validation and generating
- * human-readable type descriptions for dynamically generated functions.
+ * human-readable type descriptions for dynamically generated functions, and by
+ * McpdClient to check tool output against output schemas.
  */
 
-import type { JsonSchema } from "../types";
+import type { JsonSchema, OutputValidationIssue } from "../types";
 
 /**
  * Maps JSON Schema types to JavaScript/TypeScript types.
@@ -64,13 +65,17 @@ export class TypeConverter {
       // For unions, we'll use the first type or 'any' if complex
       const firstType = schemaDef.anyOf[0];
       if (firstType && typeof firstType === "object" && firstType.type) {
-        return this.jsonTypeToJavaScriptType(firstType.type, firstType);
+        return typeof firstType.type === "string"
+          ? this.jsonTypeToJavaScriptType(firstType.type, firstType)
+          : "any";
       }
       return "any";
     }
 
     if (schemaDef.type) {
-      return this.jsonTypeToJavaScriptType(schemaDef.type, schemaDef);
+      return typeof schemaDef.type === "string"
+        ? this.jsonTypeToJavaScriptType(schemaDef.type, schemaDef)
+        : "any";
     }
 
     return "any";
@@ -148,4 +153,420 @@ export class TypeConverter {
         return true; // Unknown type, allow anything
     }
   }
+
+  /**
+   * Find the ways in which a value doesn't match a JSON schema.
+   *
+   * Unlike validateValue(), this descends into object properties and array
+   * items, reporting each mismatch with a JSON pointer to the offending value.
+   * Checks `type` (including type arrays such as `["string", "null"]`),
+   * `enum`, `const`, `anyOf`, `oneOf`, `allOf`, `required`, `properties`,
+   * `additionalProperties`, `items`, `minItems`, `maxItems`, `minLength`,
+   * `maxLength`, `pattern`, `minimum`, `maximum`, `exclusiveMinimum` and
+   * `exclusiveMaximum`.
+   *
+   * Other validation keywords, such as `$ref` or `not`, are not checked; use
+   * findUnsupportedKeyword() to tell whether a schema can be fully checked.
+   * Annotations such as `description` and `format` are ignored.
+   *
+   * @param value - The value to check
+   * @param schemaDef - The schema the value should match
+   * @param path - JSON pointer to the value, empty for the root
+   * @returns The issues found, or an empty array if the value matches
+   */
+  static findIssues(
+    value: unknown,
+    schemaDef: JsonSchema,
+    path = "",
+  ): OutputValidationIssue[] {
+    const issues: OutputValidationIssue[] = [];
+    const matches = (subSchema: JsonSchema) =>
+      this.findIssues(value, subSchema, path).length === 0;
+
+    if (Array.isArray(schemaDef.allOf)) {
+      for (const subSchema of schemaDef.allOf as JsonSchema[]) {
+        issues.push(...this.findIssues(value, subSchema, path));
+      }
+    }
+    if (Array.isArray(schemaDef.anyOf) && !schemaDef.anyOf.some(matches)) {
+      issues.push({ path, message: "should match one of the allowed schemas" });
+    }
+    if (Array.isArray(schemaDef.oneOf)) {
+      const matching = schemaDef.oneOf.filter(matches).length;
+      if (matching !== 1) {
+        issues.push({
+          path,
+          message:
+            matching === 0
+              ? "should match one of the allowed schemas"
+              : `should match exactly one of the allowed schemas, matched ${matching}`,
+        });
+      }
+    }
+
+    // Schemas with properties but no type describe objects.
+    const types =
+      schemaTypes(schemaDef) ??
+      (schemaDef.properties !== undefined ? ["object"] : undefined);
+    if (types && !types.some((type) => hasType(value, type))) {
+      return [...issues, this.#typeIssue(value, schemaDef, types, path)];
+    }
+    if (
+      Array.isArray(schemaDef.enum) &&
+      !schemaDef.enum.some((allowed) => jsonEqual(allowed, value))
+    ) {
+      return [...issues, this.#typeIssue(value, schemaDef, types, path)];
+    }
+    if ("const" in schemaDef && !jsonEqual(schemaDef.const, value)) {
+      return [
+        ...issues,
+        {
+          path,
+          message: `should be ${JSON.stringify(schemaDef.const)}, got ${JSON.stringify(value)}`,
+        },
+      ];
+    }
+
+    if (typeof value === "string") {
+      issues.push(...this.#stringIssues(value, schemaDef, path));
+    } else if (typeof value === "number") {
+      issues.push(...this.#numberIssues(value, schemaDef, path));
+    } else if (Array.isArray(value)) {
+      issues.push(...this.#arrayIssues(value, schemaDef, path));
+    } else if (typeof value === "object" && value !== null) {
+      issues.push(
+        ...this.#objectIssues(
+          value as Record<string, unknown>,
+          schemaDef,
+          path,
+        ),
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find a validation keyword in a schema that findIssues() doesn't check.
+   *
+   * Searches the schema and the subschemas findIssues() descends into.
+   *
+   * @param schemaDef - The schema
+   * @returns The first unsupported keyword found, or undefined if the schema
+   * can be fully checked
+   */
+  static findUnsupportedKeyword(schemaDef: JsonSchema): string | undefined {
+    const keyword = Object.keys(schemaDef).find((key) =>
+      UNSUPPORTED_KEYWORDS.has(key),
+    );
+    if (keyword) {
+      return keyword;
+    }
+    // Tuple-style items (draft 2019-09 and earlier) aren't checked either.
+    if (Array.isArray(schemaDef.items)) {
+      return "items";
+    }
+
+    const subschemas: unknown[] = [
+      ...Object.values(schemaDef.properties ?? {}),
+      schemaDef.items,
+      schemaDef.additionalProperties,
+      ...(schemaDef.anyOf ?? []),
+      ...(schemaDef.oneOf ?? []),
+      ...(schemaDef.allOf ?? []),
+    ];
+    for (const subschema of subschemas) {
+      if (typeof subschema === "object" && subschema !== null) {
+        const found = this.findUnsupportedKeyword(subschema as JsonSchema);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check a string against length and pattern keywords.
+   */
+  static #stringIssues(
+    value: string,
+    schemaDef: JsonSchema,
+    path: string,
+  ): OutputValidationIssue[] {
+    const issues: OutputValidationIssue[] = [];
+    // Lengths count code points, as JSON Schema requires.
+    const length = [...value].length;
+    if (
+      typeof schemaDef.minLength === "number" &&
+      length < schemaDef.minLength
+    ) {
+      issues.push({
+        path,
+        message: `should have at least ${schemaDef.minLength} characters, got ${length}`,
+      });
+    }
+    if (
+      typeof schemaDef.maxLength === "number" &&
+      length > schemaDef.maxLength
+    ) {
+      issues.push({
+        path,
+        message: `should have at most ${schemaDef.maxLength} characters, got ${length}`,
+      });
+    }
+    if (typeof schemaDef.pattern === "string") {
+      let pattern: RegExp | undefined;
+      try {
+        pattern = new RegExp(schemaDef.pattern, "u");
+      } catch {
+        // Patterns that aren't valid JavaScript regular expressions are skipped.
+      }
+      if (pattern && !pattern.test(value)) {
+        issues.push({
+          path,
+          message: `should match pattern ${JSON.stringify(schemaDef.pattern)}`,
+        });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Check a number against range keywords.
+   */
+  static #numberIssues(
+    value: number,
+    schemaDef: JsonSchema,
+    path: string,
+  ): OutputValidationIssue[] {
+    const {
+      minimum,
+      maximum,
+      exclusiveMinimum: exclusiveMin,
+      exclusiveMaximum: exclusiveMax,
+    } = schemaDef;
+    // Draft 4 marks minimum and maximum exclusive with booleans.
+    const bounds: Array<[unknown, string, (bound: number) => boolean]> = [
+      [exclusiveMin === true ? undefined : minimum, ">=", (b) => value >= b],
+      [exclusiveMax === true ? undefined : maximum, "<=", (b) => value <= b],
+      [exclusiveMin === true ? minimum : exclusiveMin, ">", (b) => value > b],
+      [exclusiveMax === true ? maximum : exclusiveMax, "<", (b) => value < b],
+    ];
+    return bounds
+      .filter(([bound, , holds]) => typeof bound === "number" && !holds(bound))
+      .map(([bound, operator]) => ({
+        path,
+        message: `should be ${operator} ${bound}, got ${value}`,
+      }));
+  }
+
+  /**
+   * Check an array against item count keywords and its items' schema.
+   */
+  static #arrayIssues(
+    value: unknown[],
+    schemaDef: JsonSchema,
+    path: string,
+  ): OutputValidationIssue[] {
+    const issues: OutputValidationIssue[] = [];
+    if (
+      typeof schemaDef.minItems === "number" &&
+      value.length < schemaDef.minItems
+    ) {
+      issues.push({
+        path,
+        message: `should have at least ${schemaDef.minItems} items, got ${value.length}`,
+      });
+    }
+    if (
+      typeof schemaDef.maxItems === "number" &&
+      value.length > schemaDef.maxItems
+    ) {
+      issues.push({
+        path,
+        message: `should have at most ${schemaDef.maxItems} items, got ${value.length}`,
+      });
+    }
+    if (schemaDef.items && !Array.isArray(schemaDef.items)) {
+      value.forEach((item, index) => {
+        issues.push(
+          ...this.findIssues(item, schemaDef.items!, `${path}/${index}`),
+        );
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Check an object against its required and allowed properties.
+   */
+  static #objectIssues(
+    object: Record<string, unknown>,
+    schemaDef: JsonSchema,
+    path: string,
+  ): OutputValidationIssue[] {
+    const issues: OutputValidationIssue[] = [];
+    const properties = schemaDef.properties ?? {};
+    const { additionalProperties } = schemaDef;
+
+    for (const key of schemaDef.required ?? []) {
+      if (!(key in object)) {
+        issues.push({
+          path: `${path}/${escapePointer(key)}`,
+          message: "is required",
+        });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertyPath = `${path}/${escapePointer(key)}`;
+      const propertySchema =
+        properties[key] ??
+        (typeof additionalProperties === "object"
+          ? additionalProperties
+          : undefined);
+      if (propertySchema) {
+        issues.push(
+          ...this.findIssues(propertyValue, propertySchema, propertyPath),
+        );
+      } else if (additionalProperties === false) {
+        issues.push({ path: propertyPath, message: "is not allowed" });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Describe a value that doesn't have the type its schema requires.
+   */
+  static #typeIssue(
+    value: unknown,
+    schemaDef: JsonSchema,
+    types: string[] | undefined,
+    path: string,
+  ): OutputValidationIssue {
+    // Enum mismatches show the value, and integers are told apart from numbers.
+    const expected =
+      schemaDef.enum || !types
+        ? this.getTypeDescription(schemaDef)
+        : [
+            ...new Set(
+              types.map((type) =>
+                type === "integer"
+                  ? "integer"
+                  : this.jsonTypeToJavaScriptType(type, schemaDef),
+              ),
+            ),
+          ].join(" or ");
+    const actual = schemaDef.enum
+      ? JSON.stringify(value)
+      : value === null
+        ? "null"
+        : Array.isArray(value)
+          ? "array"
+          : typeof value;
+    return { path, message: `should be ${expected}, got ${actual}` };
+  }
+}
+
+/**
+ * Validation keywords that findIssues() doesn't check.
+ */
+const UNSUPPORTED_KEYWORDS = new Set([
+  "$ref",
+  "$dynamicRef",
+  "$recursiveRef",
+  "not",
+  "if",
+  "then",
+  "else",
+  "dependentSchemas",
+  "dependentRequired",
+  "dependencies",
+  "patternProperties",
+  "propertyNames",
+  "minProperties",
+  "maxProperties",
+  "unevaluatedProperties",
+  "prefixItems",
+  "additionalItems",
+  "contains",
+  "minContains",
+  "maxContains",
+  "uniqueItems",
+  "unevaluatedItems",
+  "multipleOf",
+]);
+
+/**
+ * Get the types a schema allows, from a single type or a type array.
+ */
+function schemaTypes(schemaDef: JsonSchema): string[] | undefined {
+  const { type } = schemaDef;
+  if (type === undefined) {
+    return undefined;
+  }
+  return Array.isArray(type) ? type : [type];
+}
+
+/**
+ * Check whether a value has a JSON Schema type. Unknown types match anything.
+ */
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Compare JSON values structurally, as `enum` and `const` require.
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  const bRecord = b as Record<string, unknown>;
+  return (
+    aKeys.length === Object.keys(b).length &&
+    aKeys.every(
+      (key) =>
+        key in bRecord &&
+        jsonEqual((a as Record<string, unknown>)[key], bRecord[key]),
+    )
+  );
+}
+
+/**
+ * Escape a property name for use in a JSON pointer (RFC 6901).
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
 }
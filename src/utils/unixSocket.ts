@@ -0,0 +1,135 @@
+/**
+ * Unix domain socket transport for the mcpd SDK.
+ *
+ * This module lets McpdClient talk to a local mcpd daemon listening on a unix
+ * socket (e.g. `unix:///run/mcpd.sock`) through a fetch-compatible function,
+ * so the rest of the client (retries, timeouts, error mapping) is unchanged.
+ */
+
+import type { FetchFunction } from "../types";
+
+/**
+ * URL scheme prefix identifying a unix domain socket endpoint.
+ */
+export const UNIX_SOCKET_SCHEME = "unix://";
+
+/**
+ * Base URL used to build request URLs for unix socket endpoints.
+ *
+ * Only the path and query are sent over the socket; the host is used for
+ * the HTTP Host header.
+ */
+export const UNIX_SOCKET_BASE_URL = "http://localhost";
+
+/**
+ * HTTP status codes whose responses must not have a body.
+ */
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+
+/**
+ * Extract the socket path from a unix socket endpoint.
+ *
+ * @param endpoint - The configured API endpoint
+ * @returns The socket path, or undefined if the endpoint is not a unix socket
+ * @throws {TypeError} If the endpoint uses the unix scheme without a path
+ * @internal
+ */
+export function parseUnixSocketEndpoint(endpoint: string): string | undefined {
+  if (!endpoint.toLowerCase().startsWith(UNIX_SOCKET_SCHEME)) {
+    return undefined;
+  }
+
+  const socketPath = decodeURIComponent(
+    endpoint.slice(UNIX_SOCKET_SCHEME.length),
+  );
+  if (!socketPath) {
+    throw new TypeError(
+      `Invalid unix socket endpoint '${endpoint}', expected e.g. unix:///run/mcpd.sock`,
+    );
+  }
+
+  return socketPath;
+}
+
+/**
+ * Create a fetch-compatible function that sends requests over a unix socket.
+ *
+ * Failures mirror the WHATWG fetch contract so that callers can map them the
+ * same way as for TCP endpoints: connection failures reject with a TypeError
+ * ("fetch failed") carrying the underlying error as cause, and cancellation
+ * via `init.signal` rejects with an AbortError.
+ *
+ * @param socketPath - Filesystem path of the unix socket
+ * @returns A fetch-compatible function
+ * @internal
+ */
+export function createUnixSocketFetch(socketPath: string): FetchFunction {
+  return async (url, init) => {
+    // Imported lazily so the SDK still loads in runtimes without node:http.
+    const { request } = await import("node:http");
+    const { pathname, search } = new URL(url);
+    const { signal } = init;
+
+    if (init.body != null && typeof init.body !== "string") {
+      throw new TypeError("Unix socket transport only supports string bodies");
+    }
+    const body = init.body ?? undefined;
+
+    return new Promise<Response>((resolve, reject) => {
+      const abortError = () =>
+        new DOMException("This operation was aborted", "AbortError");
+
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const req = request(
+        {
+          socketPath,
+          path: `${pathname}${search}`,
+          method: init.method ?? "GET",
+          headers: Object.fromEntries(new Headers(init.headers)),
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on("data", (chunk: Buffer) => chunks.push(chunk));
+          res.on("error", (error) =>
+            reject(new TypeError("fetch failed", { cause: error })),
+          );
+          res.on("end", () => {
+            signal?.removeEventListener("abort", onAbort);
+
+            const headers = new Headers();
+            for (const [name, value] of Object.entries(res.headers)) {
+              for (const item of [value ?? []].flat()) {
+                headers.append(name, item);
+              }
+            }
+
+            const status = res.statusCode ?? 500;
+            resolve(
+              new Response(
+                NULL_BODY_STATUSES.has(status) ? null : Buffer.concat(chunks),
+                { status, statusText: res.statusMessage ?? "", headers },
+              ),
+            );
+          });
+        },
+      );
+
+      const onAbort = () => {
+        req.destroy();
+        reject(abortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      req.on("error", (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(new TypeError("fetch failed", { cause: error }));
+      });
+
+      req.end(body);
+    });
+  };
+}
@@ -116,7 +116,7 @@ describe("API Surface - Complete Test Coverage", () => {
     });
 
     const result = await client.servers.time!.callTool("get_time", {});
-    expect(result).toEqual({ result: "12:00" });
+    expect(result.json()).toEqual({ result: "12:00" });
   });
 
   it('client.servers["foo"].callTool(name, args)', async () => {
@@ -135,7 +135,7 @@ describe("API Surface - Complete Test Coverage", () => {
     });
 
     const result = await client.servers[serverName]!.callTool("get_time", {});
-    expect(result).toEqual({ result: "12:00" });
+    expect(result.json()).toEqual({ result: "12:00" });
   });
 
   it("client.servers.foo.hasTool(name)", async () => {
@@ -182,7 +182,7 @@ describe("API Surface - Complete Test Coverage", () => {
     });
 
     const result = await client.servers.time!.tools.get_time!({});
-    expect(result).toEqual({ result: "12:00" });
+    expect(result.json()).toEqual({ result: "12:00" });
   });
 
   it('client.servers.foo.tools["bar"](args)', async () => {
@@ -201,7 +201,7 @@ describe("API Surface - Complete Test Coverage", () => {
     });
 
     const result = await client.servers.time!.tools[toolName]!({});
-    expect(result).toEqual({ result: "12:00" });
+    expect(result.json()).toEqual({ result: "12:00" });
   });
 
   it('client.servers["foo"].tools["bar"](args)', async () => {
@@ -221,7 +221,7 @@ describe("API Surface - Complete Test Coverage", () => {
     });
 
     const result = await client.servers[serverName]!.tools[toolName]!({});
-    expect(result).toEqual({ result: "12:00" });
+    expect(result.json()).toEqual({ result: "12:00" });
   });
 
   it('client.servers["foo"].tools.bar(args)', async () => {
@@ -240,7 +240,7 @@ describe("API Surface - Complete Test Coverage", () => {
     });
 
     const result = await client.servers[serverName]!.tools.get_time!({});
-    expect(result).toEqual({ result: "12:00" });
+    expect(result.json()).toEqual({ result: "12:00" });
   });
 
   it("client.getAgentTools()", async () => {
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  BinaryContent,
+  decodeContent,
+  sniffMimeType,
+} from "../../src/binaryContent";
+import { ContentTooLargeError, McpdError } from "../../src/errors";
+
+const PNG_HEADER = "\x89PNG\r\n\x1a\n";
+const png = btoa(`${PNG_HEADER}pixels`);
+const bytesOf = (text: string) =>
+  Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+describe("decodeContent", () => {
+  it("should decode an image block", () => {
+    const image = decodeContent({
+      type: "image",
+      data: png,
+      mimeType: "image/png",
+    });
+
+    expect(image).toBeInstanceOf(BinaryContent);
+    expect(image.bytes).toEqual(bytesOf(`${PNG_HEADER}pixels`));
+    expect(image.size).toBe(14);
+    expect(image.mimeType).toBe("image/png");
+    expect(image.sniffedMimeType).toBe("image/png");
+    expect(image.uri).toBeUndefined();
+  });
+
+  it("should decode resource contents from readResource()", () => {
+    const resource = decodeContent({ uri: "file:///logo.png", blob: png });
+
+    expect(resource.uri).toBe("file:///logo.png");
+    expect(resource.size).toBe(14);
+    // Without a declared type, the sniffed one is used.
+    expect(resource.mimeType).toBe("image/png");
+  });
+
+  it("should decode embedded resources", () => {
+    const resource = decodeContent({
+      type: "resource",
+      resource: {
+        uri: "file:///data.bin",
+        blob: btoa("\x00\x01"),
+        mimeType: "application/x-custom",
+      },
+    });
+
+    expect(resource.bytes).toEqual(new Uint8Array([0, 1]));
+    expect(resource.mimeType).toBe("application/x-custom");
+    expect(resource.sniffedMimeType).toBeUndefined();
+  });
+
+  it("should keep the declared type when it differs from the content", () => {
+    const audio = decodeContent({
+      type: "audio",
+      data: png,
+      mimeType: "audio/wav",
+    });
+
+    expect(audio.mimeType).toBe("audio/wav");
+    expect(audio.sniffedMimeType).toBe("image/png");
+  });
+
+  it("should fall back to application/octet-stream", () => {
+    const resource = decodeContent({ uri: "file:///a", blob: btoa("data") });
+
+    expect(resource.mimeType).toBe("application/octet-stream");
+  });
+
+  it("should reject content over the size limit before decoding it", () => {
+    const source = { uri: "file:///big", blob: "not base64 but long enough" };
+
+    expect(() => decodeContent(source, { maxBytes: 10 })).toThrow(
+      ContentTooLargeError,
+    );
+    expect(() => decodeContent(source, { maxBytes: 10 })).toThrow(
+      "Content of resource 'file:///big' is 16 bytes, more than the limit of 10",
+    );
+  });
+
+  it("should accept content at the size limit", () => {
+    expect(
+      decodeContent({ uri: "file:///a", blob: png }, { maxBytes: 14 }).size,
+    ).toBe(14);
+    expect(() =>
+      decodeContent({ uri: "file:///a", blob: png }, { maxBytes: 13 }),
+    ).toThrow(ContentTooLargeError);
+  });
+
+  it("should reject resources without blob content", () => {
+    expect(() => decodeContent({ uri: "file:///a.txt", text: "hi" })).toThrow(
+      TypeError,
+    );
+  });
+
+  it("should reject invalid base64", () => {
+    expect(() =>
+      decodeContent({ type: "image", data: "%%%%", mimeType: "image/png" }),
+    ).toThrow(McpdError);
+  });
+
+  it("should reject a negative size limit", () => {
+    expect(() =>
+      decodeContent({ uri: "file:///a", blob: png }, { maxBytes: -1 }),
+    ).toThrow(RangeError);
+  });
+});
+
+describe("BinaryContent", () => {
+  it("should convert to a Blob of its media type", async () => {
+    const blob = new BinaryContent(bytesOf("GIF89a"), "image/gif").toBlob();
+
+    expect(blob.type).toBe("image/gif");
+    expect(blob.size).toBe(6);
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(bytesOf("GIF89a"));
+  });
+
+  it("should save to a file", async () => {
+    const { mkdtemp, readFile, rm } = await import("node:fs/promises");
+    const { tmpdir } = await import("node:os");
+    const { join } = await import("node:path");
+    const dir = await mkdtemp(join(tmpdir(), "mcpd-content-"));
+
+    try {
+      const path = join(dir, "image.gif");
+      await new BinaryContent(bytesOf("GIF89a")).save(path);
+
+      expect(new Uint8Array(await readFile(path))).toEqual(bytesOf("GIF89a"));
+      await expect(
+        new BinaryContent(bytesOf("GIF89a")).save(join(dir, "missing", "a")),
+      ).rejects.toThrow(McpdError);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("sniffMimeType", () => {
+  it.each([
+    [`${PNG_HEADER}`, "image/png"],
+    ["\xff\xd8\xff\xe0", "image/jpeg"],
+    ["GIF89a", "image/gif"],
+    ["RIFF\x00\x00\x00\x00WEBPVP8 ", "image/webp"],
+    ["RIFF\x00\x00\x00\x00WAVEfmt ", "audio/wav"],
+    ["ID3\x04", "audio/mpeg"],
+    ["OggS\x00", "audio/ogg"],
+    ["fLaC", "audio/flac"],
+    ["%PDF-1.7", "application/pdf"],
+    ["PK\x03\x04", "application/zip"],
+    ["\x1f\x8b\x08", "application/gzip"],
+  ])("should recognize %j as %s", (content, mimeType) => {
+    expect(sniffMimeType(bytesOf(content))).toBe(mimeType);
+  });
+
+  it.each([[""], ["RIFF\x00\x00\x00\x00AVI "], ["plain text"]])(
+    "should not recognize %j",
+    (content) => {
+      expect(sniffMimeType(bytesOf(content))).toBeUndefined();
+    },
+  );
+});
@@ -1,12 +1,40 @@
-import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  expectTypeOf,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
 import { McpdClient } from "../../src/client";
+import { CallToolResult } from "../../src/toolResult";
 import {
+  AbortedError,
   ConnectionError,
   AuthenticationError,
+  CapabilityNotSupportedError,
   McpdError,
+  OutputValidationError,
   PipelineError,
+  QueueFullError,
+  RateLimitError,
+  ResourceNotFoundError,
+  ServerNotFoundError,
+  ServerUnhealthyError,
+  TimeoutError,
+  ToolExecutionError,
+  ToolNotFoundError,
+  ValidationError,
 } from "../../src/errors";
-import { HealthStatusHelpers } from "../../src/types";
+import {
+  HealthStatusHelpers,
+  type LimitsOptions,
+  type Middleware,
+  type JsonSchemaType,
+  type MiddlewareContext,
+  type OutputValidationMode,
+} from "../../src/types";
 import { createFetchMock } from "./utils/mockApi";
 import { API_PATHS } from "../../src/apiPaths";
 
@@ -35,7 +63,7 @@ describe("McpdClient", () => {
       expect(basicClient.servers).toBeDefined();
     });
 
-    it("should strip trailing slash from endpoint", () => {
+    it("should strip trailing slash from endpoint", async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: async () => ({ servers: [] }),
@@ -45,7 +73,7 @@ describe("McpdClient", () => {
         apiEndpoint: "http://localhost:8090/",
       });
 
-      clientWithSlash.listServers();
+      await clientWithSlash.listServers();
 
       expect(mockFetch).toHaveBeenCalledWith(
         "http://localhost:8090/api/v1/servers",
@@ -53,7 +81,7 @@ describe("McpdClient", () => {
       );
     });
 
-    it("should initialize with API key", () => {
+    it("should initialize with API key", async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: async () => ({ servers: [] }),
@@ -64,7 +92,7 @@ describe("McpdClient", () => {
         apiKey: "test-key",
       });
 
-      clientWithAuth.listServers();
+      await clientWithAuth.listServers();
 
       expect(mockFetch).toHaveBeenCalledWith(
         "http://localhost:8090/api/v1/servers",
@@ -1092,6 +1120,37 @@ describe("McpdClient", () => {
       );
     });
 
+    it("should let the logLevel option override MCPD_LOG_LEVEL", async () => {
+      process.env.MCPD_LOG_LEVEL = "warn";
+
+      vi.stubGlobal(
+        "fetch",
+        createFetchMock({
+          [API_PATHS.SERVERS]: ["unhealthy"],
+          [API_PATHS.HEALTH_ALL]: {
+            servers: [{ name: "unhealthy", status: "timeout" }],
+          },
+        }),
+      );
+
+      const quietClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        logLevel: "error",
+      });
+      await quietClient.getAgentTools();
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+
+      delete process.env.MCPD_LOG_LEVEL;
+      const verboseClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        logLevel: "warn",
+      });
+      await verboseClient.getAgentTools();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        "Skipping unhealthy server 'unhealthy' with status 'timeout'",
+      );
+    });
+
     it("should warn when server is unhealthy", async () => {
       vi.stubGlobal(
         "fetch",
@@ -1434,4 +1493,2239 @@ describe("McpdClient", () => {
       expect(error).toBeInstanceOf(McpdError);
     });
   });
+
+  describe("retry policy", () => {
+    const okResponse = (payload: unknown) => ({
+      ok: true,
+      status: 200,
+      json: async () => payload,
+    });
+
+    const errorResponse = (
+      status: number,
+      headers: Record<string, string> = {},
+    ) => ({
+      ok: false,
+      status,
+      statusText: "Service Unavailable",
+      headers: new Headers(headers),
+      text: async () => "",
+    });
+
+    it("should not retry by default", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+
+      await expect(client.listServers()).rejects.toThrow(ConnectionError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry ConnectionError and succeed", async () => {
+      const retryClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        retry: { maxAttempts: 3, initialDelayMs: 0 },
+      });
+
+      mockFetch
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(okResponse(["time"]));
+
+      const servers = await retryClient.listServers();
+
+      expect(servers).toEqual(["time"]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should throw the last error when attempts are exhausted", async () => {
+      const retryClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        retry: { maxAttempts: 2, initialDelayMs: 0 },
+      });
+
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+      await expect(retryClient.listServers()).rejects.toThrow(ConnectionError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry retryable status codes", async () => {
+      const retryClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        retry: { maxAttempts: 2, initialDelayMs: 0 },
+      });
+
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(okResponse(["time"]));
+
+      const servers = await retryClient.listServers();
+
+      expect(servers).toEqual(["time"]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry status codes outside the retryable set", async () => {
+      const retryClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        retry: { maxAttempts: 3, initialDelayMs: 0 },
+      });
+
+      mockFetch.mockResolvedValueOnce(errorResponse(400));
+
+      await expect(retryClient.listServers()).rejects.toThrow(McpdError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should honor Retry-After header", async () => {
+      vi.useFakeTimers();
+      try {
+        const retryClient = new McpdClient({
+          apiEndpoint: "http://localhost:8090",
+          retry: { maxAttempts: 2, initialDelayMs: 0 },
+        });
+
+        mockFetch
+          .mockResolvedValueOnce(errorResponse(503, { "Retry-After": "2" }))
+          .mockResolvedValueOnce(okResponse(["time"]));
+
+        const promise = retryClient.listServers();
+
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(promise).resolves.toEqual(["time"]);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should not retry when Retry-After is longer than maxDelayMs", async () => {
+      const retryClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        retry: { maxAttempts: 3, initialDelayMs: 0, maxDelayMs: 5000 },
+      });
+
+      mockFetch.mockResolvedValue(
+        errorResponse(503, { "Retry-After": "3600" }),
+      );
+
+      const started = performance.now();
+      const error = await retryClient.listServers().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(McpdError);
+      expect((error as McpdError).status).toBe(503);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(performance.now() - started).toBeLessThan(1000);
+    });
+
+    it("should never retry response pipeline failures", async () => {
+      const retryClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        retry: {
+          maxAttempts: 3,
+          initialDelayMs: 0,
+          retryableStatusCodes: [500],
+          retryableErrors: [PipelineError],
+        },
+      });
+
+      mockFetch.mockResolvedValue(
+        errorResponse(500, { "Mcpd-Error-Type": "response-pipeline-failure" }),
+      );
+
+      const error = await retryClient.listServers().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PipelineError);
+      expect((error as PipelineError).pipelineFlow).toBe("response");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry request pipeline failures when opted in", async () => {
+      const retryClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        retry: {
+          maxAttempts: 2,
+          initialDelayMs: 0,
+          retryableErrors: [PipelineError],
+        },
+      });
+
+      mockFetch
+        .mockResolvedValueOnce(
+          errorResponse(500, { "Mcpd-Error-Type": "request-pipeline-failure" }),
+        )
+        .mockResolvedValueOnce(okResponse(["time"]));
+
+      const servers = await retryClient.listServers();
+
+      expect(servers).toEqual(["time"]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    describe("tool calls", () => {
+      let toolCallFailures: number;
+
+      const toolCallHeaders = () =>
+        mockFetch.mock.calls
+          .filter(([url]) => (url as string).includes("/tools/"))
+          .map(
+            ([, init]) => (init as { headers: Record<string, string> }).headers,
+          );
+
+      beforeEach(() => {
+        toolCallFailures = 1;
+        mockFetch.mockImplementation(async (url: string) => {
+          if (url.endsWith(API_PATHS.HEALTH_SERVER("time"))) {
+            return okResponse({ name: "time", status: "ok" });
+          }
+          if (url.endsWith(API_PATHS.SERVER_TOOLS("time"))) {
+            return okResponse({
+              tools: [
+                {
+                  name: "get_time",
+                  inputSchema: { type: "object" },
+                  annotations: { readOnlyHint: true },
+                },
+                { name: "set_alarm", inputSchema: { type: "object" } },
+              ],
+            });
+          }
+          if (toolCallFailures-- > 0) {
+            throw new TypeError("fetch failed");
+          }
+          return okResponse({ ok: true });
+        });
+      });
+
+      it("should retry read-only tools with the same Idempotency-Key", async () => {
+        const retryClient = new McpdClient({
+          apiEndpoint: "http://localhost:8090",
+          retry: { maxAttempts: 3, initialDelayMs: 0 },
+        });
+
+        await expect(
+          retryClient.servers.time!.callTool("get_time"),
+        ).resolves.toMatchObject({ structuredContent: { ok: true } });
+
+        const [first, second] = toolCallHeaders();
+        expect(toolCallHeaders()).toHaveLength(2);
+        expect(first!["Idempotency-Key"]).toMatch(/^[0-9a-f-]{36}$/);
+        expect(second!["Idempotency-Key"]).toBe(first!["Idempotency-Key"]);
+      });
+
+      it("should not retry tools that are not annotated as idempotent", async () => {
+        const retryClient = new McpdClient({
+          apiEndpoint: "http://localhost:8090",
+          retry: { maxAttempts: 3, initialDelayMs: 0 },
+        });
+
+        await expect(
+          retryClient.servers.time!.callTool("set_alarm"),
+        ).rejects.toThrow(ConnectionError);
+        expect(toolCallHeaders()).toHaveLength(1);
+      });
+
+      it("should retry any tool when opted in", async () => {
+        const retryClient = new McpdClient({
+          apiEndpoint: "http://localhost:8090",
+          retry: {
+            maxAttempts: 3,
+            initialDelayMs: 0,
+            retryNonIdempotentTools: true,
+          },
+        });
+
+        await expect(
+          retryClient.servers.time!.callTool("set_alarm"),
+        ).resolves.toMatchObject({ structuredContent: { ok: true } });
+        expect(toolCallHeaders()).toHaveLength(2);
+      });
+
+      it("should use a new Idempotency-Key for each call", async () => {
+        toolCallFailures = 0;
+
+        await client.servers.time!.callTool("set_alarm");
+        await client.servers.time!.callTool("set_alarm");
+
+        const [first, second] = toolCallHeaders();
+        expect(first!["Idempotency-Key"]).not.toBe(second!["Idempotency-Key"]);
+      });
+
+      it("should create an Idempotency-Key without crypto.randomUUID", async () => {
+        toolCallFailures = 0;
+        // Browsers only provide randomUUID in secure contexts.
+        const { getRandomValues } = crypto;
+        vi.stubGlobal("crypto", {
+          getRandomValues: getRandomValues.bind(crypto),
+        });
+
+        try {
+          await client.servers.time!.callTool("set_alarm");
+        } finally {
+          vi.unstubAllGlobals();
+        }
+
+        const [headers] = toolCallHeaders();
+        expect(headers!["Idempotency-Key"]).toMatch(
+          /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+        );
+      });
+    });
+
+    it("should reject invalid retry options", () => {
+      expect(
+        () =>
+          new McpdClient({
+            apiEndpoint: "http://localhost:8090",
+            retry: { maxAttempts: 0 },
+          }),
+      ).toThrow(RangeError);
+    });
+  });
+
+  describe("per-call request options", () => {
+    // Fetch mock that never settles until the request signal is aborted.
+    const hangingFetch = (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () =>
+          reject(new DOMException("This operation was aborted", "AbortError")),
+        );
+      });
+
+    // Fetch mock whose body never finishes until the request signal is aborted.
+    const stalledBodyFetch = async (url: string, init: RequestInit) => ({
+      ok: true,
+      status: 200,
+      json: () => hangingFetch(url, init),
+    });
+
+    it("should throw AbortedError when the signal is aborted mid-request", async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+      const controller = new AbortController();
+
+      const pending = client.listServers({ signal: controller.signal });
+      controller.abort();
+
+      const error = await pending.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(AbortedError);
+      expect(error).not.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should not send a request when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.listServers({ signal: controller.signal }),
+      ).rejects.toThrow(AbortedError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should apply per-call timeoutMs and raise TimeoutError", async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+
+      const error = await client
+        .listServers({ timeoutMs: 10 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).timeout).toBe(10);
+    });
+
+    it("should keep the timeout while the response body is read", async () => {
+      mockFetch.mockImplementationOnce(stalledBodyFetch);
+
+      const error = await client
+        .listServers({ timeoutMs: 10 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).timeout).toBe(10);
+    });
+
+    it("should throw AbortedError when aborted while the body is read", async () => {
+      // Tool calls are not shared, so only the request's own signal ends them.
+      const routes = createFetchMock({
+        [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+        [API_PATHS.SERVER_TOOLS("time")]: {
+          tools: [{ name: "get_time", inputSchema: { type: "object" } }],
+        },
+      });
+      mockFetch.mockImplementation((url: string, init: RequestInit) =>
+        init.method === "POST"
+          ? stalledBodyFetch(url, init)
+          : routes(url, init),
+      );
+      const controller = new AbortController();
+
+      const pending = client.servers.time!.callTool(
+        "get_time",
+        {},
+        { signal: controller.signal },
+      );
+      await vi.waitFor(() =>
+        expect(mockFetch).toHaveBeenCalledWith(
+          expect.stringContaining(API_PATHS.TOOL_CALL("time", "get_time")),
+          expect.anything(),
+        ),
+      );
+      controller.abort();
+
+      const error = await pending.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(AbortedError);
+      expect(error).not.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should stop retrying when aborted during backoff", async () => {
+      const retryClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        retry: { maxAttempts: 3, initialDelayMs: 60_000, jitter: false },
+      });
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+      const controller = new AbortController();
+
+      const pending = retryClient.listServers({ signal: controller.signal });
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(AbortedError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should accept options for a specific server health check", async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+      const controller = new AbortController();
+
+      const pending = client.getServerHealth("time", {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(AbortedError);
+    });
+
+    it("should accept options for all servers health check", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ servers: [{ name: "time", status: "ok" }] }),
+      });
+
+      const health = await client.getServerHealth({ timeoutMs: 1000 });
+
+      expect(health.time?.status).toBe("ok");
+    });
+
+    it("should throw AbortedError from getAgentTools when aborted", async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+      const controller = new AbortController();
+
+      const pending = client.getAgentTools({ signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(AbortedError);
+    });
+  });
+
+  describe("custom fetch", () => {
+    it("should use the injected fetch for every daemon call", async () => {
+      const customFetch = createFetchMock({
+        [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+        [API_PATHS.SERVER_TOOLS("time")]: {
+          tools: [
+            {
+              name: "get_time",
+              description: "Get current time",
+              inputSchema: { type: "object", properties: {} },
+            },
+          ],
+        },
+        [API_PATHS.TOOL_CALL("time", "get_time")]: { time: "12:00" },
+        [API_PATHS.SERVER_PROMPTS("time")]: { prompts: [] },
+        [API_PATHS.SERVER_RESOURCES("time")]: { resources: [] },
+      });
+      const customClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        fetch: customFetch,
+      });
+
+      await customClient.servers.time!.getTools();
+      await customClient.servers.time!.callTool("get_time");
+      await customClient.servers.time!.getPrompts();
+      await customClient.servers.time!.getResources();
+
+      const urls = vi.mocked(customFetch).mock.calls.map(([url]) => url);
+      expect(urls).toEqual(
+        expect.arrayContaining([
+          `http://localhost:8090${API_PATHS.HEALTH_SERVER("time")}`,
+          `http://localhost:8090${API_PATHS.SERVER_TOOLS("time")}`,
+          `http://localhost:8090${API_PATHS.TOOL_CALL("time", "get_time")}`,
+          `http://localhost:8090${API_PATHS.SERVER_PROMPTS("time")}`,
+          `http://localhost:8090${API_PATHS.SERVER_RESOURCES("time")}`,
+        ]),
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should resolve the global fetch at request time by default", async () => {
+      const lateFetch = vi.fn().mockResolvedValueOnce({
+        ok: true,
+        json: async () => ["time"],
+      });
+      vi.stubGlobal("fetch", lateFetch);
+
+      const servers = await client.listServers();
+
+      expect(servers).toEqual(["time"]);
+      expect(lateFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("middleware", () => {
+    const timeTools = {
+      tools: [
+        {
+          name: "get_time",
+          description: "Get current time",
+          inputSchema: { type: "object", properties: {} },
+        },
+      ],
+    };
+
+    it("should expose request details and server/tool context", async () => {
+      const contexts: MiddlewareContext[] = [];
+      client.use(async (ctx, next) => {
+        contexts.push({ ...ctx });
+        return next();
+      });
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ name: "time", status: "ok" }),
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => timeTools })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ok: 1 }) });
+
+      await client.servers.time!.callTool("get_time", { timezone: "UTC" });
+
+      expect(contexts.map((ctx) => [ctx.method, ctx.path])).toEqual([
+        ["GET", API_PATHS.HEALTH_SERVER("time")],
+        ["GET", API_PATHS.SERVER_TOOLS("time")],
+        ["POST", API_PATHS.TOOL_CALL("time", "get_time")],
+      ]);
+      expect(contexts[2]).toMatchObject({
+        serverName: "time",
+        toolName: "get_time",
+        body: JSON.stringify({ timezone: "UTC" }),
+        attempt: 1,
+      });
+      expect(contexts[0]?.toolName).toBeUndefined();
+    });
+
+    it("should send headers, path and body changed by middleware", async () => {
+      const customClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        middleware: [
+          async (ctx, next) => {
+            ctx.headers["X-Tenant"] = "acme";
+            ctx.path = `/tenants/acme${ctx.path}`;
+            return next();
+          },
+        ],
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ["time"],
+      });
+
+      await customClient.listServers();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `http://localhost:8090/tenants/acme${API_PATHS.SERVERS}`,
+        expect.objectContaining({
+          method: "GET",
+          headers: expect.objectContaining({ "X-Tenant": "acme" }),
+        }),
+      );
+    });
+
+    it("should run middleware in registration order", async () => {
+      const calls: string[] = [];
+      const record =
+        (name: string): Middleware =>
+        async (_ctx, next) => {
+          calls.push(`${name}:before`);
+          const response = await next();
+          calls.push(`${name}:after`);
+          return response;
+        };
+      const customClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        middleware: [record("first")],
+      }).use(record("second"));
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+      await customClient.listServers();
+
+      expect(calls).toEqual([
+        "first:before",
+        "second:before",
+        "second:after",
+        "first:after",
+      ]);
+    });
+
+    it("should allow short-circuiting with a Response", async () => {
+      client.use(async () => Response.json(["cached"]));
+
+      const servers = await client.listServers();
+
+      expect(servers).toEqual(["cached"]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should pass raw error responses to middleware before mapping", async () => {
+      const statuses: number[] = [];
+      client.use(async (_ctx, next) => {
+        const response = await next();
+        statuses.push(response.status);
+        return response;
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+        text: async () => "boom",
+      });
+
+      await expect(client.listServers()).rejects.toThrow(McpdError);
+      expect(statuses).toEqual([500]);
+    });
+
+    it("should surface transport failures as McpdErrors to middleware", async () => {
+      let seen: unknown;
+      client.use(async (_ctx, next) => {
+        try {
+          return await next();
+        } catch (error) {
+          seen = error;
+          return Response.json(["fallback"]);
+        }
+      });
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+
+      const servers = await client.listServers();
+
+      expect(seen).toBeInstanceOf(ConnectionError);
+      expect(servers).toEqual(["fallback"]);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    let toolCallFails: boolean;
+    let breakerClient: McpdClient;
+
+    const toolCallCount = () =>
+      mockFetch.mock.calls.filter(([url]) =>
+        String(url).endsWith(API_PATHS.TOOL_CALL("time", "get_time")),
+      ).length;
+
+    const routeRequest = async (url: string) => {
+      const respond = (payload: unknown) => ({
+        ok: true,
+        json: async () => payload,
+      });
+
+      if (url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))) {
+        if (toolCallFails) {
+          throw new TypeError("fetch failed");
+        }
+        return respond({ time: "12:00" });
+      }
+      if (url.endsWith(API_PATHS.SERVERS)) {
+        return respond(["time", "math"]);
+      }
+      if (url.endsWith(API_PATHS.HEALTH_ALL)) {
+        return respond({
+          servers: [
+            { name: "time", status: "ok" },
+            { name: "math", status: "ok" },
+          ],
+        });
+      }
+      if (url.endsWith(API_PATHS.HEALTH_SERVER("time"))) {
+        return respond({ name: "time", status: "ok" });
+      }
+      const server = url.endsWith(API_PATHS.SERVER_TOOLS("time"))
+        ? "time"
+        : "math";
+      return respond({
+        tools: [
+          {
+            name: server === "time" ? "get_time" : "add",
+            inputSchema: { type: "object", properties: {} },
+          },
+        ],
+      });
+    };
+
+    beforeEach(() => {
+      toolCallFails = true;
+      mockFetch.mockImplementation(routeRequest);
+
+      breakerClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 60_000 },
+      });
+    });
+
+    it("should fail fast with ServerUnhealthyError once open", async () => {
+      for (let i = 0; i < 2; i++) {
+        await expect(
+          breakerClient.servers.time!.callTool("get_time"),
+        ).rejects.toThrow(ConnectionError);
+      }
+
+      await expect(
+        breakerClient.servers.time!.callTool("get_time"),
+      ).rejects.toThrow(ServerUnhealthyError);
+      expect(toolCallCount()).toBe(2);
+    });
+
+    it("should open once when concurrent calls fail", async () => {
+      // Hold the tool calls until all of them have started.
+      let failCalls!: () => void;
+      const started = new Promise<void>((resolve) => {
+        failCalls = resolve;
+      });
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))) {
+          await started;
+        }
+        return routeRequest(url);
+      });
+      const warn = vi.fn();
+      breakerClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 60_000 },
+        logger: { warn },
+      });
+      const changes = vi.fn();
+      breakerClient.on("health:changed", changes);
+
+      const calls = Array.from({ length: 4 }, () =>
+        breakerClient.servers.time!.callTool("get_time").catch(() => {}),
+      );
+      await vi.waitFor(() => expect(toolCallCount()).toBe(4));
+      failCalls();
+      await Promise.all(calls);
+
+      const opened = warn.mock.calls.filter(([message]) =>
+        String(message).startsWith("Circuit breaker opened"),
+      );
+      expect(opened).toHaveLength(1);
+      expect(
+        changes.mock.calls.filter(([event]) => event.status === "circuit_open"),
+      ).toHaveLength(1);
+    });
+
+    it("should fail fast for agent functions once open", async () => {
+      const [getTime] = await breakerClient.getAgentTools({
+        servers: ["time"],
+        format: "array",
+      });
+
+      await expect(getTime!({})).rejects.toThrow(ConnectionError);
+      await expect(getTime!({})).rejects.toThrow(ConnectionError);
+      await expect(getTime!({})).rejects.toThrow(ServerUnhealthyError);
+      expect(toolCallCount()).toBe(2);
+    });
+
+    it("should skip open-circuit servers in getAgentTools", async () => {
+      for (let i = 0; i < 2; i++) {
+        await breakerClient.servers.time!.callTool("get_time").catch(() => {});
+      }
+
+      const tools = await breakerClient.getAgentTools({ format: "array" });
+
+      expect(tools.map((tool) => tool.name)).toEqual(["math__add"]);
+    });
+
+    it("should close again after a successful trial call", async () => {
+      breakerClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 20 },
+      });
+      await expect(
+        breakerClient.servers.time!.callTool("get_time"),
+      ).rejects.toThrow(ConnectionError);
+      await expect(
+        breakerClient.servers.time!.callTool("get_time"),
+      ).rejects.toThrow(ServerUnhealthyError);
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      toolCallFails = false;
+
+      await expect(
+        breakerClient.servers.time!.callTool("get_time"),
+      ).resolves.toMatchObject({ structuredContent: { time: "12:00" } });
+      await expect(
+        breakerClient.servers.time!.callTool("get_time"),
+      ).resolves.toMatchObject({ structuredContent: { time: "12:00" } });
+    });
+
+    it("should not count errors reported by the daemon", async () => {
+      mockFetch.mockImplementation(async (url: string) =>
+        url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))
+          ? {
+              ok: false,
+              status: 400,
+              statusText: "Bad Request",
+              text: async () =>
+                JSON.stringify({ title: "Bad Request", detail: "bad args" }),
+            }
+          : routeRequest(url),
+      );
+
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          breakerClient.servers.time!.callTool("get_time"),
+        ).rejects.toThrow("bad args");
+      }
+
+      expect(toolCallCount()).toBe(3);
+    });
+
+    it("should count tool failures reported by the daemon", async () => {
+      mockFetch.mockImplementation(async (url: string) =>
+        url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))
+          ? {
+              ok: false,
+              status: 500,
+              statusText: "Internal Server Error",
+              text: async () =>
+                JSON.stringify({
+                  title: "Internal Server Error",
+                  detail: "tool crashed",
+                }),
+            }
+          : routeRequest(url),
+      );
+
+      for (let i = 0; i < 2; i++) {
+        const error = await breakerClient.servers
+          .time!.callTool("get_time")
+          .catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(ToolExecutionError);
+        expect(error).toMatchObject({
+          serverName: "time",
+          toolName: "get_time",
+          errorModel: { detail: "tool crashed" },
+        });
+      }
+      await expect(
+        breakerClient.servers.time!.callTool("get_time"),
+      ).rejects.toThrow(ServerUnhealthyError);
+
+      expect(toolCallCount()).toBe(2);
+    });
+  });
+
+  describe("tool list cache", () => {
+    const requestedPaths = () =>
+      mockFetch.mock.calls.map(([url]) =>
+        String(url).replace("http://localhost:8090", ""),
+      );
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(
+        createFetchMock({
+          [API_PATHS.SERVERS]: ["time"],
+          [API_PATHS.HEALTH_ALL]: { servers: [{ name: "time", status: "ok" }] },
+          [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+          [API_PATHS.SERVER_TOOLS("time")]: {
+            tools: [
+              {
+                name: "get_time",
+                inputSchema: { type: "object", properties: {} },
+              },
+            ],
+          },
+          [API_PATHS.TOOL_CALL("time", "get_time")]: { time: "12:00" },
+        }),
+      );
+    });
+
+    it("should make a single request per cached tool call", async () => {
+      await client.servers.time!.callTool("get_time");
+      mockFetch.mockClear();
+
+      await client.servers.time!.callTool("get_time");
+      await client.servers.time!.tools.get_time!();
+
+      expect(requestedPaths()).toEqual([
+        API_PATHS.TOOL_CALL("time", "get_time"),
+        API_PATHS.TOOL_CALL("time", "get_time"),
+      ]);
+    });
+
+    it("should share tool lists between hasTool, getTools and getAgentTools", async () => {
+      await client.getAgentTools();
+      mockFetch.mockClear();
+
+      expect(await client.servers.time!.hasTool("get_time")).toBe(true);
+      expect(await client.servers.time!.getTools()).toHaveLength(1);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should refetch after clearToolsCache", async () => {
+      await client.servers.time!.getTools();
+      client.clearToolsCache("time");
+      client.clearServerHealthCache();
+      mockFetch.mockClear();
+
+      await client.servers.time!.getTools();
+
+      expect(requestedPaths()).toEqual([
+        API_PATHS.HEALTH_SERVER("time"),
+        API_PATHS.SERVER_TOOLS("time"),
+      ]);
+    });
+
+    it("should refetch tool lists when getAgentTools refreshes its cache", async () => {
+      await client.servers.time!.getTools();
+      mockFetch.mockClear();
+
+      await client.getAgentTools({ refreshCache: true });
+
+      expect(requestedPaths()).toContain(API_PATHS.SERVER_TOOLS("time"));
+    });
+
+    it("should not cache tool lists when toolsCacheTtl is 0", async () => {
+      const uncachedClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        toolsCacheTtl: 0,
+      });
+
+      await uncachedClient.servers.time!.getTools();
+      await uncachedClient.servers.time!.getTools();
+
+      expect(
+        requestedPaths().filter(
+          (path) => path === API_PATHS.SERVER_TOOLS("time"),
+        ),
+      ).toHaveLength(2);
+    });
+  });
+
+  describe("concurrent read deduplication", () => {
+    beforeEach(() => {
+      mockFetch.mockImplementation(
+        createFetchMock({
+          [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+          [API_PATHS.SERVER_TOOLS("time")]: {
+            tools: [
+              {
+                name: "get_time",
+                inputSchema: { type: "object", properties: {} },
+              },
+            ],
+          },
+          [API_PATHS.TOOL_CALL("time", "get_time")]: { time: "12:00" },
+          [API_PATHS.SERVER_PROMPTS("time")]: { prompts: [] },
+        }),
+      );
+    });
+
+    const countRequests = (path: string) =>
+      mockFetch.mock.calls.filter(([url]) => String(url).endsWith(path)).length;
+
+    it("should share health and tool list requests across parallel tool calls", async () => {
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () =>
+          client.servers.time!.callTool("get_time"),
+        ),
+      );
+
+      expect(results).toHaveLength(10);
+      expect(countRequests(API_PATHS.HEALTH_SERVER("time"))).toBe(1);
+      expect(countRequests(API_PATHS.SERVER_TOOLS("time"))).toBe(1);
+      expect(countRequests(API_PATHS.TOOL_CALL("time", "get_time"))).toBe(10);
+    });
+
+    it("should share identical prompt list requests", async () => {
+      await Promise.all([
+        client.servers.time!.getPrompts(),
+        client.servers.time!.getPrompts(),
+      ]);
+
+      expect(countRequests(API_PATHS.SERVER_PROMPTS("time"))).toBe(1);
+    });
+
+    it("should let a caller abort without failing the others", async () => {
+      const controller = new AbortController();
+
+      const aborted = client.getServerHealth("time", {
+        signal: controller.signal,
+      });
+      const other = client.getServerHealth("time");
+      controller.abort();
+
+      await expect(aborted).rejects.toThrow(AbortedError);
+      await expect(other).resolves.toMatchObject({ status: "ok" });
+      expect(countRequests(API_PATHS.HEALTH_SERVER("time"))).toBe(1);
+    });
+
+    it("should honour the timeout of a caller joining a slower request", async () => {
+      mockFetch.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((resolve, reject) => {
+            const timer = setTimeout(
+              () => resolve({ ok: true, json: async () => ["time"] }),
+              500,
+            );
+            init.signal?.addEventListener("abort", () => {
+              clearTimeout(timer);
+              reject(init.signal!.reason);
+            });
+          }),
+      );
+
+      const slow = client.listServers();
+      const started = performance.now();
+      await expect(client.listServers({ timeoutMs: 20 })).rejects.toThrow(
+        TimeoutError,
+      );
+
+      expect(performance.now() - started).toBeLessThan(400);
+      await expect(slow).resolves.toEqual(["time"]);
+      expect(countRequests(API_PATHS.SERVERS)).toBe(2);
+    });
+
+    it("should share requests of callers with the same timeout", async () => {
+      await Promise.all([
+        client.getServerHealth("time", { timeoutMs: 1000 }),
+        client.getServerHealth("time", { timeoutMs: 1000 }),
+      ]);
+
+      expect(countRequests(API_PATHS.HEALTH_SERVER("time"))).toBe(1);
+    });
+  });
+
+  describe("call limits", () => {
+    const toolCallPath = API_PATHS.TOOL_CALL("time", "get_time");
+    let pendingCalls: Array<() => void>;
+
+    beforeEach(() => {
+      pendingCalls = [];
+      const routes = createFetchMock({
+        [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+        [API_PATHS.SERVER_TOOLS("time")]: {
+          tools: [
+            {
+              name: "get_time",
+              inputSchema: { type: "object", properties: {} },
+            },
+          ],
+        },
+      });
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+        if (!url.endsWith(toolCallPath)) {
+          return routes(url, init);
+        }
+        // Tool calls stay in flight until the test completes them.
+        await new Promise<void>((resolve) => pendingCalls.push(resolve));
+        return { ok: true, json: async () => ({ time: "12:00" }) };
+      });
+    });
+
+    const createLimitedClient = (limits: LimitsOptions) =>
+      new McpdClient({ apiEndpoint: "http://localhost:8090", limits });
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it("should queue calls over the per-server concurrency limit", async () => {
+      const limitedClient = createLimitedClient({
+        perServer: { maxConcurrent: 1 },
+      });
+      await limitedClient.servers.time!.getTools();
+
+      const first = limitedClient.servers.time!.callTool("get_time");
+      const second = limitedClient.servers.time!.callTool("get_time");
+      await flush();
+      expect(pendingCalls).toHaveLength(1);
+
+      pendingCalls[0]!();
+      await first;
+      await flush();
+      expect(pendingCalls).toHaveLength(2);
+
+      pendingCalls[1]!();
+      await expect(second).resolves.toMatchObject({
+        structuredContent: { time: "12:00" },
+      });
+    });
+
+    it("should reject with QueueFullError when the queue is full", async () => {
+      const limitedClient = createLimitedClient({
+        maxConcurrent: 1,
+        maxQueueSize: 0,
+      });
+      await limitedClient.servers.time!.getTools();
+
+      const first = limitedClient.servers.time!.callTool("get_time");
+      await flush();
+
+      await expect(
+        limitedClient.servers.time!.callTool("get_time"),
+      ).rejects.toThrow(QueueFullError);
+
+      pendingCalls[0]!();
+      await first;
+    });
+
+    it("should throw AbortedError when a queued call is aborted", async () => {
+      const limitedClient = createLimitedClient({ maxConcurrent: 1 });
+      await limitedClient.servers.time!.getTools();
+      const controller = new AbortController();
+
+      const first = limitedClient.servers.time!.callTool("get_time");
+      const queued = limitedClient.servers.time!.callTool(
+        "get_time",
+        {},
+        { signal: controller.signal },
+      );
+      await flush();
+      controller.abort();
+
+      await expect(queued).rejects.toThrow(AbortedError);
+      pendingCalls[0]!();
+      await first;
+      expect(pendingCalls).toHaveLength(1);
+    });
+  });
+
+  describe("tool results", () => {
+    const mcpResult = {
+      content: [{ type: "text", text: "It is 12:00" }],
+      structuredContent: { time: "12:00" },
+      isError: true,
+    };
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(
+        createFetchMock({
+          [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+          [API_PATHS.SERVER_TOOLS("time")]: {
+            tools: [
+              {
+                name: "get_time",
+                inputSchema: { type: "object", properties: {} },
+              },
+            ],
+          },
+          [API_PATHS.TOOL_CALL("time", "get_time")]: mcpResult,
+        }),
+      );
+    });
+
+    it("should return tool errors as results", async () => {
+      const result = await client.servers.time!.tools.get_time!();
+
+      expect(result).toBeInstanceOf(CallToolResult);
+      expect(result.isError).toBe(true);
+      expect(result.text()).toBe("It is 12:00");
+      expect(result.json()).toEqual({ time: "12:00" });
+    });
+
+    it("should return the daemon's response with legacyToolResults", async () => {
+      const legacyClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        legacyToolResults: true,
+      });
+
+      await expect(
+        legacyClient.servers.time!.tools.get_time!(),
+      ).resolves.toEqual(mcpResult);
+    });
+
+    it("should type legacy results as unknown", async () => {
+      const legacyClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        legacyToolResults: true,
+      });
+
+      const legacyResult = await legacyClient.servers.time!.tools.get_time!();
+      const result = await client.servers.time!.tools.get_time!();
+
+      expectTypeOf(legacyResult).toBeUnknown();
+      expectTypeOf(result).toEqualTypeOf<CallToolResult>();
+      expectTypeOf(
+        legacyClient.servers.time!.callTool,
+      ).returns.resolves.toBeUnknown();
+      expect(legacyResult).not.toBeInstanceOf(CallToolResult);
+    });
+  });
+
+  describe("callTools", () => {
+    const routes = createFetchMock({
+      [API_PATHS.HEALTH_SERVER("web")]: { name: "web", status: "ok" },
+      [API_PATHS.HEALTH_SERVER("down")]: { name: "down", status: "timeout" },
+      [API_PATHS.TOOL_CALL("web", "fetch")]: {
+        content: [{ type: "text", text: "page" }],
+      },
+    });
+    let inFlight: number;
+    let maxInFlight: number;
+
+    beforeEach(() => {
+      inFlight = 0;
+      maxInFlight = 0;
+      mockFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+        if (init?.method !== "POST") {
+          return routes(url, init);
+        }
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return routes(url, init);
+      });
+    });
+
+    const healthChecks = (serverName: string) =>
+      mockFetch.mock.calls.filter(([url]) =>
+        String(url).endsWith(API_PATHS.HEALTH_SERVER(serverName)),
+      ).length;
+
+    it("should return the outcome of each call in order", async () => {
+      const outcomes = await client.callTools([
+        { server: "web", tool: "fetch", args: { url: "a" } },
+        { server: "down", tool: "fetch" },
+        { server: "web", tool: "missing" },
+      ]);
+
+      expect(outcomes.map((outcome) => outcome.status)).toEqual([
+        "fulfilled",
+        "rejected",
+        "rejected",
+      ]);
+      expect(outcomes[0]).toMatchObject({ server: "web", tool: "fetch" });
+      expect(
+        outcomes[0]!.status === "fulfilled" && outcomes[0]!.result.text(),
+      ).toBe("page");
+      expect(outcomes[1]).toMatchObject({
+        server: "down",
+        tool: "fetch",
+        error: expect.any(ServerUnhealthyError),
+      });
+      expect(outcomes[2]).toMatchObject({ error: expect.any(McpdError) });
+      for (const outcome of outcomes) {
+        expect(outcome.durationMs).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it("should check each server's health once", async () => {
+      const outcomes = await client.callTools(
+        [
+          ...Array.from({ length: 3 }, () => ({
+            server: "web",
+            tool: "fetch",
+          })),
+          ...Array.from({ length: 2 }, () => ({
+            server: "down",
+            tool: "fetch",
+          })),
+        ],
+        { concurrency: 5 },
+      );
+
+      expect(healthChecks("web")).toBe(1);
+      expect(healthChecks("down")).toBe(1);
+      expect(
+        outcomes.filter((outcome) => outcome.status === "fulfilled"),
+      ).toHaveLength(3);
+      // Calls to the unhealthy server are not sent.
+      expect(
+        mockFetch.mock.calls.filter(([url]) =>
+          String(url).endsWith(API_PATHS.TOOL_CALL("down", "fetch")),
+        ),
+      ).toHaveLength(0);
+    });
+
+    it("should bound the number of calls in flight", async () => {
+      const calls = Array.from({ length: 6 }, () => ({
+        server: "web",
+        tool: "fetch",
+      }));
+
+      await client.callTools(calls, { concurrency: 2 });
+      expect(maxInFlight).toBe(2);
+
+      maxInFlight = 0;
+      await client.callTools(calls);
+      expect(maxInFlight).toBe(4);
+    });
+
+    it("should skip the remaining calls with failFast", async () => {
+      const outcomes = await client.callTools(
+        [
+          { server: "down", tool: "fetch" },
+          { server: "web", tool: "fetch" },
+          { server: "web", tool: "fetch" },
+        ],
+        { concurrency: 1, failFast: true },
+      );
+
+      expect(outcomes[0]).toMatchObject({
+        status: "rejected",
+        error: expect.any(ServerUnhealthyError),
+      });
+      for (const outcome of outcomes.slice(1)) {
+        expect(outcome).toMatchObject({
+          status: "rejected",
+          error: expect.any(AbortedError),
+        });
+        expect(
+          outcome.status === "rejected" && outcome.error.cause,
+        ).toBeInstanceOf(ServerUnhealthyError);
+      }
+      expect(healthChecks("web")).toBe(0);
+    });
+
+    it("should report calls cancelled via the signal", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const outcomes = await client.callTools(
+        [{ server: "web", tool: "fetch" }],
+        { signal: controller.signal },
+      );
+
+      expect(outcomes[0]).toMatchObject({
+        status: "rejected",
+        error: expect.any(AbortedError),
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should return no outcomes for no calls", async () => {
+      await expect(client.callTools([])).resolves.toEqual([]);
+    });
+
+    it.each([0, 1.5])("should reject a concurrency of %s", async (value) => {
+      await expect(
+        client.callTools([{ server: "web", tool: "fetch" }], {
+          concurrency: value,
+        }),
+      ).rejects.toThrow(new RangeError("concurrency must be an integer >= 1"));
+    });
+  });
+
+  describe("result policies", () => {
+    const page = "x".repeat(100);
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(
+        createFetchMock({
+          [API_PATHS.SERVERS]: ["web"],
+          [API_PATHS.HEALTH_ALL]: { servers: [{ name: "web", status: "ok" }] },
+          [API_PATHS.HEALTH_SERVER("web")]: { name: "web", status: "ok" },
+          [API_PATHS.SERVER_TOOLS("web")]: {
+            tools: [
+              { name: "fetch", inputSchema: { type: "object" } },
+              { name: "search", inputSchema: { type: "object" } },
+            ],
+          },
+          [API_PATHS.TOOL_CALL("web", "fetch")]: {
+            content: [{ type: "text", text: page }],
+          },
+          [API_PATHS.TOOL_CALL("web", "search")]: {
+            content: [{ type: "text", text: page }],
+          },
+        }),
+      );
+    });
+
+    it("should apply the client's policy to agent tools", async () => {
+      const limitedClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        resultPolicy: { maxChars: 10, format: "text", marker: "" },
+      });
+
+      const [fetchTool] = await limitedClient.getAgentTools({
+        tools: ["fetch"],
+      });
+
+      await expect(fetchTool!.invoke({})).resolves.toMatchObject({
+        content: [{ type: "text", text: "x".repeat(10) }],
+      });
+      // Results of direct calls are not affected.
+      const result = await limitedClient.servers.web!.tools.fetch!();
+      expect(result.text()).toBe(page);
+    });
+
+    it("should merge client, call and per-tool policies", async () => {
+      const limitedClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        resultPolicy: { maxChars: 50, marker: "" },
+      });
+
+      const tools = await limitedClient.getAgentTools({
+        format: "map",
+        resultPolicy: { format: "text" },
+        toolResultPolicies: {
+          fetch: { maxChars: 20 },
+          web__fetch: { maxChars: 10 },
+        },
+      });
+
+      const fetched = await tools.get("web__fetch")!.execute({});
+      const searched = await tools.get("web__search")!.execute({});
+      expect(fetched.text()).toBe("x".repeat(10));
+      expect(searched.text()).toBe("x".repeat(50));
+    });
+
+    it("should reject an invalid policy", async () => {
+      expect(
+        () =>
+          new McpdClient({
+            apiEndpoint: "http://localhost:8090",
+            resultPolicy: { maxChars: -1 },
+          }),
+      ).toThrow(RangeError);
+      await expect(
+        client.getAgentTools({ resultPolicy: { maxTokens: 0 } }),
+      ).rejects.toThrow(RangeError);
+    });
+  });
+
+  describe("output validation", () => {
+    const outputSchema = {
+      type: "object",
+      properties: { time: { type: "string" }, dst: { type: "boolean" } },
+      required: ["time"],
+    } as const;
+    let toolResult: unknown;
+
+    beforeEach(() => {
+      toolResult = { content: [], structuredContent: { dst: "no" } };
+      const routes = createFetchMock({
+        [API_PATHS.SERVERS]: ["time"],
+        [API_PATHS.HEALTH_ALL]: { servers: [{ name: "time", status: "ok" }] },
+        [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+        [API_PATHS.SERVER_TOOLS("time")]: {
+          tools: [
+            {
+              name: "get_time",
+              inputSchema: { type: "object", properties: {} },
+              outputSchema,
+            },
+          ],
+        },
+      });
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) =>
+        url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))
+          ? { ok: true, json: async () => toolResult }
+          : routes(url, init),
+      );
+    });
+
+    it("should not check results by default", async () => {
+      await expect(
+        client.servers.time!.tools.get_time!(),
+      ).resolves.toMatchObject({ structuredContent: { dst: "no" } });
+    });
+
+    it("should type results from the output schema", async () => {
+      toolResult = { content: [], structuredContent: { time: "12:00" } };
+
+      const result =
+        await client.servers.time!.tools.get_time!<
+          JsonSchemaType<typeof outputSchema>
+        >();
+
+      expectTypeOf(result.structuredContent).toEqualTypeOf<
+        ({ time: string } & { dst?: boolean }) | undefined
+      >();
+      expect(result.structuredContent?.time).toBe("12:00");
+    });
+
+    it("should throw OutputValidationError in strict mode", async () => {
+      const strictClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        outputValidation: "strict",
+      });
+
+      const error = await strictClient.servers
+        .time!.callTool("get_time")
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(OutputValidationError);
+      expect(error).toMatchObject({
+        serverName: "time",
+        toolName: "get_time",
+        issues: [
+          { path: "/time", message: "is required" },
+          { path: "/dst", message: "should be boolean, got string" },
+        ],
+      });
+      expect((error as Error).message).toContain(
+        "/time is required; /dst should be boolean, got string",
+      );
+    });
+
+    it("should check results of agent tools", async () => {
+      const strictClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        outputValidation: "strict",
+      });
+      const [tool] = await strictClient.getAgentTools({ servers: ["time"] });
+
+      await expect(tool!({})).rejects.toThrow(OutputValidationError);
+    });
+
+    it("should report missing structured content", async () => {
+      toolResult = { content: [{ type: "text", text: "12:00" }] };
+      const strictClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        outputValidation: "strict",
+      });
+
+      await expect(
+        strictClient.servers.time!.tools.get_time!(),
+      ).rejects.toMatchObject({
+        issues: [{ path: "", message: "is missing" }],
+      });
+    });
+
+    it("should not check results flagged as errors", async () => {
+      toolResult = { content: [{ type: "text", text: "boom" }], isError: true };
+      const strictClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        outputValidation: "strict",
+      });
+
+      await expect(
+        strictClient.servers.time!.tools.get_time!(),
+      ).resolves.toMatchObject({ isError: true });
+    });
+
+    it("should log a warning and return the result in lenient mode", async () => {
+      const warn = vi.fn();
+      const lenientClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        outputValidation: "lenient",
+        logger: { warn },
+      });
+
+      await expect(
+        lenientClient.servers.time!.tools.get_time!(),
+      ).resolves.toMatchObject({ structuredContent: { dst: "no" } });
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "Output of tool 'get_time' on server 'time' doesn't match its output schema",
+        ),
+      );
+    });
+
+    const mockOutputSchema = (schema: Record<string, unknown>) => {
+      mockFetch.mockImplementation(
+        createFetchMock({
+          [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+          [API_PATHS.SERVER_TOOLS("time")]: {
+            tools: [
+              { name: "get_time", inputSchema: {}, outputSchema: schema },
+            ],
+          },
+          [API_PATHS.TOOL_CALL("time", "get_time")]: toolResult,
+        }),
+      );
+    };
+
+    it("should accept null for nullable fields in strict mode", async () => {
+      toolResult = { content: [], structuredContent: { time: null } };
+      mockOutputSchema({
+        type: "object",
+        properties: { time: { type: ["string", "null"] } },
+        required: ["time"],
+      });
+      const strictClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        outputValidation: "strict",
+      });
+
+      await expect(
+        strictClient.servers.time!.tools.get_time!(),
+      ).resolves.toMatchObject({ structuredContent: { time: null } });
+    });
+
+    it("should skip schemas it can't check and warn once", async () => {
+      mockOutputSchema({
+        type: "object",
+        properties: { dst: { $ref: "#/$defs/flag" } },
+        $defs: { flag: { type: "boolean" } },
+      });
+      const warn = vi.fn();
+      const strictClient = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        outputValidation: "strict",
+        logger: { warn },
+      });
+
+      for (let i = 0; i < 2; i++) {
+        await expect(
+          strictClient.servers.time!.tools.get_time!(),
+        ).resolves.toMatchObject({ structuredContent: { dst: "no" } });
+      }
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(
+        "Skipping output validation of tool 'get_time' on server 'time': its output schema uses '$ref', which can't be checked",
+      );
+    });
+
+    it("should reject an unknown mode", () => {
+      expect(
+        () =>
+          new McpdClient({
+            apiEndpoint: "http://localhost:8090",
+            outputValidation: "loose" as OutputValidationMode,
+          }),
+      ).toThrow(RangeError);
+    });
+  });
+
+  describe("error mapping", () => {
+    const routes = createFetchMock({
+      [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+      [API_PATHS.SERVER_TOOLS("time")]: {
+        tools: [
+          {
+            name: "get_time",
+            inputSchema: { type: "object", properties: {} },
+          },
+        ],
+      },
+      [API_PATHS.SERVER_PROMPTS("time")]: {
+        prompts: [{ name: "greet", arguments: [] }],
+      },
+    });
+
+    const respondTo = (
+      path: string,
+      status: number,
+      errorModel: Record<string, unknown>,
+      headers: Record<string, string> = {},
+    ) => {
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) =>
+        url.endsWith(path)
+          ? {
+              ok: false,
+              status,
+              statusText: "Error",
+              headers: new Headers(headers),
+              text: async () => JSON.stringify(errorModel),
+            }
+          : routes(url, init),
+      );
+    };
+
+    const notFound = {
+      status: 404,
+      title: "Not Found",
+      detail: "not found",
+      type: "about:blank",
+    };
+
+    it("should map 404 on tool calls to ToolNotFoundError", async () => {
+      const path = API_PATHS.TOOL_CALL("time", "get_time");
+      respondTo(path, 404, notFound);
+
+      const error = await client.servers
+        .time!.callTool("get_time")
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ToolNotFoundError);
+      expect(error).toMatchObject({
+        serverName: "time",
+        toolName: "get_time",
+        status: 404,
+        errorModel: notFound,
+        path,
+        message: "Not Found: not found",
+      });
+    });
+
+    it("should map 404 on prompt generation to PromptNotFoundError", async () => {
+      respondTo(API_PATHS.PROMPT_GET_GENERATED("time", "greet"), 404, notFound);
+
+      await expect(
+        client.servers.time!.generatePrompt("greet"),
+      ).rejects.toMatchObject({
+        name: "PromptNotFoundError",
+        serverName: "time",
+        promptName: "greet",
+      });
+    });
+
+    it("should map 404 on resource reads to ResourceNotFoundError", async () => {
+      const uri = "file:///missing.txt";
+      respondTo(API_PATHS.RESOURCE_CONTENT("time", uri), 404, notFound);
+
+      const error = await client.servers
+        .time!.readResource(uri)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ResourceNotFoundError);
+      expect(error).toMatchObject({ serverName: "time", uri, status: 404 });
+    });
+
+    it("should map 501 to CapabilityNotSupportedError", async () => {
+      const uri = "file:///a.txt";
+      respondTo(API_PATHS.RESOURCE_CONTENT("time", uri), 501, {
+        status: 501,
+        title: "Not Implemented",
+        detail: "resources not supported",
+      });
+
+      const error = await client.servers
+        .time!.readResource(uri)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CapabilityNotSupportedError);
+      expect(error).toMatchObject({
+        capability: "resources",
+        serverName: "time",
+        status: 501,
+      });
+    });
+
+    it("should list no prompts for servers without prompt support", async () => {
+      respondTo(API_PATHS.SERVER_PROMPTS("time"), 501, {
+        status: 501,
+        title: "Not Implemented",
+        detail: "prompts not supported",
+      });
+
+      await expect(client.servers.time!.getPrompts()).resolves.toEqual([]);
+    });
+
+    it("should map 404 on server paths to ServerNotFoundError", async () => {
+      respondTo(API_PATHS.HEALTH_SERVER("missing"), 404, notFound);
+
+      await expect(client.getServerHealth("missing")).rejects.toThrow(
+        ServerNotFoundError,
+      );
+    });
+
+    it("should map 422 with error details to ValidationError", async () => {
+      const errorModel = {
+        status: 422,
+        title: "Unprocessable Entity",
+        detail: "validation failed",
+        type: "about:blank",
+        errors: [
+          { location: "body.timezone", message: "expected string", value: 1 },
+        ],
+      };
+      respondTo(API_PATHS.TOOL_CALL("time", "get_time"), 422, errorModel);
+
+      const error = await client.servers
+        .time!.callTool("get_time", { timezone: 1 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      const validationError = error as ValidationError;
+      expect(validationError.validationErrors).toEqual([
+        "body.timezone: expected string",
+      ]);
+      expect(validationError.details).toEqual(errorModel.errors);
+      expect(validationError.message).toBe(
+        "Unprocessable Entity: validation failed - body.timezone: expected string",
+      );
+    });
+
+    it("should map 429 to RateLimitError with retryAfter", async () => {
+      respondTo(
+        API_PATHS.TOOL_CALL("time", "get_time"),
+        429,
+        { status: 429, title: "Too Many Requests", detail: "slow down" },
+        { "Retry-After": "3" },
+      );
+
+      const error = await client.servers
+        .time!.callTool("get_time")
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({ retryAfter: 3, status: 429 });
+    });
+
+    it("should expose status, errorModel and path on other errors", async () => {
+      const errorModel = {
+        status: 500,
+        title: "Internal Server Error",
+        detail: "boom",
+        type: "about:blank",
+      };
+      respondTo(API_PATHS.SERVERS, 500, errorModel);
+
+      const error = await client.listServers().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(McpdError);
+      expect(error).toMatchObject({
+        status: 500,
+        errorModel,
+        path: API_PATHS.SERVERS,
+      });
+    });
+
+    it("should expose the path on transport errors", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+
+      const error = await client.listServers().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConnectionError);
+      expect(error).toMatchObject({
+        path: API_PATHS.SERVERS,
+        status: undefined,
+      });
+    });
+  });
+
+  describe("daemon info", () => {
+    it("should fetch the daemon info once", async () => {
+      mockFetch.mockImplementation(
+        createFetchMock({
+          [API_PATHS.DAEMON_INFO]: {
+            version: "0.2.0",
+            apiVersion: "v1",
+            features: ["prompts", 42, "resources"],
+          },
+        }),
+      );
+
+      const info = await client.getDaemonInfo();
+      await client.getDaemonInfo();
+
+      expect(info).toEqual({
+        version: "0.2.0",
+        apiVersion: "v1",
+        features: ["prompts", "resources"],
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refresh the daemon info on ping", async () => {
+      mockFetch.mockImplementation(
+        createFetchMock({ [API_PATHS.DAEMON_INFO]: { version: "0.2.0" } }),
+      );
+      await client.getDaemonInfo();
+
+      mockFetch.mockImplementation(
+        createFetchMock({ [API_PATHS.DAEMON_INFO]: { version: "0.3.0" } }),
+      );
+
+      expect((await client.ping()).version).toBe("0.3.0");
+      expect((await client.getDaemonInfo()).version).toBe("0.3.0");
+    });
+
+    it("should report daemons without the info endpoint as reachable", async () => {
+      mockFetch.mockImplementation(createFetchMock({}));
+
+      await expect(client.ping()).resolves.toEqual({
+        version: undefined,
+        apiVersion: "v1",
+        features: [],
+      });
+    });
+
+    it("should cache the fallback info for daemons without the endpoint", async () => {
+      mockFetch.mockImplementation(createFetchMock({}));
+
+      await expect(client.getDaemonInfo()).resolves.toEqual({
+        version: undefined,
+        apiVersion: "v1",
+        features: [],
+      });
+      await client.getDaemonInfo();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw when the daemon is unreachable", async () => {
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+      await expect(client.ping()).rejects.toThrow(ConnectionError);
+    });
+  });
+
+  describe("getServerCapabilities()", () => {
+    beforeEach(() => {
+      const routes = createFetchMock({
+        [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+        [API_PATHS.SERVER_TOOLS("time")]: { tools: [] },
+        [API_PATHS.SERVER_RESOURCES("time")]: { resources: [] },
+      });
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) =>
+        url.endsWith(API_PATHS.SERVER_PROMPTS("time"))
+          ? {
+              ok: false,
+              status: 501,
+              statusText: "Not Implemented",
+              text: async () => "",
+            }
+          : routes(url, init),
+      );
+    });
+
+    it("should probe the capabilities a server supports", async () => {
+      await expect(client.getServerCapabilities("time")).resolves.toEqual({
+        tools: true,
+        prompts: false,
+        resources: true,
+      });
+    });
+
+    it("should cache capabilities until the tool list cache is cleared", async () => {
+      await client.getServerCapabilities("time");
+      const requests = mockFetch.mock.calls.length;
+
+      await client.getServerCapabilities("time");
+      expect(mockFetch).toHaveBeenCalledTimes(requests);
+
+      client.clearToolsCache("time");
+      await client.getServerCapabilities("time");
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(requests);
+    });
+  });
+
+  describe("credentials", () => {
+    const unauthorized = {
+      ok: false,
+      status: 401,
+      statusText: "Unauthorized",
+      text: async () =>
+        JSON.stringify({
+          status: 401,
+          title: "Unauthorized",
+          detail: "token expired",
+          type: "about:blank",
+        }),
+    };
+    const servers = { ok: true, json: async () => ["time"] };
+
+    const authorizationOf = (call: unknown[]) =>
+      (call[1] as RequestInit & { headers: Record<string, string> }).headers[
+        "Authorization"
+      ];
+
+    it("should send the token from the provider", async () => {
+      const credentials = vi.fn(async () => "token-1");
+      mockFetch.mockResolvedValue(servers);
+
+      client = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        credentials,
+      });
+      await client.listServers();
+      await client.listServers();
+
+      expect(credentials).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls.map(authorizationOf)).toEqual([
+        "Bearer token-1",
+        "Bearer token-1",
+      ]);
+    });
+
+    it("should refresh tokens that are about to expire", async () => {
+      vi.useFakeTimers();
+      try {
+        let n = 0;
+        const credentials = vi.fn(async () => ({
+          token: `token-${++n}`,
+          expiresAt: Date.now() + 60_000,
+        }));
+        mockFetch.mockResolvedValue(servers);
+
+        client = new McpdClient({
+          apiEndpoint: "http://localhost:8090",
+          credentials,
+        });
+        await client.listServers();
+        vi.advanceTimersByTime(45_000);
+        await client.listServers();
+
+        expect(mockFetch.mock.calls.map(authorizationOf)).toEqual([
+          "Bearer token-1",
+          "Bearer token-2",
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should refresh once and retry on 401", async () => {
+      let n = 0;
+      const credentials = vi.fn(async () => `token-${++n}`);
+      mockFetch.mockResolvedValueOnce(unauthorized).mockResolvedValue(servers);
+
+      client = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        credentials,
+      });
+      const result = await client.listServers();
+
+      expect(result).toEqual(["time"]);
+      expect(mockFetch.mock.calls.map(authorizationOf)).toEqual([
+        "Bearer token-1",
+        "Bearer token-2",
+      ]);
+    });
+
+    it("should not count the refresh as a retry attempt", async () => {
+      let n = 0;
+      const credentials = vi.fn(async () => `token-${++n}`);
+      mockFetch
+        .mockResolvedValueOnce(unauthorized)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: "Service Unavailable",
+          headers: new Headers(),
+          text: async () => "",
+        })
+        .mockResolvedValue(servers);
+      const attempts: number[] = [];
+
+      client = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        credentials,
+        retry: { maxAttempts: 2, initialDelayMs: 0 },
+        middleware: [
+          async (ctx, next) => {
+            attempts.push(ctx.attempt);
+            return next();
+          },
+        ],
+      });
+      const result = await client.listServers();
+
+      expect(result).toEqual(["time"]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(attempts).toEqual([1, 1, 2]);
+    });
+
+    it("should throw AuthenticationError when the refreshed token is rejected", async () => {
+      let n = 0;
+      const credentials = vi.fn(async () => `token-${++n}`);
+      mockFetch.mockResolvedValue(unauthorized);
+
+      client = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        credentials,
+      });
+      const error = await client.listServers().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(credentials).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share one refresh between concurrent rejected requests", async () => {
+      let n = 0;
+      const credentials = vi.fn(async () => `token-${++n}`);
+      mockFetch.mockImplementation(
+        async (_url: string, init: { headers: Record<string, string> }) =>
+          init.headers["Authorization"] === "Bearer token-1"
+            ? unauthorized
+            : { ok: true, json: async () => ({ name: "time", status: "ok" }) },
+      );
+
+      client = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        credentials,
+      });
+      await Promise.all([client.getServerHealth("time"), client.listServers()]);
+
+      expect(credentials).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should wrap provider failures in AuthenticationError", async () => {
+      const cause = new Error("vault unavailable");
+      client = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        credentials: async () => {
+          throw cause;
+        },
+      });
+
+      const error = await client.listServers().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error).toMatchObject({
+        message: "Failed to obtain credentials: vault unavailable",
+        cause,
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should drop cached authentication errors after a refresh", async () => {
+      let n = 0;
+      const credentials = vi.fn(async () => `token-${++n}`);
+      mockFetch.mockImplementation(
+        async (url: string, init: { headers: Record<string, string> }) => {
+          // The daemon only accepts token-3 for the health endpoint.
+          if (
+            url.endsWith(API_PATHS.HEALTH_SERVER("time")) &&
+            init.headers["Authorization"] !== "Bearer token-3"
+          ) {
+            return unauthorized;
+          }
+          return url.endsWith(API_PATHS.HEALTH_SERVER("time"))
+            ? { ok: true, json: async () => ({ name: "time", status: "ok" }) }
+            : servers;
+        },
+      );
+
+      client = new McpdClient({
+        apiEndpoint: "http://localhost:8090",
+        credentials,
+      });
+      await expect(client.getServerHealth("time")).rejects.toThrow(
+        AuthenticationError,
+      );
+      // Cached: no request is made.
+      await expect(client.getServerHealth("time")).rejects.toThrow(
+        AuthenticationError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      // A later rejection elsewhere refreshes the token, dropping the cache entry.
+      mockFetch.mockImplementationOnce(async () => unauthorized);
+      await client.listServers();
+
+      expect(await client.getServerHealth("time")).toEqual({
+        name: "time",
+        status: "ok",
+      });
+    });
+
+    it("should reject apiKey together with credentials", () => {
+      expect(
+        () =>
+          new McpdClient({
+            apiEndpoint: "http://localhost:8090",
+            apiKey: "key",
+            credentials: async () => "token",
+          }),
+      ).toThrow(TypeError);
+    });
+  });
+
+  describe("multiple endpoints", () => {
+    const hosts = () =>
+      mockFetch.mock.calls.map(([url]) => new URL(url as string).host);
+
+    const replicaFetch =
+      (down: string[]) =>
+      async (url: string, init: RequestInit): Promise<Response> => {
+        if (down.includes(new URL(url).host)) {
+          throw new TypeError("fetch failed");
+        }
+        return createFetchMock({
+          [API_PATHS.SERVERS]: ["time"],
+          [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+          [API_PATHS.SERVER_TOOLS("time")]: {
+            tools: [{ name: "set_alarm", inputSchema: { type: "object" } }],
+          },
+          [API_PATHS.TOOL_CALL("time", "set_alarm")]: { ok: true },
+        })(url, init);
+      };
+
+    const createReplicaClient = (
+      strategy?: "failover" | "round-robin" | "least-latency",
+    ) =>
+      new McpdClient({
+        apiEndpoint: ["http://mcpd-a:8090", "http://mcpd-b:8090/"],
+        ...(strategy ? { loadBalancing: { strategy } } : {}),
+      });
+
+    it("should fail over to the next endpoint without retrying", async () => {
+      mockFetch.mockImplementation(replicaFetch(["mcpd-a:8090"]));
+      const replicaClient = createReplicaClient();
+
+      expect(await replicaClient.listServers()).toEqual(["time"]);
+      expect(await replicaClient.listServers()).toEqual(["time"]);
+
+      expect(hosts()).toEqual(["mcpd-a:8090", "mcpd-b:8090", "mcpd-b:8090"]);
+    });
+
+    it("should spread requests with round-robin", async () => {
+      mockFetch.mockImplementation(replicaFetch([]));
+      const replicaClient = createReplicaClient("round-robin");
+
+      await replicaClient.listServers();
+      await replicaClient.listServers();
+      await replicaClient.listServers();
+
+      expect(hosts()).toEqual(["mcpd-a:8090", "mcpd-b:8090", "mcpd-a:8090"]);
+    });
+
+    it("should name the failing endpoint when all endpoints fail", async () => {
+      mockFetch.mockImplementation(
+        replicaFetch(["mcpd-a:8090", "mcpd-b:8090"]),
+      );
+      const replicaClient = createReplicaClient();
+
+      await expect(replicaClient.listServers()).rejects.toThrow(
+        "Cannot connect to mcpd daemon at http://mcpd-b:8090",
+      );
+      expect(hosts()).toEqual(["mcpd-a:8090", "mcpd-b:8090"]);
+    });
+
+    it("should not fail over non-idempotent tool calls", async () => {
+      const down = [] as string[];
+      mockFetch.mockImplementation(replicaFetch(down));
+      const replicaClient = createReplicaClient();
+      await replicaClient.servers.time!.getTools();
+      down.push("mcpd-a:8090");
+
+      await expect(
+        replicaClient.servers.time!.tools.set_alarm!(),
+      ).rejects.toThrow(ConnectionError);
+      mockFetch.mockClear();
+
+      await expect(
+        replicaClient.servers.time!.tools.set_alarm!(),
+      ).resolves.toMatchObject({ structuredContent: { ok: true } });
+      expect(new Set(hosts())).toEqual(new Set(["mcpd-b:8090"]));
+    });
+
+    it("should clear the health and tool caches when an endpoint goes down", async () => {
+      const down = [] as string[];
+      mockFetch.mockImplementation(replicaFetch(down));
+      const replicaClient = createReplicaClient();
+      const cleared = vi.fn();
+      replicaClient.on("cache:cleared", cleared);
+      await replicaClient.getServerHealth("time");
+      await replicaClient.servers.time!.getTools();
+      down.push("mcpd-a:8090");
+
+      await replicaClient.listServers();
+      mockFetch.mockClear();
+      await replicaClient.getServerHealth("time");
+      await replicaClient.servers.time!.getTools();
+
+      expect(cleared.mock.calls.map(([event]) => event.cache)).toEqual([
+        "health",
+        "tools",
+      ]);
+      expect(hosts()).toEqual(["mcpd-b:8090", "mcpd-b:8090"]);
+    });
+  });
 });
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { McpdClient } from "../../src/client";
+import {
+  agentToolsFilter,
+  loadConfig,
+  parseMcpdToml,
+  readEnvConfig,
+} from "../../src/config";
+import { ConfigurationError } from "../../src/errors";
+import { API_PATHS } from "../../src/apiPaths";
+
+describe("configuration", () => {
+  describe("readEnvConfig", () => {
+    it("should read client options from the environment", () => {
+      expect(
+        readEnvConfig({
+          MCPD_ADDR: "http://mcpd:9000",
+          MCPD_API_KEY: "secret",
+          MCPD_TIMEOUT: "5000",
+          MCPD_HEALTH_CACHE_TTL: "2.5",
+        }),
+      ).toEqual({
+        apiEndpoint: "http://mcpd:9000",
+        apiKey: "secret",
+        timeout: 5000,
+        healthCacheTtl: 2.5,
+      });
+    });
+
+    it("should ignore unset and empty variables", () => {
+      expect(readEnvConfig({ MCPD_ADDR: "", MCPD_TIMEOUT: " " })).toEqual({});
+    });
+
+    it("should accept unix socket endpoints", () => {
+      expect(readEnvConfig({ MCPD_ADDR: "unix:///run/mcpd.sock" })).toEqual({
+        apiEndpoint: "unix:///run/mcpd.sock",
+      });
+    });
+
+    it.each([
+      ["MCPD_ADDR", "localhost:8090"],
+      ["MCPD_TIMEOUT", "soon"],
+      ["MCPD_TIMEOUT", "-1"],
+      ["MCPD_TIMEOUT", "1.5"],
+      ["MCPD_HEALTH_CACHE_TTL", "-10"],
+    ])("should reject %s=%s", (name, value) => {
+      let error: unknown;
+      try {
+        readEnvConfig({ [name]: value });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect((error as ConfigurationError).source).toBe(name);
+      expect((error as Error).message).toContain(`got '${value}'`);
+    });
+  });
+
+  describe("McpdClient.fromEnv", () => {
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ["time"],
+      });
+      vi.stubGlobal("fetch", mockFetch);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const lastRequest = () => {
+      const [url, init] = mockFetch.mock.calls.at(-1)!;
+      return {
+        url: url as string,
+        headers: (init as { headers: Record<string, string> }).headers,
+      };
+    };
+
+    it("should use the endpoint and API key from the environment", async () => {
+      const client = McpdClient.fromEnv(
+        {},
+        { MCPD_ADDR: "http://mcpd:9000", MCPD_API_KEY: "secret" },
+      );
+
+      await client.listServers();
+
+      expect(lastRequest().url).toBe(`http://mcpd:9000${API_PATHS.SERVERS}`);
+      expect(lastRequest().headers["Authorization"]).toBe("Bearer secret");
+    });
+
+    it("should default to the local daemon", async () => {
+      await McpdClient.fromEnv({}, {}).listServers();
+
+      expect(lastRequest().url).toBe(
+        `http://localhost:8090${API_PATHS.SERVERS}`,
+      );
+    });
+
+    it("should let options override the environment", async () => {
+      const client = McpdClient.fromEnv(
+        { credentials: async () => "rotated" },
+        { MCPD_ADDR: "http://mcpd:9000", MCPD_API_KEY: "secret" },
+      );
+
+      await client.listServers();
+
+      expect(lastRequest().headers["Authorization"]).toBe("Bearer rotated");
+    });
+
+    it("should throw ConfigurationError for invalid values", () => {
+      expect(() => McpdClient.fromEnv({}, { MCPD_TIMEOUT: "abc" })).toThrow(
+        ConfigurationError,
+      );
+    });
+  });
+
+  describe("parseMcpdToml", () => {
+    it("should parse the servers and tools of the basic example", async () => {
+      const text = await readFile(
+        join(__dirname, "../../examples/basic/.mcpd.toml"),
+        "utf8",
+      );
+
+      expect(parseMcpdToml(text)).toEqual({
+        servers: [
+          {
+            name: "fetch",
+            package: "uvx::mcp-server-fetch@2025.4.7",
+            tools: ["fetch"],
+          },
+          {
+            name: "time",
+            package: "uvx::mcp-server-time@2025.8.4",
+            tools: ["get_current_time", "convert_time"],
+          },
+        ],
+      });
+    });
+
+    it("should reject invalid TOML", () => {
+      expect(() =>
+        parseMcpdToml('[[servers]]\nname = "time', "a.toml"),
+      ).toThrow(/Invalid TOML in 'a\.toml': Unterminated string at line 2/);
+    });
+
+    it("should reject servers without a name", () => {
+      expect(() => parseMcpdToml('[[servers]]\ntools = ["x"]')).toThrow(
+        /servers\.0\.name: Required/,
+      );
+    });
+  });
+
+  describe("agentToolsFilter", () => {
+    it("should allow the declared servers and tools", () => {
+      expect(
+        agentToolsFilter({
+          servers: [
+            { name: "time", tools: ["get_current_time"] },
+            { name: "math", tools: ["add"] },
+          ],
+        }),
+      ).toEqual({
+        servers: ["time", "math"],
+        tools: ["time__get_current_time", "math__add"],
+      });
+    });
+
+    it("should allow all tools if a server has no allow-list", () => {
+      expect(
+        agentToolsFilter({
+          servers: [
+            { name: "time", tools: ["get_current_time"] },
+            { name: "math" },
+          ],
+        }),
+      ).toEqual({ servers: ["time", "math"] });
+    });
+  });
+
+  describe("loadConfig", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "mcpd-config-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should merge the config file, then the environment", async () => {
+      const configFile = join(dir, "mcpd.json");
+      await writeFile(
+        configFile,
+        JSON.stringify({
+          apiEndpoint: "http://file:1",
+          timeout: 1000,
+          projectFile: ".mcpd.toml",
+        }),
+      );
+      await writeFile(
+        join(dir, ".mcpd.toml"),
+        '[[servers]]\nname = "time"\ntools = ["get_current_time"]\n',
+      );
+
+      const config = await loadConfig({
+        env: { MCPD_SDK_CONFIG: configFile, MCPD_TIMEOUT: "2000" },
+      });
+
+      expect(config).toEqual({
+        clientOptions: { apiEndpoint: "http://file:1", timeout: 2000 },
+        project: { servers: [{ name: "time", tools: ["get_current_time"] }] },
+      });
+    });
+
+    it("should use defaults without configuration", async () => {
+      await expect(loadConfig({ env: {} })).resolves.toEqual({
+        clientOptions: { apiEndpoint: "http://localhost:8090" },
+        project: undefined,
+      });
+    });
+
+    it("should reject unknown and invalid config file fields", async () => {
+      const configFile = join(dir, "mcpd.json");
+      await writeFile(configFile, JSON.stringify({ timeout: "fast", port: 1 }));
+
+      const error = await loadConfig({ configFile, env: {} }).catch(
+        (e: unknown) => e,
+      );
+
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect((error as ConfigurationError).source).toBe(configFile);
+      expect((error as Error).message).toMatch(/timeout: Expected number/);
+      expect((error as Error).message).toMatch(/Unrecognized key.*'port'/);
+    });
+
+    it("should report files that can't be read", async () => {
+      const projectFile = join(dir, "missing.toml");
+
+      await expect(loadConfig({ projectFile, env: {} })).rejects.toThrow(
+        `Failed to read configuration file '${projectFile}'`,
+      );
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { McpdClient } from "../../src/client";
-import { ToolNotFoundError } from "../../src/errors";
+import { AbortedError, ToolNotFoundError } from "../../src/errors";
 
 /**
  * Tests for all supported calling patterns to prevent regressions.
@@ -143,7 +143,7 @@ describe("Dynamic Calling Patterns", () => {
         timezone: "UTC",
       });
 
-      expect(result).toEqual({
+      expect(result.toJSON()).toEqual({
         content: [{ type: "text", text: "2024-10-13T12:00:00Z" }],
       });
       expect(mockFetch).toHaveBeenCalledWith(
@@ -215,7 +215,7 @@ describe("Dynamic Calling Patterns", () => {
 
       const result = await client.servers.time!.tools.no_args_tool!();
 
-      expect(result).toEqual({
+      expect(result.toJSON()).toEqual({
         content: [{ type: "text", text: "success" }],
       });
     });
@@ -266,7 +266,7 @@ describe("Dynamic Calling Patterns", () => {
         timezone: "UTC",
       });
 
-      expect(result).toEqual({
+      expect(result.toJSON()).toEqual({
         content: [{ type: "text", text: "2024-10-13T12:00:00Z" }],
       });
     });
@@ -343,7 +343,7 @@ describe("Dynamic Calling Patterns", () => {
         timezone: "UTC",
       });
 
-      expect(result).toEqual({
+      expect(result.toJSON()).toEqual({
         content: [{ type: "text", text: "2024-10-13T12:00:00Z" }],
       });
     });
@@ -518,12 +518,97 @@ describe("Dynamic Calling Patterns", () => {
         timezone: "UTC",
       });
 
-      expect(result).toEqual({
+      expect(result.toJSON()).toEqual({
         content: [{ type: "text", text: "2024-10-13T12:00:00Z" }],
       });
     });
   });
 
+  describe("Per-call request options", () => {
+    const mockHealthAndTools = () => {
+      // Health check.
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ name: "time", status: "ok" }),
+      });
+
+      // Tools list.
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ tools: [{ name: "get_current_time" }] }),
+      });
+    };
+
+    // Tool execution that never settles until the request signal is aborted.
+    const mockHangingToolCall = () => {
+      mockFetch.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("Aborted", "AbortError")),
+            );
+          }),
+      );
+    };
+
+    it("should cancel tools namespace calls via signal", async () => {
+      mockHealthAndTools();
+      mockHangingToolCall();
+      const controller = new AbortController();
+
+      const pending = client.servers.time!.tools.get_current_time!(
+        { timezone: "UTC" },
+        { signal: controller.signal },
+      );
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(AbortedError);
+    });
+
+    it("should cancel callTool via signal", async () => {
+      mockHealthAndTools();
+      mockHangingToolCall();
+      const controller = new AbortController();
+
+      const pending = client.servers.time!.callTool(
+        "get_current_time",
+        { timezone: "UTC" },
+        { signal: controller.signal },
+      );
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(AbortedError);
+    });
+
+    it("should cancel readResource via signal", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.servers.github!.readResource("file:///repo/README.md", {
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow(AbortedError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should cancel generatePrompt via signal", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.servers.github!.generatePrompt(
+          "create_pr",
+          {},
+          { signal: controller.signal },
+        ),
+      ).rejects.toThrow(AbortedError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Prompt Dynamic Calling Patterns", () => {
     describe("Pattern: client.servers.foo.getPrompts()", () => {
       it("should list prompts with static property access", async () => {
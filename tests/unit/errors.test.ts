@@ -0,0 +1,297 @@
+import { describe, it, expect } from "vitest";
+import {
+  AbortedError,
+  AuthenticationError,
+  CapabilityNotSupportedError,
+  ConfigurationError,
+  ConnectionError,
+  ContentTooLargeError,
+  McpdError,
+  OutputValidationError,
+  PIPELINE_FLOW_REQUEST,
+  PIPELINE_FLOW_RESPONSE,
+  PipelineError,
+  PromptNotFoundError,
+  QueueFullError,
+  RateLimitError,
+  ResourceNotFoundError,
+  ServerNotFoundError,
+  ServerUnhealthyError,
+  TimeoutError,
+  ToolExecutionError,
+  ToolNotFoundError,
+  ValidationError,
+  type McpdErrorJSON,
+} from "../../src/errors";
+import { HealthStatus, type ErrorModel } from "../../src/types";
+
+const errorModel: ErrorModel = {
+  status: 500,
+  title: "Internal Server Error",
+  detail: "tool crashed",
+  type: "about:blank",
+};
+
+describe("McpdError serialization", () => {
+  describe("code", () => {
+    it.each([
+      [new McpdError("x"), "MCPD_ERROR"],
+      [new ConnectionError("x"), "MCPD_CONNECTION"],
+      [new AuthenticationError("x"), "MCPD_AUTHENTICATION"],
+      [new ServerNotFoundError("x", "time"), "MCPD_SERVER_NOT_FOUND"],
+      [
+        new ServerUnhealthyError("x", "time", HealthStatus.TIMEOUT),
+        "MCPD_SERVER_UNHEALTHY",
+      ],
+      [new ToolNotFoundError("x", "time", "now"), "MCPD_TOOL_NOT_FOUND"],
+      [new PromptNotFoundError("x", "time", "p"), "MCPD_PROMPT_NOT_FOUND"],
+      [new ResourceNotFoundError("x", "time", "r"), "MCPD_RESOURCE_NOT_FOUND"],
+      [new ToolExecutionError("x", "time", "now"), "MCPD_TOOL_EXECUTION"],
+      [new ValidationError("x"), "MCPD_VALIDATION"],
+      [new TimeoutError("x"), "MCPD_TIMEOUT"],
+      [new PipelineError("x"), "MCPD_PIPELINE"],
+      [
+        new PipelineError("x", "time", "now", PIPELINE_FLOW_REQUEST),
+        "MCPD_PIPELINE_REQUEST",
+      ],
+      [
+        new PipelineError("x", "time", "now", PIPELINE_FLOW_RESPONSE),
+        "MCPD_PIPELINE_RESPONSE",
+      ],
+      [new AbortedError("x"), "MCPD_ABORTED"],
+      [new QueueFullError("x"), "MCPD_QUEUE_FULL"],
+      [new RateLimitError("x"), "MCPD_RATE_LIMITED"],
+      [new ConfigurationError("x", "MCPD_TIMEOUT"), "MCPD_CONFIGURATION"],
+      [
+        new CapabilityNotSupportedError("x", "prompts", "time"),
+        "MCPD_CAPABILITY_NOT_SUPPORTED",
+      ],
+      [new OutputValidationError("x", "time", "now"), "MCPD_OUTPUT_VALIDATION"],
+      [new ContentTooLargeError("x", 2, 1), "MCPD_CONTENT_TOO_LARGE"],
+    ])("%s should have code %s", (error, code) => {
+      expect(error.code).toBe(code);
+    });
+  });
+
+  describe("isRetryable", () => {
+    it("should be true for transient failures", () => {
+      expect(new ConnectionError("x").isRetryable).toBe(true);
+      expect(new TimeoutError("x").isRetryable).toBe(true);
+      expect(new RateLimitError("x", 5).isRetryable).toBe(true);
+      expect(new QueueFullError("x").isRetryable).toBe(true);
+      expect(new McpdError("x", undefined, { status: 503 }).isRetryable).toBe(
+        true,
+      );
+    });
+
+    it("should be false for permanent failures", () => {
+      expect(new McpdError("x").isRetryable).toBe(false);
+      expect(new McpdError("x", undefined, { status: 500 }).isRetryable).toBe(
+        false,
+      );
+      expect(new AuthenticationError("x").isRetryable).toBe(false);
+      expect(new ToolNotFoundError("x").isRetryable).toBe(false);
+      expect(new ValidationError("x").isRetryable).toBe(false);
+      expect(new PipelineError("x").isRetryable).toBe(false);
+      expect(new AbortedError("x").isRetryable).toBe(false);
+    });
+
+    it("should depend on the health status for unhealthy servers", () => {
+      expect(
+        new ServerUnhealthyError("x", "time", HealthStatus.TIMEOUT).isRetryable,
+      ).toBe(true);
+      expect(
+        new ServerUnhealthyError("x", "time", "circuit_open").isRetryable,
+      ).toBe(true);
+      expect(
+        new ServerUnhealthyError("x", "time", HealthStatus.UNREACHABLE)
+          .isRetryable,
+      ).toBe(false);
+    });
+  });
+
+  describe("toJSON", () => {
+    it("should include the code, class fields and context", () => {
+      const error = new ToolExecutionError(
+        "Tool failed",
+        "time",
+        "now",
+        errorModel,
+        undefined,
+        { status: 500, path: "/api/v1/servers/time/tools/now" },
+      );
+
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        name: "ToolExecutionError",
+        code: "MCPD_TOOL_EXECUTION",
+        message: "Tool failed",
+        isRetryable: false,
+        serverName: "time",
+        toolName: "now",
+        status: 500,
+        errorModel,
+        path: "/api/v1/servers/time/tools/now",
+      });
+    });
+
+    it("should omit undefined fields and the stack", () => {
+      const json = new ServerUnhealthyError(
+        "Server unhealthy",
+        "time",
+        HealthStatus.TIMEOUT,
+      ).toJSON();
+
+      expect(json).toEqual({
+        name: "ServerUnhealthyError",
+        code: "MCPD_SERVER_UNHEALTHY",
+        message: "Server unhealthy",
+        isRetryable: true,
+        serverName: "time",
+        healthStatus: "timeout",
+      });
+      expect(json).not.toHaveProperty("stack");
+    });
+
+    it("should serialize the cause chain", () => {
+      const rootCause = Object.assign(new Error("connect ECONNREFUSED"), {
+        code: "ECONNREFUSED",
+      });
+      const cause = new ConnectionError("Cannot connect", rootCause);
+      const error = new PipelineError(
+        "Pipeline failed",
+        "time",
+        "now",
+        PIPELINE_FLOW_RESPONSE,
+        cause,
+      );
+
+      expect(error.toJSON().cause).toEqual({
+        name: "ConnectionError",
+        code: "MCPD_CONNECTION",
+        message: "Cannot connect",
+        isRetryable: true,
+        cause: {
+          name: "Error",
+          code: "ECONNREFUSED",
+          message: "connect ECONNREFUSED",
+        },
+      });
+    });
+
+    it("should stop serializing causes at a bounded depth", () => {
+      const error = new McpdError("cycle");
+      error.cause = error;
+
+      expect(() => JSON.stringify(error)).not.toThrow();
+    });
+  });
+
+  describe("fromJSON", () => {
+    it("should rebuild the serialized subclass and its fields", () => {
+      const original = new PipelineError(
+        "Pipeline failed",
+        "time",
+        "get_current_time",
+        PIPELINE_FLOW_REQUEST,
+        undefined,
+        { status: 500, errorModel, path: "/api/v1/servers/time/tools/now" },
+      );
+
+      const error = McpdError.fromJSON(
+        JSON.parse(JSON.stringify(original)) as McpdErrorJSON,
+      );
+
+      expect(error).toBeInstanceOf(PipelineError);
+      expect(error).toMatchObject({
+        message: "Pipeline failed",
+        serverName: "time",
+        operation: "get_current_time",
+        pipelineFlow: PIPELINE_FLOW_REQUEST,
+        status: 500,
+        errorModel,
+        path: "/api/v1/servers/time/tools/now",
+        code: "MCPD_PIPELINE_REQUEST",
+      });
+    });
+
+    it.each([
+      new ConnectionError("x"),
+      new AuthenticationError("x"),
+      new ServerNotFoundError("x", "time"),
+      new ServerUnhealthyError("x", "time", HealthStatus.UNKNOWN),
+      new ToolNotFoundError("x", "time", "now"),
+      new PromptNotFoundError("x", "time", "greet"),
+      new ResourceNotFoundError("x", "time", "file:///a"),
+      new ToolExecutionError("x", "time", "now", errorModel),
+      new ValidationError("x", ["name is required"]),
+      new TimeoutError("x", "call", 30000),
+      new AbortedError("x", "call"),
+      new QueueFullError("x", "time", 10),
+      new RateLimitError("x", 5),
+      new ConfigurationError("x", "MCPD_TIMEOUT"),
+      new CapabilityNotSupportedError("x", "prompts", "time"),
+      new OutputValidationError("x", "time", "now", [
+        { path: "/datetime", message: "is required" },
+      ]),
+      new ContentTooLargeError("x", 2048, 1024),
+    ])("should round-trip $name", (original) => {
+      const error = McpdError.fromJSON(original.toJSON());
+
+      expect(error).toBeInstanceOf(original.constructor);
+      expect(error.toJSON()).toEqual(original.toJSON());
+    });
+
+    it("should rebuild the cause chain", () => {
+      const original = new ToolExecutionError(
+        "Tool failed",
+        "time",
+        "now",
+        undefined,
+        new TimeoutError(
+          "Timed out",
+          "call",
+          1000,
+          new Error("socket hang up"),
+        ),
+      );
+
+      const error = McpdError.fromJSON(original.toJSON());
+
+      expect(error.cause).toBeInstanceOf(TimeoutError);
+      expect((error.cause as TimeoutError).timeout).toBe(1000);
+      expect((error.cause as Error).cause).toBeInstanceOf(Error);
+      expect(((error.cause as Error).cause as Error).message).toBe(
+        "socket hang up",
+      );
+    });
+
+    it("should fall back to McpdError for unknown codes", () => {
+      const error = McpdError.fromJSON({
+        name: "FutureError",
+        code: "MCPD_FUTURE",
+        message: "from a newer SDK",
+        isRetryable: false,
+      });
+
+      expect(error.constructor).toBe(McpdError);
+      expect(error.message).toBe("from a newer SDK");
+    });
+  });
+});
+
+describe("McpdError stack traces", () => {
+  it("should not require Error.captureStackTrace", () => {
+    const { captureStackTrace } = Error;
+    try {
+      // Runtimes other than V8 don't define it.
+      Object.assign(Error, { captureStackTrace: undefined });
+
+      const error = new ToolNotFoundError("x", "time", "now");
+
+      expect(error.name).toBe("ToolNotFoundError");
+      expect(error.stack).toBeDefined();
+    } finally {
+      Object.assign(Error, { captureStackTrace });
+    }
+  });
+});
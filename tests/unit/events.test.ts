@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { McpdClient } from "../../src/client";
+import { ConnectionError } from "../../src/errors";
+import { TypedEventEmitter } from "../../src/events";
+import { API_PATHS } from "../../src/apiPaths";
+import type { Logger } from "../../src/logger";
+import { createFetchMock } from "./utils/mockApi";
+
+describe("lifecycle events", () => {
+  let client: McpdClient;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const routes = createFetchMock({
+    [API_PATHS.SERVERS]: ["time"],
+    [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+    [API_PATHS.HEALTH_ALL]: { servers: [{ name: "time", status: "ok" }] },
+    [API_PATHS.SERVER_TOOLS("time")]: {
+      tools: [
+        { name: "get_time", inputSchema: { type: "object", properties: {} } },
+      ],
+    },
+    [API_PATHS.TOOL_CALL("time", "get_time")]: { time: "now" },
+  });
+
+  beforeEach(() => {
+    mockFetch = vi.fn((url: string, init: RequestInit) => routes(url, init));
+    vi.stubGlobal("fetch", mockFetch);
+    client = new McpdClient({ apiEndpoint: "http://localhost:8090" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should emit request:start and request:end for each request", async () => {
+    const start = vi.fn();
+    const end = vi.fn();
+    client.on("request:start", start).on("request:end", end);
+
+    await client.listServers();
+
+    expect(start).toHaveBeenCalledWith({
+      method: "GET",
+      path: API_PATHS.SERVERS,
+    });
+    expect(end).toHaveBeenCalledWith({
+      method: "GET",
+      path: API_PATHS.SERVERS,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it("should include the error in request:end when a request fails", async () => {
+    mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+    const end = vi.fn();
+    client.on("request:end", end);
+
+    await client.listServers().catch(() => {});
+
+    expect(end).toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.any(ConnectionError) }),
+    );
+  });
+
+  it("should emit tool events for every calling pattern", async () => {
+    const calls = vi.fn();
+    const results = vi.fn();
+    client.on("tool:call", calls).on("tool:result", results);
+
+    await client.servers.time!.callTool("get_time", { zone: "UTC" });
+    await client.servers.time!.tools.get_time!();
+    const [getTime] = await client.getAgentTools({ format: "array" });
+    await getTime!({});
+
+    expect(calls).toHaveBeenCalledTimes(3);
+    expect(calls).toHaveBeenNthCalledWith(1, {
+      serverName: "time",
+      toolName: "get_time",
+      args: { zone: "UTC" },
+    });
+    expect(results).toHaveBeenCalledTimes(3);
+    expect(results).toHaveBeenCalledWith({
+      serverName: "time",
+      toolName: "get_time",
+      durationMs: expect.any(Number),
+      result: expect.objectContaining({ structuredContent: { time: "now" } }),
+    });
+  });
+
+  it("should emit tool:error when a tool call fails", async () => {
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))) {
+        throw new TypeError("fetch failed");
+      }
+      return routes(url, init);
+    });
+    const errors = vi.fn();
+    client.on("tool:error", errors);
+
+    await client.servers.time!.callTool("get_time").catch(() => {});
+
+    expect(errors).toHaveBeenCalledWith({
+      serverName: "time",
+      toolName: "get_time",
+      durationMs: expect.any(Number),
+      error: expect.any(ConnectionError),
+    });
+  });
+
+  it("should emit health:changed only when the status changes", async () => {
+    const changes = vi.fn();
+    client.on("health:changed", changes);
+
+    await client.getServerHealth("time");
+    client.clearServerHealthCache();
+    await client.getServerHealth("time");
+
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) =>
+      url.endsWith(API_PATHS.HEALTH_SERVER("time"))
+        ? {
+            ok: true,
+            status: 200,
+            json: async () => ({ name: "time", status: "timeout" }),
+          }
+        : routes(url, init),
+    );
+    client.clearServerHealthCache();
+    await client.getServerHealth("time");
+
+    expect(changes.mock.calls).toEqual([
+      [{ serverName: "time", previousStatus: undefined, status: "ok" }],
+      [{ serverName: "time", previousStatus: "ok", status: "timeout" }],
+    ]);
+  });
+
+  it("should emit health:changed when a circuit breaker opens", async () => {
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))) {
+        throw new TypeError("fetch failed");
+      }
+      return routes(url, init);
+    });
+    client = new McpdClient({
+      apiEndpoint: "http://localhost:8090",
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000 },
+    });
+    const changes = vi.fn();
+    client.on("health:changed", changes);
+
+    await client.servers.time!.callTool("get_time").catch(() => {});
+
+    expect(changes).toHaveBeenLastCalledWith(
+      expect.objectContaining({ serverName: "time", status: "circuit_open" }),
+    );
+  });
+
+  it("should emit cache:cleared and agentTools:refreshed", async () => {
+    const cleared = vi.fn();
+    const refreshed = vi.fn();
+    client.on("cache:cleared", cleared).on("agentTools:refreshed", refreshed);
+
+    await client.getAgentTools();
+    await client.getAgentTools();
+    client.clearToolsCache("time");
+
+    expect(refreshed).toHaveBeenCalledTimes(1);
+    expect(refreshed).toHaveBeenCalledWith({
+      count: 1,
+      servers: ["time"],
+      durationMs: expect.any(Number),
+    });
+    expect(cleared).toHaveBeenCalledWith({
+      cache: "tools",
+      serverName: "time",
+    });
+  });
+
+  it("should support once and off", async () => {
+    const once = vi.fn();
+    const removed = vi.fn();
+    client.once("request:start", once).on("request:start", removed);
+    client.off("request:start", removed);
+
+    await client.listServers();
+    await client.listServers();
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  describe("TypedEventEmitter", () => {
+    it("should log listener errors and keep notifying other listeners", () => {
+      const logger = {
+        trace: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      } satisfies Logger;
+      const emitter = new TypedEventEmitter<{ ping: number }>(logger);
+      const next = vi.fn();
+      emitter.on("ping", () => {
+        throw new Error("boom");
+      });
+      emitter.on("ping", next);
+
+      emitter.emit("ping", 1);
+
+      expect(next).toHaveBeenCalledWith(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.stringContaining("boom"),
+      );
+    });
+  });
+});
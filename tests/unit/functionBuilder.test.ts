@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { FunctionBuilder } from "../../src/functionBuilder";
 import { ValidationError } from "../../src/errors";
+import { CallToolResult } from "../../src/toolResult";
 import type { Tool, PerformCallFn } from "../../src/types";
 
 describe("FunctionBuilder", () => {
@@ -80,8 +81,12 @@ describe("FunctionBuilder", () => {
   });
 
   describe("generated function execution", () => {
+    const success = new CallToolResult({
+      content: [{ type: "text", text: "success" }],
+    });
+
     beforeEach(() => {
-      vi.mocked(mockPerformCall).mockResolvedValue({ result: "success" });
+      vi.mocked(mockPerformCall).mockResolvedValue(success);
     });
 
     it("should execute function with named parameters", async () => {
@@ -100,11 +105,13 @@ describe("FunctionBuilder", () => {
       const func = builder.createFunctionFromSchema(schema, "test");
       const result = await func({ message: "hello", count: 3 });
 
-      expect(result).toEqual({ result: "success" });
-      expect(mockPerformCall).toHaveBeenCalledWith("test", "echo", {
-        message: "hello",
-        count: 3,
-      });
+      expect(result).toBe(success);
+      expect(mockPerformCall).toHaveBeenCalledWith(
+        "test",
+        "echo",
+        { message: "hello", count: 3 },
+        undefined,
+      );
     });
 
     it("should execute function with positional parameters", async () => {
@@ -123,11 +130,13 @@ describe("FunctionBuilder", () => {
       const func = builder.createFunctionFromSchema(schema, "test");
       const result = await func("hello", 3);
 
-      expect(result).toEqual({ result: "success" });
-      expect(mockPerformCall).toHaveBeenCalledWith("test", "echo", {
-        message: "hello",
-        count: 3,
-      });
+      expect(result).toBe(success);
+      expect(mockPerformCall).toHaveBeenCalledWith(
+        "test",
+        "echo",
+        { message: "hello", count: 3 },
+        undefined,
+      );
     });
 
     it("should validate required parameters", async () => {
@@ -216,9 +225,12 @@ describe("FunctionBuilder", () => {
       const func = builder.createFunctionFromSchema(schema, "test");
       await func({ message: "hello", optional: null });
 
-      expect(mockPerformCall).toHaveBeenCalledWith("test", "echo", {
-        message: "hello",
-      });
+      expect(mockPerformCall).toHaveBeenCalledWith(
+        "test",
+        "echo",
+        { message: "hello" },
+        undefined,
+      );
     });
 
     it("should handle functions with no parameters", async () => {
@@ -231,7 +243,109 @@ describe("FunctionBuilder", () => {
       const func = builder.createFunctionFromSchema(schema, "test");
       await func();
 
-      expect(mockPerformCall).toHaveBeenCalledWith("test", "ping", {});
+      expect(mockPerformCall).toHaveBeenCalledWith(
+        "test",
+        "ping",
+        {},
+        undefined,
+      );
+    });
+
+    it("should forward the LangChain config signal from invoke", async () => {
+      const schema: Tool = {
+        name: "ping",
+        inputSchema: { type: "object" },
+      };
+      const controller = new AbortController();
+
+      const func = builder.createFunctionFromSchema(schema, "test");
+      await func.invoke({}, { signal: controller.signal });
+
+      expect(mockPerformCall).toHaveBeenCalledWith(
+        "test",
+        "ping",
+        {},
+        { signal: controller.signal },
+      );
+    });
+
+    it("should forward the Vercel AI abortSignal from execute", async () => {
+      const schema: Tool = {
+        name: "ping",
+        inputSchema: { type: "object" },
+      };
+      const controller = new AbortController();
+
+      const func = builder.createFunctionFromSchema(schema, "test");
+      await func.execute({}, { abortSignal: controller.signal });
+
+      expect(mockPerformCall).toHaveBeenCalledWith(
+        "test",
+        "ping",
+        {},
+        { signal: controller.signal },
+      );
+    });
+  });
+
+  describe("result policies", () => {
+    const schema: Tool = {
+      name: "fetch",
+      inputSchema: { type: "object" },
+    };
+    const page = new CallToolResult({
+      content: [{ type: "text", text: "x".repeat(100) }],
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockPerformCall).mockResolvedValue(page);
+    });
+
+    it("should apply the policy in invoke and execute", async () => {
+      const func = builder.withResultPolicy(
+        builder.createFunctionFromSchema(schema, "web"),
+        { maxChars: 50, format: "text", marker: "…" },
+      );
+
+      const invoked = await func.invoke({});
+      const executed = await func.execute({});
+
+      expect(invoked.text()).toBe("x".repeat(49) + "…");
+      expect(executed.text()).toBe("x".repeat(49) + "…");
+    });
+
+    it("should return raw results when called directly", async () => {
+      const func = builder.withResultPolicy(
+        builder.createFunctionFromSchema(schema, "web"),
+        { maxChars: 50 },
+      );
+
+      await expect(func({})).resolves.toBe(page);
+    });
+
+    it("should leave the cached function unchanged", async () => {
+      const original = builder.createFunctionFromSchema(schema, "web");
+      const limited = builder.withResultPolicy(original, { maxChars: 50 });
+
+      expect(limited).not.toBe(original);
+      expect(limited.name).toBe(original.name);
+      expect(builder.createFunctionFromSchema(schema, "web")).toBe(original);
+      await expect(original.invoke({})).resolves.toBe(page);
+    });
+
+    it("should apply the policy to legacy results", async () => {
+      vi.mocked(mockPerformCall).mockResolvedValue({
+        content: [{ type: "text", text: "legacy" }],
+      } as unknown as CallToolResult);
+      const func = builder.withResultPolicy(
+        builder.createFunctionFromSchema(schema, "web"),
+        { format: "text" },
+      );
+
+      const result = await func.invoke({});
+
+      expect(result).toBeInstanceOf(CallToolResult);
+      expect(result.text()).toBe("legacy");
     });
   });
 
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { McpdClient } from "../../src/client";
+import {
+  PrometheusExporter,
+  type CounterMetric,
+  type HistogramMetric,
+  type MetricsSnapshot,
+} from "../../src/metrics";
+import { API_PATHS } from "../../src/apiPaths";
+import { createFetchMock } from "./utils/mockApi";
+
+describe("metrics", () => {
+  let client: McpdClient;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const routes = createFetchMock({
+    [API_PATHS.SERVERS]: ["time"],
+    [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+    [API_PATHS.HEALTH_ALL]: { servers: [{ name: "time", status: "ok" }] },
+    [API_PATHS.SERVER_TOOLS("time")]: {
+      tools: [
+        { name: "get_time", inputSchema: { type: "object", properties: {} } },
+      ],
+    },
+    [API_PATHS.TOOL_CALL("time", "get_time")]: { time: "now" },
+  });
+
+  const metric = <T extends CounterMetric | HistogramMetric>(
+    snapshot: MetricsSnapshot,
+    name: string,
+  ) => snapshot.metrics.find((m) => m.name === name) as T | undefined;
+
+  beforeEach(() => {
+    mockFetch = vi.fn((url: string, init: RequestInit) => routes(url, init));
+    vi.stubGlobal("fetch", mockFetch);
+    client = new McpdClient({ apiEndpoint: "http://localhost:8090" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should count tool calls and their durations per server and tool", async () => {
+    await client.servers.time!.callTool("get_time");
+    await client.servers.time!.tools.get_time!();
+
+    const snapshot = client.getMetrics();
+
+    expect(
+      metric<CounterMetric>(snapshot, "mcpd_tool_calls_total")?.samples,
+    ).toEqual([{ labels: { server: "time", tool: "get_time" }, value: 2 }]);
+    const [duration] = metric<HistogramMetric>(
+      snapshot,
+      "mcpd_tool_call_duration_seconds",
+    )!.samples;
+    expect(duration).toMatchObject({
+      labels: { server: "time", tool: "get_time" },
+      count: 2,
+    });
+    expect(duration!.buckets.at(-1)).toEqual({ le: Infinity, count: 2 });
+  });
+
+  it("should count errors by class, timeouts and pipeline failures", async () => {
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))) {
+        return {
+          ok: false,
+          status: 500,
+          statusText: "Internal Server Error",
+          headers: new Headers({
+            "Mcpd-Error-Type": "request-pipeline-failure",
+          }),
+          text: async () => "auth plugin failed",
+        };
+      }
+      return routes(url, init);
+    });
+    await client.servers.time!.callTool("get_time").catch(() => {});
+
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))) {
+        throw Object.assign(new Error("aborted"), { name: "AbortError" });
+      }
+      return routes(url, init);
+    });
+    await client.servers.time!.callTool("get_time").catch(() => {});
+
+    const snapshot = client.getMetrics();
+    const labels = { server: "time", tool: "get_time" };
+
+    expect(
+      metric<CounterMetric>(snapshot, "mcpd_tool_call_errors_total")?.samples,
+    ).toEqual([
+      { labels: { ...labels, error: "PipelineError" }, value: 1 },
+      { labels: { ...labels, error: "TimeoutError" }, value: 1 },
+    ]);
+    expect(
+      metric<CounterMetric>(snapshot, "mcpd_tool_call_timeouts_total")?.samples,
+    ).toEqual([{ labels, value: 1 }]);
+    expect(
+      metric<CounterMetric>(snapshot, "mcpd_tool_call_pipeline_failures_total")
+        ?.samples,
+    ).toEqual([{ labels: { ...labels, flow: "request" }, value: 1 }]);
+  });
+
+  it("should count health and agent tools cache hits and misses", async () => {
+    await client.getServerHealth("time");
+    await client.getServerHealth("time");
+    await client.getAgentTools();
+    await client.getAgentTools();
+
+    const snapshot = client.getMetrics();
+    const byCache = (name: string) =>
+      Object.fromEntries(
+        metric<CounterMetric>(snapshot, name)!.samples.map((s) => [
+          s.labels["cache"],
+          s.value,
+        ]),
+      );
+
+    // Fetching agent tools checks the (cached) health of the server too.
+    expect(byCache("mcpd_cache_hits_total")).toMatchObject({
+      health: 2,
+      agent_tools: 1,
+    });
+    expect(byCache("mcpd_cache_misses_total")).toMatchObject({
+      health: 1,
+      agent_tools: 1,
+      tools: 1,
+    });
+  });
+
+  it("should reset metrics", async () => {
+    await client.servers.time!.callTool("get_time");
+
+    client.resetMetrics();
+
+    expect(client.getMetrics().metrics).toEqual([]);
+  });
+
+  it("should not collect metrics when disabled", async () => {
+    client = new McpdClient({
+      apiEndpoint: "http://localhost:8090",
+      metrics: false,
+    });
+
+    await client.servers.time!.callTool("get_time");
+
+    expect(client.getMetrics().metrics).toEqual([]);
+  });
+
+  describe("PrometheusExporter", () => {
+    it("should format counters and histograms", () => {
+      const output = new PrometheusExporter().export({
+        timestamp: 0,
+        metrics: [
+          {
+            type: "counter",
+            name: "mcpd_tool_calls_total",
+            help: "Tool calls made.",
+            samples: [
+              { labels: { server: "time", tool: 'say "hi"\n' }, value: 3 },
+            ],
+          },
+          {
+            type: "histogram",
+            name: "mcpd_tool_call_duration_seconds",
+            help: "Duration of tool calls in seconds.",
+            samples: [
+              {
+                labels: { server: "time", tool: "get_time" },
+                buckets: [
+                  { le: 0.1, count: 1 },
+                  { le: Infinity, count: 2 },
+                ],
+                sum: 0.55,
+                count: 2,
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(output).toBe(
+        [
+          "# HELP mcpd_tool_calls_total Tool calls made.",
+          "# TYPE mcpd_tool_calls_total counter",
+          'mcpd_tool_calls_total{server="time",tool="say \\"hi\\"\\n"} 3',
+          "# HELP mcpd_tool_call_duration_seconds Duration of tool calls in seconds.",
+          "# TYPE mcpd_tool_call_duration_seconds histogram",
+          'mcpd_tool_call_duration_seconds_bucket{server="time",tool="get_time",le="0.1"} 1',
+          'mcpd_tool_call_duration_seconds_bucket{server="time",tool="get_time",le="+Inf"} 2',
+          'mcpd_tool_call_duration_seconds_sum{server="time",tool="get_time"} 0.55',
+          'mcpd_tool_call_duration_seconds_count{server="time",tool="get_time"} 2',
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should export client metrics", async () => {
+      await client.servers.time!.callTool("get_time");
+
+      const output = client.exportMetrics(new PrometheusExporter());
+
+      expect(output).toContain(
+        'mcpd_tool_calls_total{server="time",tool="get_time"} 1',
+      );
+    });
+  });
+});
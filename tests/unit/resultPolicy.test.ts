@@ -0,0 +1,224 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyResultPolicy,
+  renderToolResult,
+  resolveResultPolicy,
+  truncateText,
+  TRUNCATION_META_KEY,
+} from "../../src/resultPolicy";
+import { CallToolResult } from "../../src/toolResult";
+
+const textResult = (text: string) =>
+  new CallToolResult({ content: [{ type: "text", text }] });
+
+describe("truncateText", () => {
+  const text = "abcdefghijklmnopqrstuvwxyz";
+
+  it("should keep text within the limit unchanged", () => {
+    expect(truncateText(text, 26, "head", "…")).toEqual({
+      text,
+      omittedChars: 0,
+    });
+  });
+
+  it("should keep the head", () => {
+    expect(truncateText(text, 10, "head", "…")).toEqual({
+      text: "abcdefghi…",
+      omittedChars: 17,
+    });
+  });
+
+  it("should keep the tail", () => {
+    expect(truncateText(text, 10, "tail", "…")).toEqual({
+      text: "…rstuvwxyz",
+      omittedChars: 17,
+    });
+  });
+
+  it("should keep the head and the tail", () => {
+    expect(truncateText(text, 10, "middle", "…")).toEqual({
+      text: "abcde…wxyz",
+      omittedChars: 17,
+    });
+  });
+
+  it("should fill in the number of omitted characters", () => {
+    const { text: truncated } = truncateText(text, 20, "head", "[{omitted}]");
+
+    expect(truncated).toBe("abcdefghijklmnop[10]");
+    expect(truncated.length).toBeLessThanOrEqual(20);
+  });
+
+  it("should not exceed the limit when the marker is longer", () => {
+    expect(truncateText(text, 2, "head", "[truncated]").text).toBe(
+      "[truncated]",
+    );
+  });
+});
+
+describe("renderToolResult", () => {
+  const result = new CallToolResult({
+    content: [
+      { type: "text", text: "Found 2 files" },
+      { type: "image", data: btoa("abcdef"), mimeType: "image/png" },
+      {
+        type: "resource_link",
+        uri: "file:///a.txt",
+        name: "a.txt",
+        title: "A",
+      },
+      {
+        type: "resource",
+        resource: { uri: "file:///b.md", text: "# B\n```sh\nls\n```" },
+      },
+      {
+        type: "resource",
+        resource: { uri: "file:///c.bin", blob: btoa("abc") },
+      },
+    ],
+  });
+
+  it("should render JSON", () => {
+    expect(renderToolResult(result, "json")).toBe(JSON.stringify(result));
+  });
+
+  it("should render plain text", () => {
+    expect(renderToolResult(result, "text")).toBe(
+      [
+        "Found 2 files",
+        "[image: image/png, 6 bytes]",
+        "[resource: A (file:///a.txt)]",
+        "[resource: file:///b.md]\n# B\n```sh\nls\n```",
+        "[resource: file:///c.bin, binary, 3 bytes]",
+      ].join("\n"),
+    );
+  });
+
+  it("should render Markdown", () => {
+    expect(renderToolResult(result, "markdown")).toBe(
+      [
+        "Found 2 files",
+        "_[image: image/png, 6 bytes]_",
+        "[A](file:///a.txt)",
+        "Resource file:///b.md:\n\n````\n# B\n```sh\nls\n```\n````",
+        "_[resource: file:///c.bin, binary, 3 bytes]_",
+      ].join("\n\n"),
+    );
+  });
+
+  it("should render structured content without text", () => {
+    const structured = new CallToolResult({
+      content: [],
+      structuredContent: { count: 2 },
+    });
+
+    expect(renderToolResult(structured, "text")).toBe('{"count":2}');
+    expect(renderToolResult(structured, "markdown")).toBe(
+      '```json\n{\n  "count": 2\n}\n```',
+    );
+  });
+});
+
+describe("applyResultPolicy", () => {
+  it("should return JSON results within the limit unchanged", () => {
+    const result = textResult("short");
+
+    expect(applyResultPolicy(result, { maxChars: 1000 })).toBe(result);
+  });
+
+  it("should render results as a single text block", () => {
+    const result = new CallToolResult({
+      content: [
+        { type: "text", text: "one" },
+        { type: "text", text: "two" },
+      ],
+      isError: true,
+      _meta: { requestId: "r1" },
+    });
+
+    const rendered = applyResultPolicy(result, { format: "text" });
+
+    expect(rendered.content).toEqual([{ type: "text", text: "one\ntwo" }]);
+    expect(rendered.isError).toBe(true);
+    expect(rendered._meta).toEqual({ requestId: "r1" });
+  });
+
+  it("should truncate and record the truncation", () => {
+    const rendered = applyResultPolicy(textResult("x".repeat(100)), {
+      maxChars: 40,
+      format: "text",
+      truncate: "tail",
+      marker: "…",
+    });
+
+    expect(rendered.text()).toBe("…" + "x".repeat(39));
+    expect(rendered._meta?.[TRUNCATION_META_KEY]).toEqual({
+      strategy: "tail",
+      originalChars: 100,
+      omittedChars: 61,
+    });
+  });
+
+  it("should convert maxTokens to characters", () => {
+    const rendered = applyResultPolicy(textResult("x".repeat(100)), {
+      maxTokens: 5,
+      format: "text",
+      marker: "",
+    });
+
+    expect(rendered.text()).toBe("x".repeat(20));
+  });
+
+  it("should use the lower of maxChars and maxTokens", () => {
+    const rendered = applyResultPolicy(textResult("x".repeat(100)), {
+      maxChars: 10,
+      maxTokens: 5,
+      format: "text",
+      marker: "",
+    });
+
+    expect(rendered.text()).toBe("x".repeat(10));
+  });
+
+  it("should truncate JSON over the limit", () => {
+    const rendered = applyResultPolicy(textResult("x".repeat(100)), {
+      maxChars: 80,
+    });
+
+    expect(rendered.text().length).toBeLessThanOrEqual(80);
+    expect(rendered.text()).toMatch(/^\{"content":\[\{"type":"text"/);
+    expect(rendered.text()).toContain("characters truncated");
+  });
+});
+
+describe("resolveResultPolicy", () => {
+  it("should return undefined without policies", () => {
+    expect(resolveResultPolicy(undefined, undefined)).toBeUndefined();
+  });
+
+  it("should merge policies field by field", () => {
+    expect(
+      resolveResultPolicy({ maxChars: 1000, format: "text" }, undefined, {
+        maxChars: 100,
+        truncate: "middle",
+      }),
+    ).toEqual({ maxChars: 100, format: "text", truncate: "middle" });
+  });
+
+  it.each([
+    [{ maxChars: 0 }, "resultPolicy.maxChars must be a positive integer"],
+    [{ maxTokens: 1.5 }, "resultPolicy.maxTokens must be a positive integer"],
+    [
+      { truncate: "start" },
+      "resultPolicy.truncate must be one of head, tail, middle",
+    ],
+    [
+      { format: "html" },
+      "resultPolicy.format must be one of json, text, markdown",
+    ],
+  ])("should reject %j", (policy, message) => {
+    expect(() => resolveResultPolicy(policy as never)).toThrow(
+      new RangeError(message),
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { ContentTooLargeError } from "../../src/errors";
+import {
+  CallToolResult,
+  toCallToolResult,
+  toLegacyToolResult,
+} from "../../src/toolResult";
+
+describe("CallToolResult", () => {
+  const result = new CallToolResult({
+    content: [
+      { type: "text", text: "first" },
+      { type: "image", data: "aGk=", mimeType: "image/png" },
+      { type: "audio", data: "aGk=", mimeType: "audio/wav" },
+      { type: "resource_link", uri: "file:///a.txt", name: "a.txt" },
+      {
+        type: "resource",
+        resource: { uri: "file:///b.txt", text: "b" },
+      },
+      { type: "text", text: "second" },
+    ],
+    _meta: { traceId: "abc" },
+  });
+
+  it("should join the text blocks", () => {
+    expect(result.text()).toBe("first\nsecond");
+  });
+
+  it("should select blocks by type", () => {
+    expect(result.images()).toEqual([
+      { type: "image", data: "aGk=", mimeType: "image/png" },
+    ]);
+    expect(result.audio()).toHaveLength(1);
+    expect(result.resourceLinks()).toEqual([
+      { type: "resource_link", uri: "file:///a.txt", name: "a.txt" },
+    ]);
+    expect(result.resources()[0]!.resource.uri).toBe("file:///b.txt");
+  });
+
+  it("should decode binary blocks", () => {
+    const withBlob = new CallToolResult({
+      content: [
+        ...result.content,
+        {
+          type: "resource",
+          resource: { uri: "file:///c.bin", blob: "AAE=" },
+        },
+      ],
+    });
+
+    expect(
+      withBlob.binaryContent().map(({ mimeType, size, uri }) => ({
+        mimeType,
+        size,
+        uri,
+      })),
+    ).toEqual([
+      { mimeType: "image/png", size: 2, uri: undefined },
+      { mimeType: "audio/wav", size: 2, uri: undefined },
+      { mimeType: "application/octet-stream", size: 2, uri: "file:///c.bin" },
+    ]);
+    expect(() => withBlob.binaryContent({ maxBytes: 1 })).toThrow(
+      ContentTooLargeError,
+    );
+  });
+
+  it("should prefer structured content as JSON", () => {
+    const structured = new CallToolResult({
+      content: [{ type: "text", text: '{"ignored":true}' }],
+      structuredContent: { temperature: 21 },
+    });
+
+    expect(structured.json()).toEqual({ temperature: 21 });
+  });
+
+  it("should parse the text as JSON without structured content", () => {
+    const textual = new CallToolResult({
+      content: [{ type: "text", text: "[1, 2]" }],
+    });
+
+    expect(textual.json()).toEqual([1, 2]);
+    expect(() => result.json()).toThrow(SyntaxError);
+  });
+
+  it("should serialize to its MCP form", () => {
+    const failed = new CallToolResult({
+      content: [{ type: "text", text: "boom" }],
+      isError: true,
+    });
+
+    expect(JSON.parse(JSON.stringify(failed))).toEqual({
+      content: [{ type: "text", text: "boom" }],
+      isError: true,
+    });
+    expect(result.toJSON()._meta).toEqual({ traceId: "abc" });
+  });
+});
+
+describe("toCallToolResult", () => {
+  it("should use MCP results as they are", () => {
+    const result = toCallToolResult({
+      content: [{ type: "text", text: "hi" }],
+      structuredContent: { greeting: "hi" },
+      isError: true,
+    });
+
+    expect(result).toBeInstanceOf(CallToolResult);
+    expect(result.text()).toBe("hi");
+    expect(result.structuredContent).toEqual({ greeting: "hi" });
+    expect(result.isError).toBe(true);
+  });
+
+  it("should parse MCP results encoded in a string", () => {
+    const result = toCallToolResult(
+      JSON.stringify({ content: [{ type: "text", text: "hi" }] }),
+    );
+
+    expect(result.text()).toBe("hi");
+    expect(result.isError).toBe(false);
+  });
+
+  it("should wrap plain text", () => {
+    const result = toCallToolResult("12:00");
+
+    expect(result.content).toEqual([{ type: "text", text: "12:00" }]);
+    expect(result.structuredContent).toBeUndefined();
+  });
+
+  it.each([['{"time":"12:00"}'], [{ time: "12:00" }]])(
+    "should keep JSON objects as structured content (%j)",
+    (response) => {
+      const result = toCallToolResult(response);
+
+      expect(result.text()).toBe('{"time":"12:00"}');
+      expect(result.structuredContent).toEqual({ time: "12:00" });
+    },
+  );
+
+  it("should not treat malformed content as an MCP result", () => {
+    const result = toCallToolResult({ content: ["not a block"] });
+
+    expect(result.structuredContent).toEqual({ content: ["not a block"] });
+  });
+});
+
+describe("toLegacyToolResult", () => {
+  it.each([
+    ['{"time":"12:00"}', { time: "12:00" }],
+    ["not json", "not json"],
+    [{ time: "12:00" }, { time: "12:00" }],
+  ])("should parse %j loosely", (response, expected) => {
+    expect(toLegacyToolResult(response)).toEqual(expected);
+  });
+});
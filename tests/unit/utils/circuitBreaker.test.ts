@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { CircuitBreaker } from "../../../src/utils/circuitBreaker";
+
+describe("CircuitBreaker", () => {
+  const createBreaker = (failureThreshold = 2, cooldownMs = 1000) => {
+    const clock = { now: 0 };
+    const breaker = new CircuitBreaker(
+      { failureThreshold, cooldownMs },
+      () => clock.now,
+    );
+    return { breaker, clock };
+  };
+
+  it("should open after consecutive failures reach the threshold", () => {
+    const { breaker } = createBreaker();
+
+    expect(breaker.recordFailure("time")).toBe(false);
+    expect(breaker.getState("time")).toBe("closed");
+    expect(breaker.recordFailure("time")).toBe(true);
+
+    expect(breaker.getState("time")).toBe("open");
+    expect(breaker.tryAcquire("time")).toBe(false);
+    expect(breaker.tryAcquire("math")).toBe(true);
+  });
+
+  it("should ignore failures once open", () => {
+    const { breaker, clock } = createBreaker();
+    breaker.recordFailure("time");
+    breaker.recordFailure("time");
+
+    clock.now = 500;
+    expect(breaker.recordFailure("time")).toBe(false);
+
+    clock.now = 1000;
+    expect(breaker.getState("time")).toBe("half-open");
+  });
+
+  it("should reset the failure count on success", () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure("time");
+    breaker.recordSuccess("time");
+    breaker.recordFailure("time");
+
+    expect(breaker.getState("time")).toBe("closed");
+  });
+
+  it("should allow a single trial call after the cooldown", () => {
+    const { breaker, clock } = createBreaker();
+    breaker.recordFailure("time");
+    breaker.recordFailure("time");
+
+    clock.now = 1000;
+
+    expect(breaker.getState("time")).toBe("half-open");
+    expect(breaker.tryAcquire("time")).toBe(true);
+    expect(breaker.tryAcquire("time")).toBe(false);
+  });
+
+  it("should close when the trial call succeeds", () => {
+    const { breaker, clock } = createBreaker();
+    breaker.recordFailure("time");
+    breaker.recordFailure("time");
+    clock.now = 1000;
+    breaker.tryAcquire("time");
+
+    breaker.recordSuccess("time");
+
+    expect(breaker.getState("time")).toBe("closed");
+  });
+
+  it("should reopen when the trial call fails", () => {
+    const { breaker, clock } = createBreaker();
+    breaker.recordFailure("time");
+    breaker.recordFailure("time");
+    clock.now = 1000;
+    breaker.tryAcquire("time");
+
+    expect(breaker.recordFailure("time")).toBe(true);
+    expect(breaker.getState("time")).toBe("open");
+
+    clock.now = 1999;
+    expect(breaker.tryAcquire("time")).toBe(false);
+  });
+
+  it("should allow another trial after a released one", () => {
+    const { breaker, clock } = createBreaker();
+    breaker.recordFailure("time");
+    breaker.recordFailure("time");
+    clock.now = 1000;
+    breaker.tryAcquire("time");
+
+    breaker.release("time");
+
+    expect(breaker.tryAcquire("time")).toBe(true);
+  });
+
+  it("should reject invalid options", () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 0 })).toThrow(
+      RangeError,
+    );
+    expect(() => new CircuitBreaker({ cooldownMs: -1 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from "vitest";
+import { CredentialsManager } from "../../../src/utils/credentials";
+import { AuthenticationError } from "../../../src/errors";
+
+describe("CredentialsManager", () => {
+  it("should cache tokens without expiry", async () => {
+    const provider = vi.fn(async () => "token");
+    const manager = new CredentialsManager(provider);
+
+    expect(await manager.getToken()).toBe("token");
+    expect(await manager.getToken()).toBe("token");
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refresh tokens within 30 seconds of expiry", async () => {
+    let now = 0;
+    let n = 0;
+    const provider = vi.fn(async () => ({
+      token: `token-${++n}`,
+      expiresAt: 60_000,
+    }));
+    const manager = new CredentialsManager(provider, undefined, () => now);
+
+    expect(await manager.getToken()).toBe("token-1");
+    now = 29_999;
+    expect(await manager.getToken()).toBe("token-1");
+    now = 30_000;
+    expect(await manager.getToken()).toBe("token-2");
+  });
+
+  it("should share one provider call between concurrent callers", async () => {
+    const provider = vi.fn(async () => "token");
+    const manager = new CredentialsManager(provider);
+
+    const tokens = await Promise.all([manager.getToken(), manager.getToken()]);
+
+    expect(tokens).toEqual(["token", "token"]);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only replace the rejected token once", async () => {
+    let n = 0;
+    const provider = vi.fn(async () => `token-${++n}`);
+    const onRefresh = vi.fn();
+    const manager = new CredentialsManager(provider, onRefresh);
+
+    await manager.getToken();
+    expect(await manager.refresh("token-1")).toBe("token-2");
+    expect(await manager.refresh("token-1")).toBe("token-2");
+    expect(provider).toHaveBeenCalledTimes(2);
+    expect(onRefresh).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wrap provider failures and retry on the next call", async () => {
+    const provider = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("unavailable"))
+      .mockResolvedValueOnce("token");
+    const manager = new CredentialsManager(provider);
+
+    await expect(manager.getToken()).rejects.toThrow(AuthenticationError);
+    expect(await manager.getToken()).toBe("token");
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  EndpointPool,
+  createDaemonEndpoint,
+} from "../../../src/utils/endpointPool";
+import type { LoadBalancingOptions } from "../../../src/types";
+
+describe("EndpointPool", () => {
+  const createPool = (options: LoadBalancingOptions = {}) => {
+    const clock = { now: 0 };
+    const [a, b, c] = ["http://a", "http://b", "http://c"].map((url) =>
+      createDaemonEndpoint(url),
+    );
+    const pool = new EndpointPool(
+      [a!, b!, c!],
+      { cooldownMs: 1000, ...options },
+      () => clock.now,
+    );
+    return { pool, clock, a: a!, b: b!, c: c! };
+  };
+
+  it("should prefer the first available endpoint with failover", () => {
+    const { pool, a, b } = createPool();
+
+    expect(pool.select()).toBe(a);
+    expect(pool.select()).toBe(a);
+
+    pool.markDown(a);
+
+    expect(pool.select()).toBe(b);
+  });
+
+  it("should rotate through available endpoints with round-robin", () => {
+    const { pool, a, b, c } = createPool({ strategy: "round-robin" });
+
+    expect([pool.select(), pool.select(), pool.select()]).toEqual([a, b, c]);
+
+    pool.markDown(b);
+
+    expect([pool.select(), pool.select(), pool.select()]).toEqual([a, c, a]);
+  });
+
+  it("should prefer the lowest latency after measuring every endpoint", () => {
+    const { pool, a, b, c } = createPool({ strategy: "least-latency" });
+    pool.recordSuccess(a, 50);
+    pool.recordSuccess(b, 20);
+
+    expect(pool.select()).toBe(c);
+
+    pool.recordSuccess(c, 80);
+
+    expect(pool.select()).toBe(b);
+  });
+
+  it("should smooth latency measurements", () => {
+    const { pool, a, b, c } = createPool({ strategy: "least-latency" });
+    pool.recordSuccess(a, 10);
+    pool.recordSuccess(b, 20);
+    pool.markDown(c);
+
+    // A single slow response doesn't outweigh the history.
+    pool.recordSuccess(a, 40);
+
+    expect(pool.select()).toBe(a);
+  });
+
+  it("should make an endpoint available again after the cooldown", () => {
+    const { pool, clock, a } = createPool();
+    pool.markDown(a);
+
+    clock.now = 999;
+    expect(pool.isAvailable(a)).toBe(false);
+
+    clock.now = 1000;
+    expect(pool.isAvailable(a)).toBe(true);
+    expect(pool.select()).toBe(a);
+  });
+
+  it("should make an endpoint available again when it responds", () => {
+    const { pool, a } = createPool();
+    pool.markDown(a);
+
+    pool.recordSuccess(a, 10);
+
+    expect(pool.select()).toBe(a);
+  });
+
+  it("should select the endpoint that recovers first when all are down", () => {
+    const { pool, clock, a, b, c } = createPool();
+    pool.markDown(b);
+    clock.now = 100;
+    pool.markDown(a);
+    pool.markDown(c);
+
+    expect(pool.hasAvailable()).toBe(false);
+    expect(pool.select()).toBe(b);
+  });
+
+  it.each([
+    [[], {}, TypeError],
+    [["http://a"], { strategy: "random" }, RangeError],
+    [["http://a"], { cooldownMs: -1 }, RangeError],
+  ])("should reject invalid configuration %#", (urls, options, error) => {
+    expect(
+      () =>
+        new EndpointPool(
+          urls.map((url) => createDaemonEndpoint(url)),
+          options as LoadBalancingOptions,
+        ),
+    ).toThrow(error);
+  });
+});
+
+describe("createDaemonEndpoint", () => {
+  it("should remove a trailing slash", () => {
+    expect(createDaemonEndpoint("http://mcpd:8090/")).toMatchObject({
+      url: "http://mcpd:8090",
+      baseUrl: "http://mcpd:8090",
+    });
+  });
+
+  it("should request unix socket endpoints via localhost", () => {
+    expect(createDaemonEndpoint("unix:///run/mcpd.sock")).toMatchObject({
+      url: "unix:///run/mcpd.sock",
+      baseUrl: "http://localhost",
+    });
+  });
+
+  it("should use the supplied fetch", () => {
+    const fetch = vi.fn();
+
+    expect(createDaemonEndpoint("http://mcpd:8090", fetch).fetch).toBe(fetch);
+  });
+});
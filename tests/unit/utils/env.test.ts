@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { getEnvVar } from "../../../src/utils/env";
+
+describe("getEnvVar", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("should read a variable from process.env", () => {
+    vi.stubEnv("MCPD_TEST_VAR", "value");
+
+    expect(getEnvVar("MCPD_TEST_VAR")).toBe("value");
+    expect(getEnvVar("MCPD_UNSET_VAR")).toBeUndefined();
+  });
+
+  it("should return undefined without process.env", () => {
+    vi.stubGlobal("process", undefined);
+
+    expect(getEnvVar("MCPD_TEST_VAR")).toBeUndefined();
+  });
+
+  it("should return undefined when environment access is denied", () => {
+    vi.stubGlobal("process", {
+      env: new Proxy(
+        {},
+        {
+          get: () => {
+            throw new Error("Requires env access");
+          },
+        },
+      ),
+    });
+
+    expect(getEnvVar("MCPD_TEST_VAR")).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  CallLimiter,
+  Semaphore,
+  TokenBucket,
+} from "../../../src/utils/limiter";
+import { QueueFullError } from "../../../src/errors";
+
+describe("limiter utilities", () => {
+  describe("Semaphore", () => {
+    it("should grant slots in FIFO order as they are released", async () => {
+      const semaphore = new Semaphore(1);
+      const order: number[] = [];
+
+      await semaphore.pass();
+      const second = semaphore.pass().then(() => order.push(2));
+      const third = semaphore.pass().then(() => order.push(3));
+
+      expect(semaphore.canPassNow()).toBe(false);
+      semaphore.release();
+      await second;
+      semaphore.release();
+      await third;
+
+      expect(order).toEqual([2, 3]);
+    });
+
+    it("should drop aborted waiters from the queue", async () => {
+      const semaphore = new Semaphore(1);
+      const controller = new AbortController();
+      await semaphore.pass();
+
+      const aborted = semaphore.pass(controller.signal);
+      const next = semaphore.pass();
+      controller.abort();
+      semaphore.release();
+
+      await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+      await expect(next).resolves.toBeUndefined();
+    });
+  });
+
+  describe("TokenBucket", () => {
+    it("should allow a burst and then refill at the configured rate", () => {
+      const clock = { now: 0 };
+      const bucket = new TokenBucket(
+        { callsPerSecond: 2, burst: 2 },
+        () => clock.now,
+      );
+
+      expect(bucket.canPassNow()).toBe(true);
+      void bucket.pass();
+      void bucket.pass();
+      expect(bucket.canPassNow()).toBe(false);
+
+      clock.now = 500;
+      expect(bucket.canPassNow()).toBe(true);
+    });
+
+    it("should wait for a token when the bucket is empty", async () => {
+      const bucket = new TokenBucket({ callsPerSecond: 50, burst: 1 });
+      await bucket.pass();
+
+      const started = Date.now();
+      await bucket.pass();
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+    });
+  });
+
+  describe("CallLimiter", () => {
+    it("should apply per-server limits separately", async () => {
+      const limiter = new CallLimiter({ perServer: { maxConcurrent: 1 } });
+
+      await limiter.acquire("time");
+      const other = await limiter.acquire("math");
+
+      expect(other).toBeTypeOf("function");
+    });
+
+    it("should let server overrides replace perServer limits", async () => {
+      const limiter = new CallLimiter({
+        perServer: { maxConcurrent: 1 },
+        servers: { time: { maxConcurrent: 2 } },
+        maxQueueSize: 0,
+      });
+
+      await limiter.acquire("time");
+      await limiter.acquire("time");
+
+      await expect(limiter.acquire("time")).rejects.toThrow(QueueFullError);
+    });
+
+    it("should reject with QueueFullError when the queue is full", async () => {
+      const limiter = new CallLimiter({ maxConcurrent: 1, maxQueueSize: 1 });
+
+      const release = await limiter.acquire("time");
+      const queued = limiter.acquire("time");
+
+      await expect(limiter.acquire("math")).rejects.toThrow(QueueFullError);
+
+      release();
+      await expect(queued).resolves.toBeTypeOf("function");
+    });
+
+    it("should release global slots only once", async () => {
+      const limiter = new CallLimiter({ maxConcurrent: 1, maxQueueSize: 0 });
+
+      const release = await limiter.acquire("time");
+      release();
+      release();
+      await limiter.acquire("time");
+
+      await expect(limiter.acquire("time")).rejects.toThrow(QueueFullError);
+    });
+
+    it("should reject invalid limits", () => {
+      expect(() => new CallLimiter({ maxConcurrent: 0 })).toThrow(RangeError);
+      expect(
+        () =>
+          new CallLimiter({ perServer: { rateLimit: { callsPerSecond: 0 } } }),
+      ).toThrow(RangeError);
+      expect(() => new CallLimiter({ maxQueueSize: -1 })).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeBackoffDelay,
+  createIdempotencyKey,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "../../../src/utils/retry";
+
+describe("retry utilities", () => {
+  describe("computeBackoffDelay", () => {
+    it("should grow exponentially without jitter", () => {
+      const policy = resolveRetryPolicy({
+        initialDelayMs: 100,
+        backoffMultiplier: 2,
+        jitter: false,
+      });
+
+      expect(computeBackoffDelay(policy, 1)).toBe(100);
+      expect(computeBackoffDelay(policy, 2)).toBe(200);
+      expect(computeBackoffDelay(policy, 3)).toBe(400);
+    });
+
+    it("should cap delays at maxDelayMs", () => {
+      const policy = resolveRetryPolicy({
+        initialDelayMs: 100,
+        maxDelayMs: 250,
+        jitter: false,
+      });
+
+      expect(computeBackoffDelay(policy, 5)).toBe(250);
+    });
+
+    it("should apply full jitter", () => {
+      const policy = resolveRetryPolicy({ initialDelayMs: 100 });
+
+      expect(computeBackoffDelay(policy, 1, () => 0)).toBe(0);
+      expect(computeBackoffDelay(policy, 1, () => 0.5)).toBe(50);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delay in seconds", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+    });
+
+    it("should parse HTTP dates", () => {
+      const now = Date.parse("2025-10-07T15:00:00Z");
+      expect(parseRetryAfter("Tue, 07 Oct 2025 15:00:05 GMT", now)).toBe(5000);
+    });
+
+    it("should clamp dates in the past to zero", () => {
+      const now = Date.parse("2025-10-07T15:00:10Z");
+      expect(parseRetryAfter("Tue, 07 Oct 2025 15:00:05 GMT", now)).toBe(0);
+    });
+
+    it("should return undefined for missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("createIdempotencyKey", () => {
+    const uuid =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+    it("should use crypto.randomUUID when it exists", () => {
+      expect(createIdempotencyKey()).toMatch(uuid);
+      expect(
+        createIdempotencyKey({
+          randomUUID: () => "00000000-0000-4000-8000-000000000000",
+          getRandomValues: () => {
+            throw new Error("not expected");
+          },
+        }),
+      ).toBe("00000000-0000-4000-8000-000000000000");
+    });
+
+    it("should build a UUID from getRandomValues without randomUUID", () => {
+      const source = {
+        getRandomValues: <T extends Uint8Array>(array: T): T =>
+          crypto.getRandomValues(array),
+      };
+
+      const key = createIdempotencyKey(source);
+
+      expect(key).toMatch(uuid);
+      expect(createIdempotencyKey(source)).not.toBe(key);
+    });
+
+    it("should set the version and variant bits", () => {
+      const key = createIdempotencyKey({
+        getRandomValues: <T extends Uint8Array>(array: T): T =>
+          array.fill(0xff),
+      });
+
+      expect(key).toBe("ffffffff-ffff-4fff-bfff-ffffffffffff");
+    });
+  });
+});
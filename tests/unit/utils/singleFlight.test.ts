@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from "vitest";
+import { SingleFlight } from "../../../src/utils/singleFlight";
+
+describe("SingleFlight", () => {
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>((r) => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it("should share one in-flight operation per key", async () => {
+    const singleFlight = new SingleFlight();
+    const { promise, resolve } = deferred<string>();
+    const fn = vi.fn(() => promise);
+
+    const first = singleFlight.run("a", fn);
+    const second = singleFlight.run("a", fn);
+    resolve("done");
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      "done",
+      "done",
+    ]);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should start a new operation once the previous one settled", async () => {
+    const singleFlight = new SingleFlight();
+    const fn = vi.fn(async () => "done");
+
+    await singleFlight.run("a", fn);
+    await singleFlight.run("a", fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not share operations across keys", async () => {
+    const singleFlight = new SingleFlight();
+    const fn = vi.fn(async () => "done");
+
+    await Promise.all([singleFlight.run("a", fn), singleFlight.run("b", fn)]);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject only the aborted caller", async () => {
+    const singleFlight = new SingleFlight();
+    const { promise, resolve } = deferred<string>();
+    let sharedSignal: AbortSignal | undefined;
+    const controller = new AbortController();
+
+    const aborted = singleFlight.run(
+      "a",
+      (signal) => {
+        sharedSignal = signal;
+        return promise;
+      },
+      controller.signal,
+      () => new Error("aborted"),
+    );
+    const other = singleFlight.run("a", () => promise);
+    controller.abort();
+    resolve("done");
+
+    await expect(aborted).rejects.toThrow("aborted");
+    await expect(other).resolves.toBe("done");
+    expect(sharedSignal?.aborted).toBe(false);
+  });
+
+  it("should cancel the shared operation when every caller aborted", async () => {
+    const singleFlight = new SingleFlight();
+    let sharedSignal: AbortSignal | undefined;
+    const fn = vi.fn((signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<string>((_, reject) =>
+        signal.addEventListener("abort", () => reject(new Error("cancelled"))),
+      );
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const pending = [
+      singleFlight.run("a", fn, first.signal),
+      singleFlight.run("a", fn, second.signal),
+    ];
+    first.abort();
+    expect(sharedSignal?.aborted).toBe(false);
+    second.abort();
+
+    await expect(Promise.all(pending)).rejects.toBeDefined();
+    expect(sharedSignal?.aborted).toBe(true);
+
+    await expect(singleFlight.run("a", async () => "fresh")).resolves.toBe(
+      "fresh",
+    );
+  });
+});
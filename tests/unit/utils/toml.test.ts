@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { parseToml } from "../../../src/utils/toml";
+
+describe("parseToml", () => {
+  it("should parse tables, arrays of tables and dotted keys", () => {
+    const toml = `
+# Project configuration
+title = "demo"
+
+[owner]
+name = 'Ada' # trailing comment
+contact.email = "ada@example.com"
+
+[[servers]]
+  name = "time"
+  tools = [
+    "get_current_time",
+    "convert_time", # trailing comma
+  ]
+
+[[servers]]
+  name = "fetch"
+
+[servers.env]
+  TZ = "UTC"
+`;
+
+    expect(parseToml(toml)).toEqual({
+      title: "demo",
+      owner: { name: "Ada", contact: { email: "ada@example.com" } },
+      servers: [
+        { name: "time", tools: ["get_current_time", "convert_time"] },
+        { name: "fetch", env: { TZ: "UTC" } },
+      ],
+    });
+  });
+
+  it("should parse scalar values", () => {
+    expect(
+      parseToml(
+        [
+          "int = -1_000",
+          "float = 2.5e3",
+          "yes = true",
+          "no = false",
+          'escaped = "tab\\t\\"q\\" \\u00e9"',
+          "big = inf",
+          'inline = { a = 1, "b c" = [true] }',
+        ].join("\r\n"),
+      ),
+    ).toEqual({
+      int: -1000,
+      float: 2500,
+      yes: true,
+      no: false,
+      escaped: 'tab\t"q" é',
+      big: Infinity,
+      inline: { a: 1, "b c": [true] },
+    });
+  });
+
+  it("should store special keys as data", () => {
+    const table = parseToml('__proto__ = "x"\nconstructor = 1');
+
+    expect(Object.getPrototypeOf(table)).toBe(Object.prototype);
+    expect(Object.keys(table)).toEqual(["__proto__", "constructor"]);
+  });
+
+  it.each([
+    ['a = "unterminated', "Unterminated string at line 1"],
+    ["a = 1\na = 2", "Duplicate key 'a' at line 2"],
+    ["a = 1 b = 2", "Expected end of line at line 1"],
+    ["a = 1979-05-27", "Expected end of line at line 1"],
+    ["a = nope", "Unsupported value at line 1"],
+    ['a = """x"""', "Multi-line strings are not supported at line 1"],
+    ["a = 1\n[a]", "Key 'a' is not a table at line 2"],
+    ["[a]\n[[a]]", "Key 'a' is not an array of tables at line 2"],
+  ])("should reject %j", (toml, message) => {
+    expect(() => parseToml(toml)).toThrow(new SyntaxError(message));
+  });
+});
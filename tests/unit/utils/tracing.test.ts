@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as api from "@opentelemetry/api";
+import {
+  context,
+  propagation,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+} from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { McpdClient } from "../../../src/client";
+import { PipelineError } from "../../../src/errors";
+import { API_PATHS } from "../../../src/apiPaths";
+import { createFetchMock } from "./mockApi";
+
+describe("OpenTelemetry tracing", () => {
+  const exporter = new InMemorySpanExporter();
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const routes = createFetchMock({
+    [API_PATHS.SERVERS]: ["time"],
+    [API_PATHS.HEALTH_SERVER("time")]: { name: "time", status: "ok" },
+    [API_PATHS.HEALTH_ALL]: { servers: [{ name: "time", status: "ok" }] },
+    [API_PATHS.SERVER_TOOLS("time")]: {
+      tools: [
+        { name: "get_time", inputSchema: { type: "object", properties: {} } },
+      ],
+    },
+    [API_PATHS.TOOL_CALL("time", "get_time")]: { time: "now" },
+  });
+
+  const spans = () =>
+    exporter.getFinishedSpans().map((span) => ({
+      name: span.name,
+      kind: span.kind,
+      attributes: span.attributes,
+      parent: span.parentSpanContext?.spanId,
+      spanId: span.spanContext().spanId,
+      status: span.status,
+    }));
+
+  beforeEach(() => {
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable(),
+    );
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+    trace.setGlobalTracerProvider(
+      new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      }),
+    );
+
+    mockFetch = vi.fn((url: string, init: RequestInit) => routes(url, init));
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    exporter.reset();
+    trace.disable();
+    propagation.disable();
+    context.disable();
+    vi.restoreAllMocks();
+  });
+
+  it("should create a client span per daemon request", async () => {
+    const client = new McpdClient({
+      apiEndpoint: "http://localhost:8090",
+      tracing: { api },
+    });
+
+    await client.listServers();
+
+    expect(spans()).toEqual([
+      expect.objectContaining({
+        name: "mcpd.request",
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.request.method": "GET",
+          "url.path": API_PATHS.SERVERS,
+          "http.response.status_code": 200,
+        },
+      }),
+    ]);
+  });
+
+  it("should nest request spans in tool call spans", async () => {
+    const client = new McpdClient({
+      apiEndpoint: "http://localhost:8090",
+      tracing: { api },
+    });
+
+    await client.servers.time!.callTool("get_time");
+
+    const all = spans();
+    const call = all.find((span) => span.name === "mcpd.call_tool")!;
+    const request = all.find(
+      (span) =>
+        span.attributes["url.path"] === API_PATHS.TOOL_CALL("time", "get_time"),
+    )!;
+    expect(call).toMatchObject({
+      kind: SpanKind.INTERNAL,
+      attributes: { "mcpd.server.name": "time", "mcpd.tool.name": "get_time" },
+    });
+    expect(request.parent).toBe(call.spanId);
+    expect(request.attributes).toMatchObject({
+      "http.request.method": "POST",
+      "mcpd.server.name": "time",
+      "mcpd.tool.name": "get_time",
+    });
+  });
+
+  it("should inject the trace context of the request span", async () => {
+    const client = new McpdClient({
+      apiEndpoint: "http://localhost:8090",
+      tracing: { api },
+    });
+
+    await client.listServers();
+
+    const [request] = exporter.getFinishedSpans();
+    const { traceId, spanId } = request!.spanContext();
+    const headers = (
+      mockFetch.mock.calls[0]![1] as { headers: Record<string, string> }
+    ).headers;
+    expect(headers["traceparent"]).toBe(`00-${traceId}-${spanId}-01`);
+  });
+
+  it("should trace the first request before the API has loaded", async () => {
+    // A fresh copy of the SDK, whose tracing API hasn't been loaded yet.
+    vi.resetModules();
+    const { McpdClient: FreshClient } = await import("../../../src/client");
+    const client = new FreshClient({
+      apiEndpoint: "http://localhost:8090",
+      tracing: true,
+    });
+
+    await client.listServers();
+
+    const [request] = exporter.getFinishedSpans();
+    expect(request?.name).toBe("mcpd.request");
+    const { traceId, spanId } = request!.spanContext();
+    const headers = (
+      mockFetch.mock.calls[0]![1] as { headers: Record<string, string> }
+    ).headers;
+    expect(headers["traceparent"]).toBe(`00-${traceId}-${spanId}-01`);
+  });
+
+  it("should trace health checks and getAgentTools", async () => {
+    const client = new McpdClient({
+      apiEndpoint: "http://localhost:8090",
+      tracing: { api },
+    });
+
+    await client.getServerHealth("time");
+    await client.getAgentTools();
+
+    const names = spans().map((span) => span.name);
+    expect(names).toContain("mcpd.health");
+    expect(names).toContain("mcpd.get_agent_tools");
+    expect(spans().find((span) => span.name === "mcpd.health")).toMatchObject({
+      attributes: { "mcpd.server.name": "time" },
+    });
+  });
+
+  it("should record errors and the pipeline flow", async () => {
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) =>
+      url.endsWith(API_PATHS.TOOL_CALL("time", "get_time"))
+        ? {
+            ok: false,
+            status: 500,
+            statusText: "Internal Server Error",
+            headers: new Headers({
+              "Mcpd-Error-Type": "response-pipeline-failure",
+            }),
+            text: async () => "audit failed",
+          }
+        : routes(url, init),
+    );
+    const client = new McpdClient({
+      apiEndpoint: "http://localhost:8090",
+      tracing: { api },
+    });
+
+    const error = await client.servers
+      .time!.callTool("get_time")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(
+      spans().find((span) => span.name === "mcpd.call_tool"),
+    ).toMatchObject({
+      status: { code: SpanStatusCode.ERROR },
+      attributes: {
+        "error.type": "MCPD_PIPELINE_RESPONSE",
+        "mcpd.pipeline.flow": "response",
+        "http.response.status_code": 500,
+      },
+    });
+  });
+
+  it("should not create spans by default", async () => {
+    const client = new McpdClient({ apiEndpoint: "http://localhost:8090" });
+
+    await client.listServers();
+
+    expect(spans()).toEqual([]);
+    const headers = (
+      mockFetch.mock.calls[0]![1] as { headers: Record<string, string> }
+    ).headers;
+    expect(headers).not.toHaveProperty("traceparent");
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import { TypeConverter } from "../../../src/utils/typeConverter";
+
+describe("TypeConverter.findIssues", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      city: { type: "string" },
+      unit: { enum: ["C", "F"] },
+      forecast: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { day: { type: "integer" }, high: { type: "number" } },
+          required: ["day"],
+        },
+      },
+      note: { anyOf: [{ type: "string" }, { type: "null" }] },
+    },
+    required: ["city", "forecast"],
+    additionalProperties: false,
+  };
+
+  it("should find no issues in a matching value", () => {
+    expect(
+      TypeConverter.findIssues(
+        {
+          city: "Tokyo",
+          unit: "C",
+          forecast: [{ day: 1, high: 21.5 }],
+          note: null,
+        },
+        schema,
+      ),
+    ).toEqual([]);
+  });
+
+  it("should locate nested mismatches with JSON pointers", () => {
+    expect(
+      TypeConverter.findIssues(
+        {
+          unit: "K",
+          forecast: [{ day: 1 }, { day: 1.5, high: "hot" }, {}],
+          note: 3,
+          "a/b": true,
+        },
+        schema,
+      ),
+    ).toEqual([
+      { path: "/city", message: "is required" },
+      { path: "/unit", message: 'should be one of: "C", "F", got "K"' },
+      { path: "/forecast/1/day", message: "should be integer, got number" },
+      { path: "/forecast/1/high", message: "should be number, got string" },
+      { path: "/forecast/2/day", message: "is required" },
+      { path: "/note", message: "should match one of the allowed schemas" },
+      { path: "/a~1b", message: "is not allowed" },
+    ]);
+  });
+
+  it.each([
+    [[], "should be object, got array"],
+    [null, "should be object, got null"],
+    ["text", "should be object, got string"],
+  ])("should report a root value of the wrong type (%j)", (value, message) => {
+    expect(TypeConverter.findIssues(value, schema)).toEqual([
+      { path: "", message },
+    ]);
+  });
+});
+
+describe("TypeConverter.findIssues keywords", () => {
+  it("should accept any type of a type array", () => {
+    const nullable = { type: ["string", "null"] };
+
+    expect(TypeConverter.findIssues(null, nullable)).toEqual([]);
+    expect(TypeConverter.findIssues("text", nullable)).toEqual([]);
+    expect(TypeConverter.findIssues(3, nullable)).toEqual([
+      { path: "", message: "should be string or null, got number" },
+    ]);
+  });
+
+  it("should check nullable properties", () => {
+    const schema = {
+      type: "object",
+      properties: { note: { type: ["string", "null"] } },
+      required: ["note"],
+    };
+
+    expect(TypeConverter.findIssues({ note: null }, schema)).toEqual([]);
+    expect(TypeConverter.findIssues({ note: false }, schema)).toEqual([
+      { path: "/note", message: "should be string or null, got boolean" },
+    ]);
+  });
+
+  it("should require exactly one oneOf match", () => {
+    const schema = { oneOf: [{ type: "integer" }, { type: "number" }] };
+
+    expect(TypeConverter.findIssues(1.5, schema)).toEqual([]);
+    expect(TypeConverter.findIssues(1, schema)).toEqual([
+      {
+        path: "",
+        message: "should match exactly one of the allowed schemas, matched 2",
+      },
+    ]);
+    expect(TypeConverter.findIssues("1", schema)).toEqual([
+      { path: "", message: "should match one of the allowed schemas" },
+    ]);
+  });
+
+  it("should require at least one anyOf match", () => {
+    const schema = { anyOf: [{ type: "integer" }, { type: "number" }] };
+
+    expect(TypeConverter.findIssues(1, schema)).toEqual([]);
+    expect(TypeConverter.findIssues(true, schema)).toEqual([
+      { path: "", message: "should match one of the allowed schemas" },
+    ]);
+  });
+
+  it("should require every allOf schema to match", () => {
+    const schema = {
+      allOf: [
+        { type: "object", properties: { a: { type: "string" } } },
+        { required: ["b"] },
+      ],
+    };
+
+    expect(TypeConverter.findIssues({ a: "x", b: 1 }, schema)).toEqual([]);
+    expect(TypeConverter.findIssues({ a: 1 }, schema)).toEqual([
+      { path: "/a", message: "should be string, got number" },
+      { path: "/b", message: "is required" },
+    ]);
+  });
+
+  it("should check const and structured enum values", () => {
+    expect(TypeConverter.findIssues("v1", { const: "v1" })).toEqual([]);
+    expect(TypeConverter.findIssues("v2", { const: "v1" })).toEqual([
+      { path: "", message: 'should be "v1", got "v2"' },
+    ]);
+    expect(
+      TypeConverter.findIssues({ x: 1 }, { enum: [{ x: 1 }, { x: 2 }] }),
+    ).toEqual([]);
+  });
+
+  it("should check string, number and array bounds", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        code: {
+          type: "string",
+          minLength: 2,
+          maxLength: 3,
+          pattern: "^[A-Z]+$",
+        },
+        score: { type: "number", minimum: 0, exclusiveMaximum: 10 },
+        tags: { type: "array", minItems: 1, maxItems: 2 },
+      },
+    };
+
+    expect(
+      TypeConverter.findIssues({ code: "AB", score: 0, tags: ["a"] }, schema),
+    ).toEqual([]);
+    expect(
+      TypeConverter.findIssues({ code: "abcd", score: 10, tags: [] }, schema),
+    ).toEqual([
+      { path: "/code", message: "should have at most 3 characters, got 4" },
+      { path: "/code", message: 'should match pattern "^[A-Z]+$"' },
+      { path: "/score", message: "should be < 10, got 10" },
+      { path: "/tags", message: "should have at least 1 items, got 0" },
+    ]);
+  });
+
+  it("should check additional properties against a schema", () => {
+    const schema = {
+      type: "object",
+      properties: { id: { type: "string" } },
+      additionalProperties: { type: "number" },
+    };
+
+    expect(TypeConverter.findIssues({ id: "a", n: 1 }, schema)).toEqual([]);
+    expect(TypeConverter.findIssues({ id: "a", n: "1" }, schema)).toEqual([
+      { path: "/n", message: "should be number, got string" },
+    ]);
+  });
+});
+
+describe("TypeConverter.findUnsupportedKeyword", () => {
+  it("should accept schemas findIssues() fully checks", () => {
+    expect(
+      TypeConverter.findUnsupportedKeyword({
+        type: "object",
+        properties: {
+          id: { type: ["string", "null"], format: "uuid" },
+          items: { type: "array", items: { oneOf: [{ type: "string" }] } },
+        },
+        additionalProperties: false,
+      }),
+    ).toBeUndefined();
+  });
+
+  it.each([
+    [{ $ref: "#/$defs/item" }, "$ref"],
+    [{ type: "object", properties: { a: { not: { type: "null" } } } }, "not"],
+    [{ type: "array", items: [{ type: "string" }] }, "items"],
+    [{ allOf: [{ patternProperties: {} }] }, "patternProperties"],
+  ])("should find unsupported keywords in %j", (schema, keyword) => {
+    expect(TypeConverter.findUnsupportedKeyword(schema)).toBe(keyword);
+  });
+});
+
+describe("TypeConverter input validation", () => {
+  // Type arrays are only checked by findIssues(); parameter checks accept any value.
+  it("should describe and accept any value for a type array", () => {
+    const schema = { type: ["string", "number"] };
+
+    expect(TypeConverter.getTypeDescription(schema)).toBe("any");
+    expect(TypeConverter.validateValue(true, schema)).toBe(true);
+    expect(TypeConverter.findIssues(true, schema)).toHaveLength(1);
+  });
+});
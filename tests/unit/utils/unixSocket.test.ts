@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createUnixSocketFetch,
+  parseUnixSocketEndpoint,
+} from "../../../src/utils/unixSocket";
+import { McpdClient } from "../../../src/client";
+import { ConnectionError, McpdError } from "../../../src/errors";
+import { API_PATHS } from "../../../src/apiPaths";
+
+describe("unix socket transport", () => {
+  describe("parseUnixSocketEndpoint", () => {
+    it("should return the socket path for unix endpoints", () => {
+      expect(parseUnixSocketEndpoint("unix:///run/mcpd.sock")).toBe(
+        "/run/mcpd.sock",
+      );
+    });
+
+    it("should return undefined for http endpoints", () => {
+      expect(parseUnixSocketEndpoint("http://localhost:8090")).toBeUndefined();
+    });
+
+    it("should reject unix endpoints without a path", () => {
+      expect(() => parseUnixSocketEndpoint("unix://")).toThrow(TypeError);
+    });
+  });
+
+  describe("over a live socket", () => {
+    let dir: string;
+    let socketPath: string;
+    let server: Server;
+    let requests: { method: string | undefined; url: string | undefined }[];
+
+    beforeEach(async () => {
+      dir = mkdtempSync(join(tmpdir(), "mcpd-sdk-"));
+      socketPath = join(dir, "mcpd.sock");
+      requests = [];
+
+      server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          requests.push({ method: req.method, url: req.url });
+          res.setHeader("Content-Type", "application/json");
+
+          if (req.url === API_PATHS.SERVERS) {
+            res.end(JSON.stringify(["time"]));
+          } else if (req.url === API_PATHS.HEALTH_SERVER("time")) {
+            res.end(JSON.stringify({ name: "time", status: "ok" }));
+          } else if (req.url === API_PATHS.SERVER_TOOLS("time")) {
+            res.end(
+              JSON.stringify({
+                tools: [
+                  {
+                    name: "get_time",
+                    inputSchema: { type: "object", properties: {} },
+                  },
+                ],
+              }),
+            );
+          } else if (req.url === API_PATHS.TOOL_CALL("time", "get_time")) {
+            res.end(JSON.stringify({ echo: JSON.parse(body) }));
+          } else if (req.url === "/empty") {
+            res.statusCode = 204;
+            res.end();
+          } else {
+            res.statusCode = 404;
+            res.end(
+              JSON.stringify({
+                status: 404,
+                title: "Not Found",
+                detail: "Server not found",
+              }),
+            );
+          }
+        });
+      });
+
+      await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should send requests and return fetch responses", async () => {
+      const unixFetch = createUnixSocketFetch(socketPath);
+
+      const response = await unixFetch(`http://localhost${API_PATHS.SERVERS}`, {
+        headers: { Accept: "application/json" },
+      });
+
+      expect(response.ok).toBe(true);
+      expect(response.headers.get("content-type")).toBe("application/json");
+      expect(await response.json()).toEqual(["time"]);
+    });
+
+    it("should return a null body for 204 responses", async () => {
+      const unixFetch = createUnixSocketFetch(socketPath);
+
+      const response = await unixFetch("http://localhost/empty", {});
+
+      expect(response.status).toBe(204);
+      expect(response.body).toBeNull();
+    });
+
+    it("should reject with an AbortError when the signal is aborted", async () => {
+      const unixFetch = createUnixSocketFetch(socketPath);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        unixFetch("http://localhost/empty", { signal: controller.signal }),
+      ).rejects.toMatchObject({ name: "AbortError" });
+    });
+
+    it("should route every McpdClient call over the socket", async () => {
+      const client = new McpdClient({ apiEndpoint: `unix://${socketPath}` });
+
+      expect(await client.listServers()).toEqual(["time"]);
+      const result = await client.servers.time!.callTool("get_time", {
+        timezone: "UTC",
+      });
+
+      expect(result.json()).toEqual({ echo: { timezone: "UTC" } });
+      expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+        `GET ${API_PATHS.SERVERS}`,
+        `GET ${API_PATHS.HEALTH_SERVER("time")}`,
+        `GET ${API_PATHS.SERVER_TOOLS("time")}`,
+        `POST ${API_PATHS.TOOL_CALL("time", "get_time")}`,
+      ]);
+    });
+
+    it("should apply the usual error mapping", async () => {
+      const client = new McpdClient({ apiEndpoint: `unix://${socketPath}` });
+
+      const error = await client
+        .getServerHealth("other")
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(McpdError);
+      expect((error as Error).message).toBe("Not Found: Server not found");
+    });
+
+    it("should throw ConnectionError when the socket does not exist", async () => {
+      const client = new McpdClient({
+        apiEndpoint: `unix://${join(dir, "missing.sock")}`,
+      });
+
+      const error = await client.listServers().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConnectionError);
+      expect((error as Error).message).toContain("missing.sock");
+    });
+  });
+});
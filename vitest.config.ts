@@ -1,5 +1,15 @@
 import { defineConfig } from "vitest/config";
 
+/**
+ * Tests that exercise Node.js-only functionality (files, unix sockets and
+ * async context tracking) and are skipped in other runtimes.
+ */
+const NODE_ONLY_TESTS = [
+  "tests/unit/config.test.ts",
+  "tests/unit/utils/unixSocket.test.ts",
+  "tests/unit/utils/tracing.test.ts",
+];
+
 export default defineConfig({
   test: {
     globals: true,
@@ -17,5 +27,24 @@ export default defineConfig({
       ],
     },
     testTimeout: 10000,
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: "node",
+          include: ["tests/**/*.test.ts"],
+        },
+      },
+      {
+        // Web-standard globals only, as in Cloudflare Workers, Deno and browsers.
+        extends: true,
+        test: {
+          name: "edge-runtime",
+          environment: "edge-runtime",
+          include: ["tests/**/*.test.ts"],
+          exclude: NODE_ONLY_TESTS,
+        },
+      },
+    ],
   },
 });